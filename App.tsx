@@ -1,118 +1,485 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Game3D } from './components/Game3D';
+import { HistoryScreen } from './components/HistoryScreen';
+import { LeaderboardScreen } from './components/LeaderboardScreen';
+import { TrainingScreen } from './components/TrainingScreen';
+import { PlaylistBreak } from './components/PlaylistBreak';
+import { PlaylistReport } from './components/PlaylistReport';
+import { RaceLobby } from './components/RaceLobby';
+import { RaceResults } from './components/RaceResults';
+import { ScenarioEditor } from './components/ScenarioEditor';
+import { SensitivityMatcher } from './components/SensitivityMatcher';
+import { MainMenu } from './components/MainMenu';
 import { ResultsScreen } from './components/ResultsScreen';
-import { GameState, ScenarioType, SessionStats, ShotData } from './types';
+import { ReplayScreen } from './components/ReplayScreen';
+import { SettingsScreen } from './components/SettingsScreen';
+import { clearHistory, saveSession, withSessionDetail } from './services/historyService';
+import { isRankedSession } from './services/leaderboardService';
+import { ProfileStore, deleteProfile, loadProfiles, newProfile, saveProfile, setActiveProfile } from './services/profileService';
+import { BUILT_IN_SCENARIOS, getScenario } from './services/scenarioRegistry';
+import { dailyChallengeDate, dailySeed, randomSeed } from './services/random';
+import { SessionReplay, buildReplay } from './services/replayService';
+import { RaceClient, RaceRoom, connectRace } from './services/raceClient';
+import { RaceServerMessage } from './services/raceProtocol';
+import { PlaylistRun, completeProgramDay, summarizePlaylistRun } from './services/trainingService';
+import { loadAudioSettings, loadInputSettings, loadSettings, saveAudioSettings, saveInputSettings, saveSettings } from './services/settingsService';
+import { AdaptiveConfig, AudioSettings, GameState, InputSettings, Playlist, Profile, ScenarioDefinition, SeedMode, SessionConfig, SessionMode, SessionResult, SessionStats, VisualSettings } from './types';
 
 function App() {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
-  const [scenario, setScenario] = useState<ScenarioType>(ScenarioType.GRIDSHOT);
-  const [sensitivity, setSensitivity] = useState<number>(1.0);
+  const [scenario, setScenario] = useState<ScenarioDefinition>(BUILT_IN_SCENARIOS[0]);
+  const [profileStore, setProfileStore] = useState<ProfileStore>(loadProfiles);
+  const activeProfile = profileStore.profiles.find(p => p.id === profileStore.activeId) ?? profileStore.profiles[0];
+  const { sensitivity, dpi, targetGame } = activeProfile;
+  const [seedMode, setSeedMode] = useState<SeedMode>(SeedMode.RANDOM);
+  const [customSeed, setCustomSeed] = useState<number>(1);
+  const [activeSeed, setActiveSeed] = useState<number>(0);
+  const [sessionMode, setSessionMode] = useState<SessionMode>(SessionMode.TIMED);
+  const [sessionDuration, setSessionDuration] = useState<number>(0); // 0 = the scenario's own duration
+  const [killTarget, setKillTarget] = useState<number>(25);
+  const [adaptive, setAdaptive] = useState<AdaptiveConfig | undefined>(undefined);
+  const [activeSession, setActiveSession] = useState<SessionConfig | null>(null);
+  const [devOverlay, setDevOverlay] = useState<boolean>(false);
+  const [visuals, setVisuals] = useState<VisualSettings>(() => loadSettings(activeProfile.id));
+  const [audio, setAudio] = useState<AudioSettings>(() => loadAudioSettings(activeProfile.id));
+  const [input, setInput] = useState<InputSettings>(() => loadInputSettings(activeProfile.id));
   const [lastStats, setLastStats] = useState<SessionStats | null>(null);
+  const [unsavedId, setUnsavedId] = useState<string | null>(null); // Last session, when it didn't fit the history
+  const [replay, setReplay] = useState<{ replay: SessionReplay; startAt: number; returnTo: GameState } | null>(null);
+  const [leaderboard, setLeaderboard] = useState<{ scenario?: string; seed?: number }>({});
+  const [playlistRun, setPlaylistRun] = useState<PlaylistRun | null>(null);
+  const [resultsReturn, setResultsReturn] = useState<GameState | null>(null); // Where "Back" on the results goes
 
-  const handleStartGame = (type: ScenarioType) => {
-    setScenario(type);
+  // Races: the relay connection lives in a ref, what it has told us in state
+  const raceClientRef = useRef<RaceClient | null>(null);
+  const [raceRoom, setRaceRoom] = useState<RaceRoom | null>(null);
+  const [raceConnecting, setRaceConnecting] = useState(false);
+  const [raceError, setRaceError] = useState<string | null>(null);
+  const [racing, setRacing] = useState(false); // The session being played is a race
+
+  // -----------------------------------------------------------------------------
+  // Profiles: sensitivity, DPI and game live on the profile; visuals, audio and
+  // input are stored per profile by settingsService
+  // -----------------------------------------------------------------------------
+  const updateProfile = (patch: Partial<Profile>) => {
+    setProfileStore(saveProfile({ ...activeProfile, ...patch }));
+  };
+
+  const switchProfile = (store: ProfileStore) => {
+    setProfileStore(store);
+    setVisuals(loadSettings(store.activeId));
+    setAudio(loadAudioSettings(store.activeId));
+    setInput(loadInputSettings(store.activeId));
+  };
+
+  const handleProfileCreate = (name: string) => {
+    const profile = newProfile(name, activeProfile);
+    saveProfile(profile);
+    switchProfile(setActiveProfile(profile.id));
+  };
+
+  const handleProfileDelete = () => {
+    clearHistory(activeProfile.id);
+    switchProfile(deleteProfile(activeProfile.id));
+  };
+
+  // An explicit seed replays a previous run; otherwise the menu's seed mode decides
+  const launch = (definition: ScenarioDefinition, seed: number | undefined, config: SessionConfig) => {
+    let nextSeed = seed;
+    if (nextSeed === undefined) {
+      if (seedMode === SeedMode.DAILY) nextSeed = dailySeed();
+      else if (seedMode === SeedMode.CUSTOM) nextSeed = customSeed;
+      else nextSeed = randomSeed();
+    }
+    setScenario(definition);
+    setActiveSeed(nextSeed);
+    setActiveSession(config);
     setGameState(GameState.PLAYING);
   };
 
-  const handleGameFinish = (score: number, shotsFired: number, shotsHit: number, missData: ShotData[]) => {
+  const handleStartGame = (definition: ScenarioDefinition, seed?: number) => {
+    setPlaylistRun(null);
+    setRacing(false);
+    launch(definition, seed, {
+      mode: sessionMode,
+      duration: sessionDuration > 0 ? sessionDuration : definition.duration,
+      killTarget,
+      adaptive
+    });
+  };
+
+  // -----------------------------------------------------------------------------
+  // Playlists: timed blocks at fixed difficulty, with rests in between
+  // -----------------------------------------------------------------------------
+  const finishPlaylist = (run: PlaylistRun) => {
+    setPlaylistRun(run);
+    if (run.programDay !== undefined && summarizePlaylistRun(run).completed) completeProgramDay(activeProfile.id, run.programDay);
+    setGameState(GameState.PLAYLIST_REPORT);
+  };
+
+  const startBlock = (run: PlaylistRun) => {
+    const block = run.playlist.blocks[run.sessions.length];
+    const definition = getScenario(block.scenario);
+    if (!definition) {
+      finishPlaylist(run);
+      return;
+    }
+    setPlaylistRun(run);
+    setRacing(false);
+    launch(definition, undefined, { mode: SessionMode.TIMED, duration: block.duration, killTarget });
+  };
+
+  const handleStartPlaylist = (playlist: Playlist, programDay?: number) =>
+    startBlock({ runId: crypto.randomUUID(), playlist, programDay, sessions: [] });
+
+  // -----------------------------------------------------------------------------
+  // Races: the host's scenario and seed for everyone, timed, at fixed difficulty
+  // -----------------------------------------------------------------------------
+  const startRace = (definition: ScenarioDefinition, seed: number) => {
+    if (!raceClientRef.current) return; // Left during the countdown
+    setPlaylistRun(null);
+    setRacing(true);
+    launch(definition, seed, { mode: SessionMode.TIMED, duration: definition.duration, killTarget });
+  };
+
+  const handleRaceMessage = (message: RaceServerMessage) => {
+    switch (message.type) {
+      case 'lobby':
+        setRaceConnecting(false);
+        setRaceError(null);
+        setRaceRoom(prev => ({
+          code: message.room,
+          you: message.you,
+          host: message.host,
+          players: message.players,
+          scenario: message.scenario,
+          seed: message.seed,
+          startsAt: null,
+          standings: prev?.standings ?? [],
+          results: prev?.results ?? null,
+        }));
+        break;
+      case 'start':
+        setRaceRoom(prev => prev && {
+          ...prev,
+          startsAt: Date.now() + message.startsIn,
+          standings: prev.players.map(p => ({ ...p, score: 0, hits: 0, shots: 0, rejected: 0, finished: false, left: false })),
+          results: null,
+        });
+        setGameState(GameState.RACE_LOBBY);
+        window.setTimeout(() => startRace(message.scenario, message.seed), message.startsIn);
+        break;
+      case 'standings':
+        setRaceRoom(prev => prev && { ...prev, standings: message.players });
+        break;
+      case 'results':
+        setRaceRoom(prev => prev && { ...prev, standings: message.players, results: message.players });
+        break;
+      case 'error':
+        setRaceConnecting(false);
+        setRaceError(message.message);
+        break;
+    }
+  };
+
+  const handleRaceConnect = (url: string, room: string, name: string) => {
+    raceClientRef.current?.close();
+    setRaceError(null);
+    setRaceConnecting(true);
+    raceClientRef.current = connectRace(url, room, name, {
+      onMessage: handleRaceMessage,
+      onClose: (reason) => {
+        raceClientRef.current = null;
+        setRaceRoom(null);
+        setRaceConnecting(false);
+        setRaceError(reason);
+        setGameState(state => state === GameState.RACE_RESULTS ? GameState.RACE_LOBBY : state);
+      },
+    });
+  };
+
+  const handleRaceLeave = () => {
+    raceClientRef.current?.close();
+    raceClientRef.current = null;
+    setRaceRoom(null);
+    setRaceError(null);
+    setGameState(GameState.MENU);
+  };
+
+  const handleGameFinish = (result: SessionResult) => {
     document.exitPointerLock();
+    const { score, shotsFired, shotsHit } = result;
     const stats: SessionStats = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
       score,
       shotsFired,
       shotsHit,
       accuracy: shotsFired > 0 ? (shotsHit / shotsFired) * 100 : 0,
-      missData,
-      scenario,
-      sensitivity
+      avgTimeOnTarget: result.avgTimeOnTarget,
+      trackingSamples: result.trackingSamples,
+      targetRecords: result.targetRecords,
+      aimPath: result.aimPath,
+      missData: result.missData,
+      scenario: scenario.id,
+      scenarioName: scenario.name,
+      sensitivity,
+      dpi,
+      targetGame,
+      profileId: activeProfile.id,
+      fov: result.fov,
+      visuals,
+      hitbox: scenario.hitbox,
+      seed: activeSeed,
+      dailyChallenge: activeSeed === dailySeed() ? dailyChallengeDate() : undefined,
+      sessionMode: activeSession?.mode ?? SessionMode.TIMED,
+      duration: result.duration,
+      timeLimit: (activeSession?.mode ?? SessionMode.TIMED) === SessionMode.TIMED ? activeSession?.duration : undefined,
+      targetScale: racing ? 1 : visuals.targetScale,
+      endedEarly: result.endedEarly || undefined,
+      adaptive: activeSession?.adaptive,
+      difficultyCurve: result.difficultyCurve,
+      playlist: playlistRun ? { runId: playlistRun.runId, playlistId: playlistRun.playlist.id, block: playlistRun.sessions.length } : undefined,
+      race: racing && raceRoom ? { room: raceRoom.code, racers: raceRoom.players.length } : undefined,
+      input: input.device
     };
+    setUnsavedId(saveSession(stats) ? null : stats.id);
     setLastStats(stats);
+    setResultsReturn(null);
+
+    // Ending a block early ends the playlist
+    if (playlistRun) {
+      const run = { ...playlistRun, sessions: [...playlistRun.sessions, stats] };
+      if (stats.endedEarly || run.sessions.length === run.playlist.blocks.length) {
+        finishPlaylist(run);
+      } else {
+        setPlaylistRun(run);
+        setGameState(GameState.PLAYLIST_REST);
+      }
+      return;
+    }
+    // The relay's standings follow, unless the connection dropped mid-race
+    if (racing && raceClientRef.current) {
+      raceClientRef.current.send({ type: 'finish' });
+      setGameState(GameState.RACE_RESULTS);
+      return;
+    }
     setGameState(GameState.RESULTS);
   };
 
-  // Main Menu Component (Inline for simplicity of file structure)
-  const MainMenu = () => (
-    <div className="flex flex-col items-center justify-center h-screen bg-zinc-950 text-white p-4">
-      <div className="max-w-2xl w-full text-center space-y-8">
-        <h1 className="text-6xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-br from-emerald-400 to-cyan-600 mb-2">
-          PRECISION AIM LAB
-        </h1>
-        <p className="text-zinc-400 text-lg">
-          Train your aim in 3D. Analyze your misses. Optimize your DPI.
-        </p>
-
-        <div className="bg-zinc-900 p-8 rounded-xl border border-zinc-800 shadow-2xl">
-          <div className="mb-8">
-            <label className="block text-left text-sm font-bold text-zinc-300 mb-2">
-              SENSITIVITY (Global Multiplier)
-            </label>
-            <div className="flex items-center gap-4">
-              <input
-                type="range"
-                min="0.1"
-                max="5.0"
-                step="0.1"
-                value={sensitivity}
-                onChange={(e) => setSensitivity(parseFloat(e.target.value))}
-                className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-              />
-              <span className="font-mono bg-zinc-800 px-3 py-1 rounded text-emerald-400 w-16">
-                {sensitivity}
-              </span>
-            </div>
-            <p className="text-left text-xs text-zinc-500 mt-2">
-              Note: This applies a multiplier to standard pointer lock movement.
-            </p>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <button
-              onClick={() => handleStartGame(ScenarioType.GRIDSHOT)}
-              className="p-4 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-all group hover:border-emerald-500/50"
-            >
-              <div className="text-2xl mb-2">🎯</div>
-              <h3 className="font-bold text-white group-hover:text-emerald-400">Gridshot</h3>
-              <p className="text-xs text-zinc-500 mt-1">Speed & precision. Static targets.</p>
-            </button>
-
-            <button
-              onClick={() => handleStartGame(ScenarioType.TRACKING)}
-              className="p-4 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-all group hover:border-blue-500/50"
-            >
-              <div className="text-2xl mb-2">〰️</div>
-              <h3 className="font-bold text-white group-hover:text-blue-400">Tracking</h3>
-              <p className="text-xs text-zinc-500 mt-1">Smoothness. Moving targets.</p>
-            </button>
-
-            <button
-              onClick={() => handleStartGame(ScenarioType.FLICKING)}
-              className="p-4 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-all group hover:border-purple-500/50"
-            >
-              <div className="text-2xl mb-2">⚡</div>
-              <h3 className="font-bold text-white group-hover:text-purple-400">Micro-Flick</h3>
-              <p className="text-xs text-zinc-500 mt-1">Small adjustments. Tiny targets.</p>
-            </button>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+  const handleVisualsChange = (next: VisualSettings) => {
+    setVisuals(next);
+    saveSettings(next, activeProfile.id);
+  };
+
+  const handleAudioChange = (next: AudioSettings) => {
+    setAudio(next);
+    saveAudioSettings(next, activeProfile.id);
+  };
+
+  const handleInputChange = (next: InputSettings) => {
+    setInput(next);
+    saveInputSettings(next, activeProfile.id);
+  };
+
+  // Imported sessions are shown, not added to the history; saved ones get their
+  // aim path back when it is still stored
+  const handleOpenSession = (stats: SessionStats, returnTo: GameState | null = null) => {
+    const definition = getScenario(stats.scenario);
+    if (definition) setScenario(definition);
+    setLastStats(withSessionDetail([stats])[0]);
+    setResultsReturn(returnTo);
+    setGameState(GameState.RESULTS);
+  };
+
+  const handleOpenLeaderboard = (scenarioId?: string, seed?: number) => {
+    setLeaderboard({ scenario: scenarioId, seed });
+    setGameState(GameState.LEADERBOARD);
+  };
+
+  const handleOpenReplay = (next: SessionReplay, startAt = 0) => {
+    setReplay({ replay: next, startAt, returnTo: gameState });
+    setGameState(GameState.REPLAY);
+  };
 
   return (
     <>
-      {gameState === GameState.MENU && <MainMenu />}
-      
+      {gameState === GameState.MENU && (
+        <MainMenu
+          profiles={profileStore.profiles}
+          profile={activeProfile}
+          onProfileSelect={(id) => switchProfile(setActiveProfile(id))}
+          onProfileCreate={handleProfileCreate}
+          onProfileRename={(name) => updateProfile({ name })}
+          onProfileDelete={handleProfileDelete}
+          sensitivity={sensitivity}
+          dpi={dpi}
+          targetGame={targetGame}
+          onSensitivityChange={(value) => updateProfile({ sensitivity: value })}
+          onDpiChange={(value) => updateProfile({ dpi: value })}
+          onTargetGameChange={(value) => updateProfile({ targetGame: value })}
+          seedMode={seedMode}
+          customSeed={customSeed}
+          onSeedModeChange={setSeedMode}
+          onCustomSeedChange={setCustomSeed}
+          sessionMode={sessionMode}
+          sessionDuration={sessionDuration}
+          killTarget={killTarget}
+          onSessionModeChange={setSessionMode}
+          onSessionDurationChange={setSessionDuration}
+          onKillTargetChange={setKillTarget}
+          adaptive={adaptive}
+          onAdaptiveChange={setAdaptive}
+          devOverlay={devOverlay}
+          onDevOverlayChange={setDevOverlay}
+          onStart={handleStartGame}
+          onHistory={() => setGameState(GameState.HISTORY)}
+          onEditor={() => setGameState(GameState.EDITOR)}
+          onCalibrate={() => setGameState(GameState.CALIBRATION)}
+          onSettings={() => setGameState(GameState.SETTINGS)}
+          onTraining={() => setGameState(GameState.TRAINING)}
+          onStartPlaylist={handleStartPlaylist}
+          onLeaderboard={() => handleOpenLeaderboard()}
+          onRace={() => setGameState(GameState.RACE_LOBBY)}
+          onLoadReplay={handleOpenReplay}
+        />
+      )}
+
       {gameState === GameState.PLAYING && (
-        <Game3D 
-          scenario={scenario} 
-          sensitivity={sensitivity} 
-          onFinish={handleGameFinish} 
+        <Game3D
+          scenario={scenario}
+          sensitivity={sensitivity}
+          seed={activeSeed}
+          session={activeSession ?? undefined}
+          devOverlay={devOverlay}
+          visuals={visuals}
+          audio={audio}
+          input={input}
+          race={racing ? {
+            you: raceRoom?.you ?? '',
+            standings: raceRoom?.standings ?? [],
+            onShot: (shot) => raceClientRef.current?.send({ type: 'shot', shot })
+          } : undefined}
+          onFinish={handleGameFinish}
         />
       )}
 
       {gameState === GameState.RESULTS && lastStats && (
-        <ResultsScreen 
-          stats={lastStats} 
-          onRestart={() => setGameState(GameState.PLAYING)}
+        <ResultsScreen
+          stats={lastStats}
+          unsaved={unsavedId === lastStats.id}
+          onRestart={scenario.id === lastStats.scenario ? () => handleStartGame(scenario) : undefined}
+          onReplaySeed={scenario.id === lastStats.scenario ? () => handleStartGame(scenario, lastStats.seed) : undefined}
+          onWatchReplay={(startAt) => handleOpenReplay(buildReplay(lastStats), startAt)}
+          onLeaderboard={isRankedSession(lastStats) ? () => handleOpenLeaderboard(lastStats.scenario, lastStats.seed) : undefined}
+          onBack={resultsReturn ? () => setGameState(resultsReturn) : undefined}
+          onMenu={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {gameState === GameState.REPLAY && replay && (
+        <ReplayScreen
+          replay={replay.replay}
+          startAt={replay.startAt}
+          onBack={() => setGameState(replay.returnTo)}
+        />
+      )}
+
+      {gameState === GameState.HISTORY && (
+        <HistoryScreen profile={activeProfile} onMenu={() => setGameState(GameState.MENU)} onOpenSession={(stats) => handleOpenSession(stats)} />
+      )}
+
+      {gameState === GameState.LEADERBOARD && (
+        <LeaderboardScreen
+          profiles={profileStore.profiles}
+          activeProfileId={activeProfile.id}
+          scenario={leaderboard.scenario}
+          seed={leaderboard.seed}
+          onOpenSession={(stats) => handleOpenSession(stats)}
+          onMenu={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {gameState === GameState.TRAINING && (
+        <TrainingScreen
+          profile={activeProfile}
+          onStartPlaylist={handleStartPlaylist}
+          onMenu={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {gameState === GameState.PLAYLIST_REST && playlistRun && (
+        <PlaylistBreak
+          run={playlistRun}
+          onContinue={() => startBlock(playlistRun)}
+          onEnd={() => finishPlaylist(playlistRun)}
+        />
+      )}
+
+      {gameState === GameState.PLAYLIST_REPORT && playlistRun && (
+        <PlaylistReport
+          run={playlistRun}
+          onOpenSession={(stats) => handleOpenSession(stats, GameState.PLAYLIST_REPORT)}
+          onRestart={() => handleStartPlaylist(playlistRun.playlist, playlistRun.programDay)}
+          onMenu={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {gameState === GameState.RACE_LOBBY && (
+        <RaceLobby
+          room={raceRoom}
+          connecting={raceConnecting}
+          error={raceError}
+          playerName={activeProfile.name}
+          onConnect={handleRaceConnect}
+          onConfigure={(definition, seed) => raceClientRef.current?.send({ type: 'configure', scenario: definition, seed })}
+          onStart={() => raceClientRef.current?.send({ type: 'start' })}
+          onResults={() => setGameState(GameState.RACE_RESULTS)}
+          onLeave={handleRaceLeave}
+        />
+      )}
+
+      {gameState === GameState.RACE_RESULTS && raceRoom && (
+        <RaceResults
+          room={raceRoom}
+          stats={lastStats?.race ? lastStats : null}
+          onAnalysis={() => lastStats && handleOpenSession(lastStats, GameState.RACE_RESULTS)}
+          onLobby={() => setGameState(GameState.RACE_LOBBY)}
+          onLeave={handleRaceLeave}
+        />
+      )}
+
+      {gameState === GameState.EDITOR && (
+        <ScenarioEditor
+          onMenu={() => setGameState(GameState.MENU)}
+          onPlay={handleStartGame}
+        />
+      )}
+
+      {gameState === GameState.CALIBRATION && (
+        <SensitivityMatcher
+          sensitivity={sensitivity}
+          dpi={dpi}
+          targetGame={targetGame}
+          visuals={visuals}
+          audio={audio}
+          onApply={(value) => {
+            updateProfile({ sensitivity: value });
+            setGameState(GameState.MENU);
+          }}
+          onMenu={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {gameState === GameState.SETTINGS && (
+        <SettingsScreen
+          visuals={visuals}
+          audio={audio}
+          input={input}
+          targetGame={targetGame}
+          onChange={handleVisualsChange}
+          onAudioChange={handleAudioChange}
+          onInputChange={handleInputChange}
           onMenu={() => setGameState(GameState.MENU)}
         />
       )}
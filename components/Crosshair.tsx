@@ -0,0 +1,100 @@
+import React from 'react';
+import { CrosshairSettings, CrosshairStyle } from '../types';
+
+// Momentary crosshair feedback after a shot
+export type CrosshairFlash = 'hit' | 'miss';
+
+interface CrosshairProps {
+  settings: CrosshairSettings;
+  flash?: CrosshairFlash | null;
+}
+
+const MISS_COLOR = '#ef4444';
+const HITMARKER_COLOR = '#ffffff';
+
+// One rectangle centered on (x, y) px from the crosshair center
+const Bar: React.FC<{ x: number; y: number; width: number; height: number; color: string; outline: boolean; rotate?: number }> = ({
+  x, y, width, height, color, outline, rotate = 0,
+}) => (
+  <div
+    style={{
+      position: 'absolute',
+      left: x - width / 2,
+      top: y - height / 2,
+      width,
+      height,
+      backgroundColor: color,
+      boxShadow: outline ? '0 0 0 1px #000' : undefined,
+      transform: rotate ? `rotate(${rotate}deg)` : undefined,
+    }}
+  />
+);
+
+// -----------------------------------------------------------------------------
+// Screen-centered crosshair drawn from the player's settings
+// -----------------------------------------------------------------------------
+export const Crosshair: React.FC<CrosshairProps> = ({ settings, flash = null }) => {
+  const { style, size, gap, thickness, outline, centerDot } = settings;
+  const color = flash === 'miss' ? MISS_COLOR : settings.color;
+  const arm = gap + size / 2;
+
+  return (
+    <div className="absolute top-1/2 left-1/2 pointer-events-none z-50" style={{ width: 0, height: 0 }}>
+      {(style === CrosshairStyle.CROSS || style === CrosshairStyle.T_SHAPE) && (
+        <>
+          <Bar x={-arm} y={0} width={size} height={thickness} color={color} outline={outline} />
+          <Bar x={arm} y={0} width={size} height={thickness} color={color} outline={outline} />
+          <Bar x={0} y={arm} width={thickness} height={size} color={color} outline={outline} />
+          {style === CrosshairStyle.CROSS && (
+            <Bar x={0} y={-arm} width={thickness} height={size} color={color} outline={outline} />
+          )}
+        </>
+      )}
+      {style === CrosshairStyle.CIRCLE && (
+        <div
+          style={{
+            position: 'absolute',
+            left: -size,
+            top: -size,
+            width: 2 * size,
+            height: 2 * size,
+            boxSizing: 'border-box',
+            borderRadius: '50%',
+            border: `${thickness}px solid ${color}`,
+            boxShadow: outline ? '0 0 0 1px #000, inset 0 0 0 1px #000' : undefined,
+          }}
+        />
+      )}
+      {(style === CrosshairStyle.DOT || centerDot) && (
+        <div
+          style={{
+            position: 'absolute',
+            left: -thickness / 2,
+            top: -thickness / 2,
+            width: thickness,
+            height: thickness,
+            borderRadius: '50%',
+            backgroundColor: color,
+            boxShadow: outline ? '0 0 0 1px #000' : undefined,
+          }}
+        />
+      )}
+      {flash === 'hit' && [45, 135, 225, 315].map(angle => {
+        const distance = gap + size + 4;
+        const rad = (angle * Math.PI) / 180;
+        return (
+          <Bar
+            key={angle}
+            x={Math.cos(rad) * distance}
+            y={Math.sin(rad) * distance}
+            width={6}
+            height={2}
+            color={HITMARKER_COLOR}
+            outline={outline}
+            rotate={angle}
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import { median } from '../services/targetMetrics';
+
+// Frames and latencies kept for the rolling statistics
+const WINDOW = 240;
+// Text refresh interval (ms); the readout itself never re-renders React
+const REFRESH_INTERVAL = 250;
+
+const percentile = (values: number[], q: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(Math.floor(q * sorted.length), sorted.length - 1)];
+};
+
+const pushWindowed = (list: number[], value: number) => {
+  list.push(value);
+  if (list.length > WINDOW) list.shift();
+};
+
+// -----------------------------------------------------------------------------
+// Frame time and input-to-photon readout (inside the Canvas)
+// -----------------------------------------------------------------------------
+// Input-to-photon is estimated as the time from an input event to the start of
+// the first frame that includes it, plus one frame for the GPU and scan-out.
+export const DevOverlay: React.FC = () => {
+  const textRef = useRef<HTMLPreElement>(null);
+  const frameTimes = useRef<number[]>([]);
+  const latencies = useRef<number[]>([]);
+  const lastFrame = useRef(0);
+  const lastRefresh = useRef(0);
+  const pendingInput = useRef<number | null>(null); // Oldest input not yet on screen
+
+  useEffect(() => {
+    const handleInput = (e: Event) => {
+      if (pendingInput.current === null) pendingInput.current = e.timeStamp;
+    };
+    document.addEventListener('mousemove', handleInput, { passive: true });
+    document.addEventListener('mousedown', handleInput, { passive: true });
+    return () => {
+      document.removeEventListener('mousemove', handleInput);
+      document.removeEventListener('mousedown', handleInput);
+    };
+  }, []);
+
+  useFrame(() => {
+    const now = performance.now();
+    if (lastFrame.current > 0) pushWindowed(frameTimes.current, now - lastFrame.current);
+    lastFrame.current = now;
+
+    const typicalFrame = median(frameTimes.current) ?? 0;
+    if (pendingInput.current !== null) {
+      pushWindowed(latencies.current, now - pendingInput.current + typicalFrame);
+      pendingInput.current = null;
+    }
+
+    if (!textRef.current || now - lastRefresh.current < REFRESH_INTERVAL) return;
+    lastRefresh.current = now;
+
+    const frames = frameTimes.current;
+    const dropped = frames.filter(f => f > typicalFrame * 1.5).length;
+    textRef.current.textContent = [
+      `FPS       ${typicalFrame > 0 ? (1000 / typicalFrame).toFixed(0) : '—'}`,
+      `FRAME     ${typicalFrame.toFixed(2)}ms  p99 ${percentile(frames, 0.99).toFixed(2)}ms  max ${Math.max(0, ...frames).toFixed(2)}ms`,
+      `DROPPED   ${dropped}/${frames.length}`,
+      `INPUT→PHOTON ~${(median(latencies.current) ?? 0).toFixed(1)}ms  p95 ${percentile(latencies.current, 0.95).toFixed(1)}ms`,
+    ].join('\n');
+  });
+
+  return (
+    <Html position={[0, 0, 0]} fullscreen style={{ pointerEvents: 'none' }}>
+      <pre
+        ref={textRef}
+        className="absolute top-4 right-4 bg-zinc-900/80 px-3 py-2 rounded border border-zinc-700 text-xs font-mono text-lime-300 select-none"
+      />
+    </Html>
+  );
+};
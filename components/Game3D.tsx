@@ -1,272 +1,631 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { PointerLockControls, Stars, Html } from '@react-three/drei';
+import { Stars, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { ScenarioType, ShotData, TargetEntity } from '../types';
+import { AimSample, AudioSettings, DifficultySample, HitEffect, HitZone, InputDevice, InputSettings, MissEffect, MovementPattern, RespawnRule, ScenarioDefinition, ScoringMode, SessionConfig, SessionMode, SessionResult, ShotData, TargetEntity, TargetRecord, TrackingSample, Vec3, VisualSettings } from '../types';
+import { LookControls } from './LookControls';
+import { GamepadControls } from './GamepadControls';
+import { TargetMesh } from './TargetMesh';
+import { DevOverlay } from './DevOverlay';
+import { Crosshair, CrosshairFlash } from './Crosshair';
+import { EFFECT_DURATION, ImpactEffect, ImpactEffects } from './ImpactEffects';
+import { Aim, aimForward, aimPoint, evaluateShot, hitZoneAt, isHumanoid, measureHead, measureMotion, measureOffset, nearestToRay, zoneScore } from '../services/aimGeometry';
+import { DEFAULT_VERTICAL_FOV, toVerticalFov } from '../services/fovService';
+import { SoundPlayer, createSoundPlayer } from '../services/audioService';
+import { RaceShot, RaceStanding } from '../services/raceProtocol';
+import { difficultySample, recordKill, recordOutcome } from '../services/adaptiveDifficulty';
+import {
+  SIM_STEP,
+  Simulation,
+  StepResult,
+  createSimulation,
+  replaceTarget,
+  spawnDue,
+  stepSimulation,
+  targetsAt,
+} from '../services/targetSimulation';
 
 interface Game3DProps {
-  scenario: ScenarioType;
+  scenario: ScenarioDefinition;
   sensitivity: number;
-  onFinish: (score: number, shotsFired: number, shotsHit: number, missData: ShotData[]) => void;
+  seed: number; // Drives every random spawn and movement choice
+  session?: SessionConfig; // Defaults to the scenario's own timer
+  devOverlay?: boolean; // Frame time and input latency readout
+  visuals: VisualSettings;
+  audio: AudioSettings;
+  input?: InputSettings; // Defaults to the mouse
+  race?: RaceLink; // Set while racing other players through the relay
+  onFinish: (result: SessionResult) => void;
 }
 
-// -----------------------------------------------------------------------------
-// Helper: Target Component
-// -----------------------------------------------------------------------------
-interface TargetMeshProps {
-  target: TargetEntity;
-  onClick?: () => void;
+// Live race: every shot goes to the relay, standings come back
+export interface RaceLink {
+  you: string; // Own player id
+  standings: RaceStanding[];
+  onShot: (shot: RaceShot) => void;
 }
 
-const TargetMesh: React.FC<TargetMeshProps> = ({ target, onClick }) => {
-  return (
-    <mesh position={target.position} onClick={onClick}>
-      <sphereGeometry args={[target.radius, 32, 32]} />
-      <meshStandardMaterial
-        color="#00ffcc"
-        emissive="#00aa88"
-        emissiveIntensity={0.5}
-        metalness={0.8}
-        roughness={0.2}
-      />
-    </mesh>
-  );
-};
+// Longest backlog the simulation catches up on after a stall (seconds)
+const MAX_CATCH_UP = 0.25;
+
+// The session clock advances in steps this long (ms) and stands still while paused
+const CLOCK_INTERVAL = 100;
+
+// Reaction is only timed for targets that spawn after the aim has rested this long (ms)
+const STILL_BEFORE_SPAWN = 100;
+
+// How long the crosshair shows a hitmarker or miss flash (ms)
+const CROSSHAIR_FLASH_DURATION = 120;
+// Miss markers appear this far out when no target is near the shot
+const MISS_MARKER_DEPTH = 10;
+
+// Input events carry the time they happened on the performance.now() clock
+const eventTime = (e: Event) => (e.timeStamp > 0 && e.timeStamp <= performance.now() ? e.timeStamp : performance.now());
 
 // -----------------------------------------------------------------------------
 // Core Game Logic Component (Inside Canvas)
 // -----------------------------------------------------------------------------
-const GameController = ({ scenario, sensitivity, onFinish }: Game3DProps) => {
-  const { camera, raycaster } = useThree();
+const GameController = ({ scenario, sensitivity, seed, session, devOverlay, visuals, audio, input, race, onFinish }: Game3DProps) => {
+  const { camera, gl, size } = useThree();
+  // Which targets exist; positions live in simRef and are written to the meshes directly
   const [targets, setTargets] = useState<TargetEntity[]>([]);
   
   // UI State
   const [score, setScore] = useState(0);
+  const [hits, setHits] = useState(0); // Differs from score when head hits are worth more
   const [shotsFired, setShotsFired] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(30);
+  const [elapsed, setElapsed] = useState(0); // Whole seconds played
+  const [paused, setPaused] = useState(false);
+  const [effects, setEffects] = useState<ImpactEffect[]>([]);
+  const [crosshairFlash, setCrosshairFlash] = useState<CrosshairFlash | null>(null);
   
   // Refs for logic (Fixes stale closure in setInterval)
   const shotDataRef = useRef<ShotData[]>([]);
-  const targetsRef = useRef<TargetEntity[]>([]);
+  // Targets, respawns and difficulty, stepped on the performance.now() clock
+  const simRef = useRef<Simulation>(createSimulation(scenario, seed, 0));
+  const meshesRef = useRef<Map<string, THREE.Object3D>>(new Map());
+  const startTimeRef = useRef(0); // performance.now() of the first spawn
   const scoreRef = useRef(0);
+  const hitsRef = useRef(0);
   const shotsFiredRef = useRef(0);
 
-  // Initialize targets based on scenario
+  // Tracking (hold-to-fire) state
+  const firingRef = useRef(false);
+  const heldTimeRef = useRef(0);
+  const onTargetTimeRef = useRef(0);
+  const trackingSamplesRef = useRef<TrackingSample[]>([]);
+
+  // Per-target lifecycle for reaction / time-to-kill metrics
+  const targetRecordsRef = useRef<Map<string, TargetRecord>>(new Map());
+  const awaitingMoveRef = useRef<Set<string>>(new Set());
+  const lastLookTimeRef = useRef(-Infinity);
+
+  // Camera orientation every frame, for flick analysis (performance.now() ms)
+  const aimPathRef = useRef<AimSample[]>([]);
+  const aimEulerRef = useRef(new THREE.Euler(0, 0, 0, 'YXZ'));
+
+  // Session clock and pause state
+  const activeTimeRef = useRef(0); // ms played, excluding pauses
+  const pausedRef = useRef(false);
+  const finishedRef = useRef(false);
+
+  // Effects bookkeeping
+  const effectIdRef = useRef(0);
+  const flashTimerRef = useRef<number | undefined>(undefined);
+  const soundRef = useRef<SoundPlayer | null>(null);
+
+  // Adaptive difficulty
+  const difficultyCurveRef = useRef<DifficultySample[]>([]);
+  const lastKillTimeRef = useRef(0); // performance.now(); kills are timed from here or the spawn, whichever is later
+
+  const isHoldScoring = scenario.scoring === ScoringMode.HOLD;
+  const config: SessionConfig = session ?? { mode: SessionMode.TIMED, duration: scenario.duration, killTarget: 0 };
+  // A kill target needs clicks to count; hold-to-track scenarios keep their timer
+  const mode = config.mode === SessionMode.KILLS && isHoldScoring ? SessionMode.TIMED : config.mode;
+  const duration = config.mode === SessionMode.TIMED ? config.duration : scenario.duration;
+  const adaptive = config.adaptive;
+  // Races keep every player on the same clock and target sizes: no pausing the
+  // clock, no skipped backlog, no personal scale
+  const isRace = race !== undefined;
+  const targetScale = isRace ? 1 : visuals.targetScale;
+  // One device per session, so its analysis compares like with like
+  const isGamepad = input?.device === InputDevice.GAMEPAD;
+
+  // The configured FOV, resolved for this screen's aspect ratio
+  const verticalFov = toVerticalFov(visuals.fov, visuals.fovScaling, size.width / size.height);
   useEffect(() => {
-    const initialTargets: TargetEntity[] = [];
-    if (scenario === ScenarioType.GRIDSHOT) {
-      for (let i = 0; i < 3; i++) spawnTarget(initialTargets);
-    } else if (scenario === ScenarioType.TRACKING) {
-      spawnTarget(initialTargets, [0, 1.5, -10]);
-    } else {
-        // Flicking
-      spawnTarget(initialTargets);
-    }
-    setTargets(initialTargets);
-    targetsRef.current = initialTargets;
-    
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          // Use Refs to get the most up-to-date values
-          onFinish(scoreRef.current, shotsFiredRef.current, scoreRef.current, shotDataRef.current); 
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    const perspective = camera as THREE.PerspectiveCamera;
+    perspective.fov = verticalFov;
+    perspective.updateProjectionMatrix();
+  }, [camera, verticalFov]);
 
-    return () => clearInterval(timer);
+  // Sound; created before the first targets spawn so their cues play
+  useEffect(() => {
+    const sound = createSoundPlayer(audio);
+    soundRef.current = sound;
+    return () => {
+      sound.dispose();
+      soundRef.current = null;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
+  useEffect(() => soundRef.current?.setSettings(audio), [audio]);
 
-  // Sync ref with state (simplification for render loop access)
+  // Initialize targets based on scenario
   useEffect(() => {
-    targetsRef.current = targets;
-  }, [targets]);
-
-  const spawnTarget = (currentList: TargetEntity[], fixedPos?: [number, number, number]) => {
-    const id = Math.random().toString(36).substr(2, 9);
-    // Random position within a frustrating but fair frustum
-    const x = fixedPos ? fixedPos[0] : (Math.random() - 0.5) * 10;
-    const y = fixedPos ? fixedPos[1] : 1 + Math.random() * 3;
-    const z = fixedPos ? fixedPos[2] : -8 - Math.random() * 5; // Distance
+    // Reseed here so a remounted effect (StrictMode) still starts the same sequence
+    targetRecordsRef.current.clear();
+    awaitingMoveRef.current.clear();
+    lastLookTimeRef.current = -Infinity;
+    activeTimeRef.current = 0;
+    startTimeRef.current = performance.now();
+    simRef.current = createSimulation(scenario, seed, startTimeRef.current, { adaptive, targetScale });
+    difficultyCurveRef.current = adaptive ? [difficultySample(simRef.current.difficulty, 0)] : [];
+    lastKillTimeRef.current = startTimeRef.current;
+    simRef.current.targets.forEach(addTarget);
+    syncTargets();
     
-    // Tracking scenario needs velocity
-    const velocity: [number, number, number] = scenario === ScenarioType.TRACKING 
-        ? [(Math.random() > 0.5 ? 1 : -1) * (2 + Math.random() * 2), 0, 0] 
-        : [0,0,0];
-
-    const newTarget: TargetEntity = {
-      id,
-      position: [x, y, z],
-      active: true,
-      velocity,
-      radius: scenario === ScenarioType.FLICKING ? 0.3 : 0.5
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      if ((!pausedRef.current || isRace) && !finishedRef.current) activeTimeRef.current += now - last;
+      last = now;
+      setElapsed(Math.floor(activeTimeRef.current / 1000));
+      if (mode === SessionMode.TIMED && activeTimeRef.current >= duration * 1000) finish(false);
+    }, CLOCK_INTERVAL);
+
+    return () => {
+      clearInterval(timer);
+      clearTimeout(flashTimerRef.current);
     };
-    currentList.push(newTarget);
-    return newTarget;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Reports the session once, however it ended
+  const finish = (endedEarly: boolean) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    // Use Refs to get the most up-to-date values
+    onFinish({
+      score: scoreRef.current,
+      shotsFired: shotsFiredRef.current,
+      shotsHit: hitsRef.current,
+      missData: shotDataRef.current,
+      avgTimeOnTarget: isHoldScoring && heldTimeRef.current > 0
+        ? (onTargetTimeRef.current / heldTimeRef.current) * 100
+        : undefined,
+      trackingSamples: isHoldScoring ? trackingSamplesRef.current : undefined,
+      targetRecords: Array.from(targetRecordsRef.current.values()),
+      aimPath: aimPathRef.current,
+      duration: activeTimeRef.current / 1000,
+      endedEarly,
+      fov: verticalFov,
+      difficultyCurve: adaptive ? difficultyCurveRef.current : undefined
+    });
+  };
+
+  const setPausedState = (value: boolean) => {
+    pausedRef.current = value;
+    firingRef.current = false;
+    setPaused(value);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Shot feedback
+  // ---------------------------------------------------------------------------
+  const addEffect = (effect: Omit<ImpactEffect, 'id' | 'start'>) => {
+    const id = ++effectIdRef.current;
+    setEffects(prev => [...prev, { ...effect, id, start: performance.now() }]);
+    window.setTimeout(() => setEffects(prev => prev.filter(e => e.id !== id)), EFFECT_DURATION[effect.kind]);
   };
 
-  // Game Loop
-  useFrame((state, delta) => {
-    if (scenario === ScenarioType.TRACKING) {
-        setTargets(prev => prev.map(t => {
-            // Simple bounce logic
-            let newX = t.position[0] + t.velocity[0] * delta;
-            let velX = t.velocity[0];
-            
-            if (newX > 8 || newX < -8) {
-                velX *= -1;
-                newX = t.position[0] + velX * delta;
-            }
-
-            return {
-                ...t,
-                position: [newX, t.position[1], t.position[2]],
-                velocity: [velX, t.velocity[1], t.velocity[2]]
-            };
-        }));
+  const flashCrosshair = (flash: CrosshairFlash) => {
+    clearTimeout(flashTimerRef.current);
+    setCrosshairFlash(flash);
+    flashTimerRef.current = window.setTimeout(() => setCrosshairFlash(null), CROSSHAIR_FLASH_DURATION);
+  };
+
+  const showShotFeedback = (aim: Aim, hit: TargetEntity | null, aimed: TargetEntity | null) => {
+    if (hit) {
+      if (visuals.hitEffect === HitEffect.BURST) {
+        addEffect({ kind: 'burst', position: hit.position, radius: hit.radius, color: visuals.targetColor });
+      } else if (visuals.hitEffect === HitEffect.HITMARKER) {
+        flashCrosshair('hit');
+      }
+      return;
+    }
+    if (visuals.missEffect === MissEffect.MARKER) {
+      // On the crosshair ray, as deep as the target it was aimed at
+      const depth = aimed ? Math.hypot(...aimed.position) : MISS_MARKER_DEPTH;
+      const position = aimForward(aim).map((v, i) => camera.position.getComponent(i) + v * depth) as Vec3;
+      addEffect({ kind: 'marker', position, radius: depth * 0.004, color: '#ef4444' });
+    } else if (visuals.missEffect === MissEffect.FLASH) {
+      flashCrosshair('miss');
+    }
+  };
+
+  // Re-render after targets appear or disappear, with their current positions
+  const syncTargets = () => setTargets([...simRef.current.targets]);
+
+  // Bookkeeping for a target that just joined the simulation
+  const addTarget = (target: TargetEntity) => {
+    targetRecordsRef.current.set(target.id, {
+      targetId: target.id,
+      spawnTime: target.spawnTime,
+      shots: 0,
+      position: [...target.position],
+      velocity: [...target.velocity],
+      radius: target.radius
+    });
+    if (target.spawnTime - lastLookTimeRef.current >= STILL_BEFORE_SPAWN) awaitingMoveRef.current.add(target.id);
+    soundRef.current?.spawn(target.position, currentAim());
+  };
+
+  // ---------------------------------------------------------------------------
+  // Adaptive difficulty
+  // ---------------------------------------------------------------------------
+  const recordDifficultyOutcome = (success: boolean) => {
+    if (!adaptive) return;
+    const simulation = simRef.current;
+    simRef.current = { ...simulation, difficulty: recordOutcome(simulation.difficulty, simulation.elapsed, success) };
+  };
+
+  // ---------------------------------------------------------------------------
+  // Geometry helpers shared by click shots and continuous tracking
+  // ---------------------------------------------------------------------------
+  const currentAim = (): Aim => {
+    const euler = aimEulerRef.current.setFromQuaternion(camera.quaternion, 'YXZ');
+    return { yaw: euler.y, pitch: euler.x };
+  };
+  const cameraOrigin = (): Vec3 => [camera.position.x, camera.position.y, camera.position.z];
+
+  const addHit = (zone: HitZone) => {
+    const points = zoneScore(zone, scenario.hitbox);
+    scoreRef.current += points;
+    hitsRef.current += 1;
+    setScore(s => s + points);
+    setHits(h => h + 1);
+  };
+
+  // One scoring tick of the tracking scenario
+  const sampleTracking = (target: TargetEntity, zone: HitZone | null, time: number) => {
+    const aim = currentAim();
+    const offset = measureOffset(aim, cameraOrigin(), aimPoint(target, scenario.hitbox));
+    if (!offset) return;
+    const onTarget = zone !== null;
+    const firing = firingRef.current;
+
+    trackingSamplesRef.current.push({
+      time: simRef.current.elapsed,
+      firing,
+      onTarget,
+      relativeX: offset.relativeX,
+      relativeY: offset.relativeY,
+      distanceFromCenter: offset.distanceFromCenter
+    });
+
+    // Ticks while the button is held count as shots for accuracy and miss analysis
+    if (!firing) return;
+    race?.onShot({ time: time - startTimeRef.current, yaw: aim.yaw, pitch: aim.pitch, target: onTarget ? target.id : null });
+    shotsFiredRef.current += 1;
+    setShotsFired(prev => prev + 1);
+    recordDifficultyOutcome(onTarget);
+
+    if (zone) addHit(zone);
+    shotDataRef.current.push({
+      timestamp: time,
+      hit: onTarget,
+      targetId: target.id,
+      ...offset,
+      ...measureMotion(aim, target.velocity),
+      ...measureHead(aim, cameraOrigin(), target, scenario.hitbox),
+      ...(zone && isHumanoid(scenario.hitbox) ? { zone } : {})
+    });
+  };
+
+  // ---------------------------------------------------------------------------
+  // Fixed-step simulation
+  // ---------------------------------------------------------------------------
+  const isMoving = scenario.movement.pattern !== MovementPattern.STATIC;
+
+  // What the game adds to each simulated step: records, replay paths and tracking
+  const applyStep = ({ simulation, spawned, adjusted, rescaled, pathSample, trackingTick }: StepResult) => {
+    simRef.current = simulation;
+    spawned.forEach(addTarget);
+    if (adjusted) difficultyCurveRef.current.push(adjusted);
+    if (spawned.length > 0 || rescaled) syncTargets();
+
+    if (pathSample) {
+      simulation.targets.forEach(t => {
+        const record = targetRecordsRef.current.get(t.id);
+        if (!record) return;
+        const position = t.position.map(v => Math.round(v * 1000) / 1000) as Vec3;
+        (record.path ??= []).push({ time: simulation.time, position });
+      });
+    }
+
+    if (isHoldScoring) {
+      // Continuous time-on-target while the button is held, against the
+      // target closest to the crosshair
+      const aim = currentAim();
+      const { target: tracked } = nearestToRay(aim, cameraOrigin(), simulation.targets);
+      const zone = tracked ? hitZoneAt(aim, cameraOrigin(), tracked, scenario.hitbox) : null;
+      if (firingRef.current) {
+        heldTimeRef.current += SIM_STEP;
+        if (zone) onTargetTimeRef.current += SIM_STEP;
+      }
+      if (tracked && trackingTick) sampleTracking(tracked, zone, simulation.time);
+    }
+  };
+
+  // Run every whole step up to `until` (performance.now() ms)
+  const simulateTo = (until: number) => {
+    // Never replay more than a short backlog (tab switches, long frames); a race
+    // replays all of it to stay in step with the relay
+    const backlogStart = until - MAX_CATCH_UP * 1000;
+    if (!isRace && simRef.current.time < backlogStart) simRef.current = { ...simRef.current, time: backlogStart };
+    while (simRef.current.time + SIM_STEP * 1000 <= until) applyStep(stepSimulation(simRef.current));
+
+    const { simulation, spawned } = spawnDue(simRef.current, until);
+    simRef.current = simulation;
+    spawned.forEach(addTarget);
+    if (spawned.length > 0) syncTargets();
+  };
+
+  // Render loop: catch the simulation up, record the aim, move the meshes
+  useFrame(() => {
+    const now = performance.now();
+    if (finishedRef.current) return;
+    if (pausedRef.current && !isRace) {
+      // Time stands still while paused
+      simRef.current = { ...simRef.current, time: now };
+      return;
+    }
+
+    // Rounded to keep saved sessions compact (~0.0006° resolution)
+    const aim = aimEulerRef.current.setFromQuaternion(camera.quaternion, 'YXZ');
+    aimPathRef.current.push({
+      time: now,
+      yaw: Math.round(aim.y * 1e5) / 1e5,
+      pitch: Math.round(aim.x * 1e5) / 1e5
+    });
+
+    simulateTo(now);
+    if (isMoving) {
+      targetsAt(simRef.current, now).forEach(t => meshesRef.current.get(t.id)?.position.set(...t.position));
     }
   });
 
   // ---------------------------------------------------------------------------
   // The Secret Sauce: Miss Analysis Logic
   // ---------------------------------------------------------------------------
-  const handleShoot = () => {
+  // `time` is the input event's timestamp; the shot is judged against where
+  // the targets were at that instant, not at the next frame
+  const handleShoot = (time: number) => {
+    simulateTo(time);
+
     // Update Refs immediately
     shotsFiredRef.current += 1;
     // Update State for UI
     setShotsFired(prev => prev + 1);
     
-    // Raycast from center of camera
-    raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
-    
-    let hitFound = false;
-    let hitTargetId = "";
+    // Judge the shot, and attribute it to the target that was hit or the one aimed closest to
+    const aim = currentAim();
+    const { shot, hit, zone, aimed } = evaluateShot(aim, cameraOrigin(), targetsAt(simRef.current, time), time, scenario.hitbox);
+    race?.onShot({ time: time - startTimeRef.current, yaw: aim.yaw, pitch: aim.pitch, target: hit?.id ?? null });
+    shotDataRef.current.push(shot);
+    showShotFeedback(aim, hit, aimed);
+    const aimedRecord = aimed ? targetRecordsRef.current.get(aimed.id) : undefined;
+    if (aimedRecord) aimedRecord.shots += 1;
+    recordDifficultyOutcome(hit !== null);
 
-    // 1. Check for hits
-    const activeTargets = targetsRef.current;
-    
-    // Find closest target to the ray (Conceptually the one the user aimed at)
-    let closestTarget: TargetEntity | null = null;
-    let minAngularDist = Infinity;
-
-    const rayDir = new THREE.Vector3();
-    camera.getWorldDirection(rayDir);
-
-    activeTargets.forEach(target => {
-        const targetPos = new THREE.Vector3(...target.position);
-        
-        // Sphere intersection check
-        // Vector from camera to target center
-        const toTarget = targetPos.clone().sub(camera.position);
-        const projectionLength = toTarget.dot(rayDir);
-        
-        // Closest point on ray to sphere center
-        const closestPointOnRay = camera.position.clone().add(rayDir.clone().multiplyScalar(projectionLength));
-        const distToCenter = closestPointOnRay.distanceTo(targetPos);
-
-        if (distToCenter < target.radius) {
-            hitFound = true;
-            hitTargetId = target.id;
-        }
+    if (hit && zone) {
+      addHit(zone);
+      soundRef.current?.hit();
 
-        // Logic for identifying intended target for MISS calculation
-        const angle = rayDir.angleTo(toTarget.normalize());
-        if (angle < minAngularDist) {
-            minAngularDist = angle;
-            closestTarget = target;
+      // Respawn logic
+      if (scenario.respawn === RespawnRule.REPLACE_ON_KILL) {
+        if (aimedRecord) aimedRecord.killTime = time;
+        if (adaptive) {
+          const engaged = time - Math.max(hit.spawnTime, lastKillTimeRef.current);
+          const simulation = simRef.current;
+          simRef.current = { ...simulation, difficulty: recordKill(simulation.difficulty, simulation.elapsed, engaged, adaptive) };
         }
+        lastKillTimeRef.current = time;
+        soundRef.current?.kill();
+        // Delayed respawns join the simulation at their due time, not whenever
+        // a timer fires, so the race relay can replay them exactly
+        const { simulation, spawned } = replaceTarget(simRef.current, hit.id, time);
+        simRef.current = simulation;
+        spawned.forEach(addTarget);
+        syncTargets(); // Trigger re-render
+      }
+      if (mode === SessionMode.KILLS && hitsRef.current >= config.killTarget) finish(false);
+    } else {
+      soundRef.current?.miss();
+    }
+  };
+
+  // First movement after a spawn marks the player's reaction; a movement that
+  // started before the spawn (delivered late) means the aim was not still
+  const handleLook = (time: number) => {
+    lastLookTimeRef.current = Math.max(lastLookTimeRef.current, time);
+    if (awaitingMoveRef.current.size === 0) return;
+    awaitingMoveRef.current.forEach(id => {
+      const record = targetRecordsRef.current.get(id);
+      if (record && time >= record.spawnTime) record.firstMoveTime = time;
     });
+    awaitingMoveRef.current.clear();
+  };
 
-    if (hitFound) {
-      scoreRef.current += 1;
-      setScore(s => s + 1);
-      
-      shotDataRef.current.push({ timestamp: Date.now(), hit: true, targetId: hitTargetId });
-      
-      // Respawn logic
-      const newTargets = activeTargets.filter(t => t.id !== hitTargetId);
-      spawnTarget(newTargets);
-      setTargets([...newTargets]); // Trigger re-render
+  // Mouse button or trigger. Hold scoring runs in the simulation; click
+  // scoring resolves each press here
+  const pressFire = (time: number) => {
+    if (pausedRef.current || finishedRef.current) return;
+    if (isHoldScoring) {
+      simulateTo(time);
+      firingRef.current = true;
     } else {
-        // 2. Analyze the Miss
-        if (closestTarget) {
-            const targetPos = new THREE.Vector3(...(closestTarget as TargetEntity).position);
-            
-            const plane = new THREE.Plane();
-            plane.setFromNormalAndCoplanarPoint(camera.getWorldDirection(new THREE.Vector3()), targetPos);
-
-            const intersection = new THREE.Vector3();
-            raycaster.ray.intersectPlane(plane, intersection);
-
-            if (intersection) {
-                // Vector from Target Center to Impact Point
-                const diff = intersection.clone().sub(targetPos);
-                
-                const camRight = new THREE.Vector3(1, 0, 0).applyQuaternion(camera.quaternion);
-                const camUp = new THREE.Vector3(0, 1, 0).applyQuaternion(camera.quaternion);
-
-                const relativeX = diff.dot(camRight);
-                const relativeY = diff.dot(camUp);
-
-                shotDataRef.current.push({ 
-                    timestamp: Date.now(), 
-                    hit: false, 
-                    relativeX, 
-                    relativeY,
-                    distanceFromCenter: diff.length(),
-                    targetVelocityX: (closestTarget as TargetEntity).velocity[0]
-                });
-            }
-        } else {
-             shotDataRef.current.push({ timestamp: Date.now(), hit: false });
-        }
+      handleShoot(time);
     }
   };
 
+  const releaseFire = (time: number) => {
+    if (!pausedRef.current && !finishedRef.current) simulateTo(time);
+    firingRef.current = false;
+  };
+
+  // Bound once; the latest handlers are read through refs
+  const pressFireRef = useRef(pressFire);
+  pressFireRef.current = pressFire;
+  const releaseFireRef = useRef(releaseFire);
+  releaseFireRef.current = releaseFire;
+
   useEffect(() => {
-    const handleMouseDown = () => handleShoot();
+    if (isGamepad) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button === 0) pressFireRef.current(eventTime(e));
+    };
+    const handleMouseUp = (e: MouseEvent) => {
+      if (e.button === 0) releaseFireRef.current(eventTime(e));
+    };
     window.addEventListener('mousedown', handleMouseDown);
-    return () => window.removeEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Losing pointer lock (Escape, alt-tab) pauses; getting it back resumes
+  useEffect(() => {
+    const handleLockChange = () => {
+      if (finishedRef.current) return;
+      setPausedState(document.pointerLockElement !== gl.domElement);
+    };
+    // Escape only reaches the page when the pointer is already free
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !pausedRef.current && !finishedRef.current) setPausedState(true);
+    };
+    document.addEventListener('pointerlockchange', handleLockChange);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerlockchange', handleLockChange);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [targets]);
+  }, [gl]);
+
+  const clockLabel = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
   return (
     <>
-      <PointerLockControls selector="#root" />
+      {isGamepad ? (
+        <GamepadControls
+          settings={input!.gamepad}
+          enabled={!paused}
+          onMove={handleLook}
+          onFireStart={pressFire}
+          onFireEnd={releaseFire}
+          onPause={() => {
+            if (finishedRef.current) return;
+            if (document.pointerLockElement) document.exitPointerLock();
+            setPausedState(!pausedRef.current);
+          }}
+        />
+      ) : (
+        <LookControls sensitivity={sensitivity} onMove={e => handleLook(eventTime(e))} enabled={!paused} />
+      )}
       <ambientLight intensity={0.5} />
       <pointLight position={[10, 10, 10]} intensity={1} />
       
       {/* HUD (Rendered within Canvas context to access state easily) */}
       <Html position={[0,0,0]} fullscreen style={{ pointerEvents: 'none' }}>
+        <Crosshair settings={visuals.crosshair} flash={crosshairFlash} />
         <div className="absolute top-4 left-4 font-mono text-xl select-none">
             <div className="flex flex-col gap-2 text-white">
                 <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700 text-emerald-400 font-bold">
-                    TIME: {timeLeft}s
+                    {mode === SessionMode.TIMED && `TIME: ${Math.max(Math.ceil(duration - elapsed), 0)}s`}
+                    {mode === SessionMode.KILLS && `KILLS: ${hits}/${config.killTarget} · ${clockLabel(elapsed)}`}
+                    {mode === SessionMode.PRACTICE && `PRACTICE · ${clockLabel(elapsed)}`}
                 </span>
                 <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700">
                     SCORE: {score}
                 </span>
                 <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700 text-sm">
-                    ACC: {shotsFired > 0 ? ((score/shotsFired)*100).toFixed(1) : 0}%
+                    ACC: {shotsFired > 0 ? ((hits/shotsFired)*100).toFixed(1) : 0}%
                 </span>
                 <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700 text-xs text-zinc-400 mt-2">
-                    {scenario}
+                    {scenario.name}
                 </span>
+                {mode === SessionMode.PRACTICE && (
+                    <span className="text-xs text-zinc-500">{isGamepad ? 'START' : 'ESC'} to pause or end</span>
+                )}
             </div>
         </div>
+        {race && (
+          <div className="absolute top-4 right-4 font-mono text-sm select-none bg-zinc-900/80 rounded border border-zinc-700 px-3 py-2 min-w-48">
+            <p className="text-xs text-zinc-500 mb-1">RACE</p>
+            {race.standings.map((p, i) => (
+              <div key={p.id} className={`flex justify-between gap-4 ${p.id === race.you ? 'text-emerald-400 font-bold' : p.left ? 'text-zinc-600' : 'text-white'}`}>
+                <span>{i + 1}. {p.name}{p.finished && !p.left && ' ✓'}</span>
+                <span>{p.score}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </Html>
 
+      {/* Pause menu */}
+      {paused && (
+        <Html position={[0,0,0]} fullscreen>
+          <div className="absolute inset-0 bg-black/70 flex items-center justify-center">
+            <div className="bg-zinc-900 border border-zinc-700 rounded-xl p-8 w-80 text-center text-white shadow-2xl">
+              <h2 className="text-3xl font-bold mb-2">Paused</h2>
+              {isRace && <p className="text-orange-400 text-xs font-mono mb-2">The race clock keeps running</p>}
+              <p className="text-zinc-400 text-sm font-mono mb-6">
+                {clockLabel(elapsed)} played · {hits} hits · {shotsFired > 0 ? ((hits/shotsFired)*100).toFixed(1) : 0}%
+              </p>
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={() => gl.domElement.requestPointerLock()}
+                  className="px-6 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={() => finish(true)}
+                  className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+                >
+                  {isRace ? 'Leave Race' : 'End Session'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </Html>
+      )}
+
       {/* Grid Floor */}
       <gridHelper args={[100, 100, 0x444444, 0x222222]} position={[0, -2, 0]} />
       
       {/* Targets */}
       {targets.map(t => (
-        <TargetMesh key={t.id} target={t} />
+        <TargetMesh
+          key={t.id}
+          target={t}
+          color={visuals.targetColor}
+          hitbox={scenario.hitbox}
+          meshRef={mesh => {
+            if (mesh) meshesRef.current.set(t.id, mesh);
+            else meshesRef.current.delete(t.id);
+          }}
+        />
       ))}
+
+      <ImpactEffects effects={effects} />
+
+      {devOverlay && <DevOverlay />}
     </>
   );
 };
@@ -277,12 +636,9 @@ const GameController = ({ scenario, sensitivity, onFinish }: Game3DProps) => {
 export const Game3D: React.FC<Game3DProps> = (props) => {
   return (
     <div className="w-full h-full relative bg-black">
-      {/* Crosshair */}
-      <div className="crosshair"></div>
-
-      {/* Canvas */}
+      {/* Canvas (the crosshair is drawn with the HUD) */}
       <Canvas
-        camera={{ fov: 75, position: [0, 0, 0] }}
+        camera={{ fov: DEFAULT_VERTICAL_FOV, position: [0, 0, 0] }}
         gl={{ toneMapping: THREE.ACESFilmicToneMapping }}
       >
          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
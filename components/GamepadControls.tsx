@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { GamepadSettings } from '../types';
+import { aimVelocity, readGamepad, shapeStick, stepRamp } from '../services/gamepadService';
+import { PITCH_LIMIT } from './LookControls';
+
+interface GamepadControlsProps {
+  settings: GamepadSettings;
+  enabled?: boolean;                   // When false, the stick and trigger do nothing (e.g. under a menu)
+  onMove?: (time: number) => void;     // Called on every frame the stick turns the view
+  onFireStart?: (time: number) => void;
+  onFireEnd?: (time: number) => void;
+  onPause?: () => void;                // Start button
+}
+
+// A stalled frame turns the view at most this long (seconds)
+const MAX_FRAME_DELTA = 0.1;
+
+// -----------------------------------------------------------------------------
+// Right-stick look and trigger fire, polled once per frame
+// -----------------------------------------------------------------------------
+export const GamepadControls: React.FC<GamepadControlsProps> = ({ settings, enabled = true, onMove, onFireStart, onFireEnd, onPause }) => {
+  const { camera } = useThree();
+  const euler = useRef(new THREE.Euler(0, 0, 0, 'YXZ'));
+  const heldTimeRef = useRef(0); // Seconds at the edge, for the acceleration ramp
+  const firingRef = useRef(false);
+  const startRef = useRef(false);
+
+  // Latest callbacks without re-subscribing
+  const handlersRef = useRef({ onMove, onFireStart, onFireEnd, onPause });
+  handlersRef.current = { onMove, onFireStart, onFireEnd, onPause };
+
+  // Let go of the trigger when the controls are switched off mid-press
+  useEffect(() => {
+    if (enabled || !firingRef.current) return;
+    firingRef.current = false;
+    handlersRef.current.onFireEnd?.(performance.now());
+  }, [enabled]);
+
+  useFrame((_, delta) => {
+    const pad = readGamepad();
+    const now = performance.now();
+    const { onMove, onFireStart, onFireEnd, onPause } = handlersRef.current;
+
+    const start = pad?.start ?? false;
+    if (start && !startRef.current) onPause?.();
+    startRef.current = start;
+    if (!enabled) return;
+
+    // Fire on the trigger's crossing; a disconnect releases it
+    const firing = pad !== null && pad.trigger >= settings.triggerThreshold;
+    if (firing && !firingRef.current) onFireStart?.(now);
+    if (!firing && firingRef.current) onFireEnd?.(now);
+    firingRef.current = firing;
+
+    if (!pad) {
+      heldTimeRef.current = 0;
+      return;
+    }
+    const dt = Math.min(delta, MAX_FRAME_DELTA);
+    const shaped = shapeStick(pad.stick, settings);
+    heldTimeRef.current = stepRamp(heldTimeRef.current, shaped, dt);
+    if (shaped[0] === 0 && shaped[1] === 0) return;
+
+    const velocity = aimVelocity(shaped, heldTimeRef.current, settings);
+    euler.current.setFromQuaternion(camera.quaternion, 'YXZ');
+    euler.current.y += velocity.yaw * dt;
+    euler.current.x = Math.max(-PITCH_LIMIT, Math.min(PITCH_LIMIT, euler.current.x + velocity.pitch * dt));
+    camera.quaternion.setFromEuler(euler.current);
+    onMove?.(now);
+  });
+
+  return null;
+};
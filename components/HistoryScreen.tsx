@@ -0,0 +1,238 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Profile, ScenarioType, SessionStats } from '../types';
+import { getScenarios } from '../services/scenarioRegistry';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend, ReferenceLine } from 'recharts';
+import { clearHistory, loadHistory, withSessionDetail } from '../services/historyService';
+import { exportSessionFile, exportSessionsCsv, parseSessionFile } from '../services/sessionExport';
+
+interface HistoryScreenProps {
+  profile: Profile;
+  onMenu: () => void;
+  onOpenSession: (stats: SessionStats) => void; // Show an imported session's analysis
+}
+
+const tooltipStyle = { backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff' };
+
+// Signed miss bias in percent: positive = right/up, negative = left/down
+const missBias = (session: SessionStats) => {
+  const misses = session.missData.filter(s => !s.hit);
+  if (misses.length === 0) return { horizontal: 0, vertical: 0 };
+  const right = misses.filter(m => (m.relativeX || 0) > 0).length;
+  const left = misses.filter(m => (m.relativeX || 0) < 0).length;
+  const top = misses.filter(m => (m.relativeY || 0) > 0).length;
+  const bottom = misses.filter(m => (m.relativeY || 0) < 0).length;
+  return {
+    horizontal: ((right - left) / misses.length) * 100,
+    vertical: ((top - bottom) / misses.length) * 100,
+  };
+};
+
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ profile, onMenu, onOpenSession }) => {
+  const [sessions, setSessions] = useState<SessionStats[]>(() => loadHistory(profile.id));
+  const [scenario, setScenario] = useState<string>(ScenarioType.GRIDSHOT);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  // Registered scenarios plus any that only exist in saved sessions
+  const tabs = useMemo(() => {
+    const labels = new Map<string, string>(getScenarios().map(def => [def.id, def.name]));
+    sessions.forEach(s => {
+      if (!labels.has(s.scenario)) labels.set(s.scenario, s.scenarioName);
+    });
+    return Array.from(labels, ([id, name]) => ({ id, name }));
+  }, [sessions]);
+
+  const scenarioSessions = useMemo(() => sessions.filter(s => s.scenario === scenario), [sessions, scenario]);
+
+  const chartData = useMemo(() => scenarioSessions
+    .map((s, idx) => {
+      const bias = missBias(s);
+      return {
+        session: idx + 1,
+        stats: s,
+        date: new Date(s.timestamp).toLocaleDateString(),
+        accuracy: Number(s.accuracy.toFixed(1)),
+        score: s.score,
+        sensitivity: s.sensitivity,
+        seed: s.seed,
+        horizontalBias: Number(bias.horizontal.toFixed(1)),
+        verticalBias: Number(bias.vertical.toFixed(1)),
+      };
+    }), [scenarioSessions]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseSessionFile(await file.text());
+    if ('errors' in result) {
+      setImportErrors([`${file.name}:`, ...result.errors]);
+      return;
+    }
+    setImportErrors([]);
+    onOpenSession(result.session);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(`Delete all of ${profile.name}'s saved sessions?`)) return;
+    clearHistory(profile.id);
+    setSessions([]);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto">
+      <div className="max-w-6xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-emerald-400 to-cyan-500">
+          Training History
+        </h2>
+        <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">{profile.name}</p>
+
+        {/* Scenario Tabs */}
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setScenario(tab.id)}
+              className={`px-4 py-2 rounded-lg font-bold text-sm border transition-all ${
+                scenario === tab.id
+                  ? 'bg-emerald-400 text-black border-emerald-400'
+                  : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+              }`}
+            >
+              {tab.name} ({sessions.filter(s => s.scenario === tab.id).length})
+            </button>
+          ))}
+        </div>
+
+        {chartData.length === 0 ? (
+          <p className="text-center text-zinc-500 mb-8">No sessions recorded for this scenario yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+              <h3 className="text-lg font-semibold mb-2 text-zinc-300">Accuracy & Sensitivity</h3>
+              <div className="w-full h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                    <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                    <XAxis dataKey="session" stroke="#71717a" fontSize={12} />
+                    <YAxis yAxisId="acc" domain={[0, 100]} stroke="#71717a" fontSize={12} unit="%" />
+                    <YAxis yAxisId="sens" orientation="right" stroke="#71717a" fontSize={12} />
+                    <Tooltip contentStyle={tooltipStyle} labelFormatter={(label: any) => `Session ${label}`} />
+                    <Legend />
+                    <Line yAxisId="acc" type="monotone" dataKey="accuracy" name="Accuracy" stroke="#34d399" strokeWidth={2} isAnimationActive={false} />
+                    <Line yAxisId="sens" type="stepAfter" dataKey="sensitivity" name="Sensitivity" stroke="#a78bfa" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+              <h3 className="text-lg font-semibold mb-2 text-zinc-300">Score</h3>
+              <div className="w-full h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                    <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                    <XAxis dataKey="session" stroke="#71717a" fontSize={12} />
+                    <YAxis stroke="#71717a" fontSize={12} />
+                    <Tooltip contentStyle={tooltipStyle} labelFormatter={(label: any) => `Session ${label}`} />
+                    <Line type="monotone" dataKey="score" name="Score" stroke="#22d3ee" strokeWidth={2} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 lg:col-span-2">
+              <h3 className="text-lg font-semibold mb-2 text-zinc-300">Miss Bias</h3>
+              <p className="text-xs text-zinc-500 mb-2">Positive = misses to the right / above the target. Zero is balanced.</p>
+              <div className="w-full h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                    <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                    <XAxis dataKey="session" stroke="#71717a" fontSize={12} />
+                    <YAxis domain={[-100, 100]} stroke="#71717a" fontSize={12} unit="%" />
+                    <Tooltip contentStyle={tooltipStyle} labelFormatter={(label: any) => `Session ${label}`} />
+                    <Legend />
+                    <ReferenceLine y={0} stroke="#3f3f46" />
+                    <Line type="monotone" dataKey="horizontalBias" name="Horizontal" stroke="#f97316" strokeWidth={2} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="verticalBias" name="Vertical" stroke="#60a5fa" strokeWidth={2} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Session List */}
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 lg:col-span-2 max-h-64 overflow-auto">
+              <table className="w-full text-sm font-mono">
+                <thead className="text-zinc-500 text-xs text-left">
+                  <tr>
+                    <th className="pb-2">#</th>
+                    <th className="pb-2">DATE</th>
+                    <th className="pb-2">SCORE</th>
+                    <th className="pb-2">ACCURACY</th>
+                    <th className="pb-2">SENS</th>
+                    <th className="pb-2">SEED</th>
+                    <th className="pb-2 text-right">
+                      <button
+                        onClick={() => exportSessionsCsv(scenarioSessions)}
+                        title="Every shot of every session in this scenario, one row each"
+                        className="text-emerald-400 hover:text-emerald-300"
+                      >
+                        ALL AS CSV
+                      </button>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-300">
+                  {[...chartData].reverse().map(row => (
+                    <tr key={row.session} className="border-t border-zinc-800">
+                      <td className="py-1">{row.session}</td>
+                      <td className="py-1">{row.date}</td>
+                      <td className="py-1 text-emerald-400">{row.score}</td>
+                      <td className="py-1">{row.accuracy}%</td>
+                      <td className="py-1">{row.sensitivity.toFixed(2)}</td>
+                      <td className="py-1 text-zinc-500">{row.seed ?? '—'}</td>
+                      <td className="py-1 text-right space-x-3 text-xs">
+                        <button onClick={() => exportSessionFile(withSessionDetail([row.stats])[0])} className="text-zinc-400 hover:text-white">JSON</button>
+                        <button onClick={() => exportSessionsCsv([row.stats])} className="text-zinc-400 hover:text-white">CSV</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Main Menu
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={sessions.length === 0}
+            className="px-6 py-3 rounded-lg font-bold text-red-400 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700 disabled:opacity-40"
+          >
+            Clear History
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            title="Open an exported session file and show its analysis"
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Import Session
+          </button>
+        </div>
+        <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        {importErrors.length > 0 && (
+          <div className="mt-4 text-xs text-left text-red-400 bg-red-950/40 border border-red-900 rounded p-2 space-y-1">
+            {importErrors.map((err, i) => <p key={i}>{err}</p>)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
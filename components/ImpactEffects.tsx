@@ -0,0 +1,42 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vec3 } from '../types';
+
+export interface ImpactEffect {
+  id: number;
+  kind: 'burst' | 'marker';
+  position: Vec3;
+  radius: number;
+  color: string;
+  start: number; // performance.now()
+}
+
+// How long each effect stays on screen (ms)
+export const EFFECT_DURATION: Record<ImpactEffect['kind'], number> = { burst: 250, marker: 600 };
+
+const EffectMesh: React.FC<{ effect: ImpactEffect }> = ({ effect }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  // Bursts grow and fade; markers only fade
+  useFrame(() => {
+    const progress = Math.min((performance.now() - effect.start) / EFFECT_DURATION[effect.kind], 1);
+    if (effect.kind === 'burst') meshRef.current?.scale.setScalar(1 + progress);
+    if (materialRef.current) materialRef.current.opacity = (1 - progress) * (effect.kind === 'burst' ? 0.6 : 0.9);
+  });
+
+  return (
+    <mesh ref={meshRef} position={effect.position}>
+      <sphereGeometry args={[effect.radius, 16, 16]} />
+      <meshBasicMaterial ref={materialRef} color={effect.color} transparent depthWrite={false} />
+    </mesh>
+  );
+};
+
+// Shot feedback inside the Canvas
+export const ImpactEffects: React.FC<{ effects: ImpactEffect[] }> = ({ effects }) => (
+  <>
+    {effects.map(effect => <EffectMesh key={effect.id} effect={effect} />)}
+  </>
+);
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Profile, SessionStats } from '../types';
+import { getScenarios } from '../services/scenarioRegistry';
+import { loadAllHistory } from '../services/historyService';
+import {
+  LEADERBOARD_METRICS,
+  LeaderboardMetric,
+  buildLeaderboard,
+  leaderboardSeeds,
+} from '../services/leaderboardService';
+
+interface LeaderboardScreenProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  scenario?: string; // Opens on this scenario and seed
+  seed?: number;
+  onOpenSession: (stats: SessionStats) => void;
+  onMenu: () => void;
+}
+
+const RANK_COLORS = ['text-amber-300', 'text-zinc-300', 'text-orange-400'];
+
+export const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({
+  profiles,
+  activeProfileId,
+  scenario: initialScenario,
+  seed: initialSeed,
+  onOpenSession,
+  onMenu,
+}) => {
+  const sessions = useMemo(() => loadAllHistory(), []);
+  const [scenario, setScenario] = useState<string>(initialScenario ?? getScenarios()[0].id);
+  const [selectedSeed, setSelectedSeed] = useState<number | undefined>(initialSeed);
+  const [metric, setMetric] = useState<LeaderboardMetric>('score');
+
+  // Registered scenarios plus any that only exist in saved sessions
+  const tabs = useMemo(() => {
+    const labels = new Map<string, string>(getScenarios().map(def => [def.id, def.name]));
+    sessions.forEach(s => {
+      if (!labels.has(s.scenario)) labels.set(s.scenario, s.scenarioName);
+    });
+    return Array.from(labels, ([id, name]) => ({ id, name }));
+  }, [sessions]);
+
+  const seeds = useMemo(() => leaderboardSeeds(sessions, scenario), [sessions, scenario]);
+  // Fall back to the most contested seed when the selection has no runs here
+  const seed = seeds.some(s => s.seed === selectedSeed) ? selectedSeed! : seeds[0]?.seed;
+  const entries = useMemo(
+    () => (seed === undefined ? [] : buildLeaderboard(sessions, profiles, scenario, seed, metric)),
+    [sessions, profiles, scenario, seed, metric]
+  );
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto">
+      <div className="max-w-6xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-amber-300 to-orange-500">
+          Leaderboard
+        </h2>
+        <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">
+          Every profile on this machine · full timed runs only · one entry per profile and seed
+        </p>
+
+        {/* Scenario Tabs */}
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setScenario(tab.id)}
+              className={`px-4 py-2 rounded-lg font-bold text-sm border transition-all ${
+                scenario === tab.id
+                  ? 'bg-amber-400 text-black border-amber-400'
+                  : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </div>
+
+        {seeds.length === 0 ? (
+          <p className="text-center text-zinc-500 mb-8">No ranked runs for this scenario yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 mb-8">
+            {/* Seeds */}
+            <div className="lg:col-span-3 bg-zinc-950 p-4 rounded-lg border border-zinc-800 flex flex-col gap-2 max-h-[28rem] overflow-auto">
+              <h3 className="text-sm font-semibold text-zinc-300">Seeds</h3>
+              {seeds.map(s => (
+                <button
+                  key={s.seed}
+                  onClick={() => setSelectedSeed(s.seed)}
+                  className={`text-left px-3 py-2 rounded border text-xs font-mono transition-all ${
+                    seed === s.seed ? 'bg-amber-500/20 border-amber-400 text-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:bg-zinc-800'
+                  }`}
+                >
+                  <span className="block font-bold">{s.seed}</span>
+                  <span className="text-zinc-500">
+                    {s.players} {s.players === 1 ? 'player' : 'players'} · {s.runs} {s.runs === 1 ? 'run' : 'runs'}
+                  </span>
+                  {s.dailyChallenge && <span className="block text-amber-400">Daily {s.dailyChallenge}</span>}
+                </button>
+              ))}
+            </div>
+
+            {/* Rankings */}
+            <div className="lg:col-span-9 bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <span className="text-xs text-zinc-500">Rank by:</span>
+                {LEADERBOARD_METRICS.map(m => (
+                  <button
+                    key={m.key}
+                    onClick={() => setMetric(m.key)}
+                    className={`px-3 py-1 rounded border text-xs font-bold transition-all ${
+                      metric === m.key ? 'bg-amber-400 text-black border-amber-400' : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                    }`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="text-center text-zinc-500 text-sm py-8">No runs on this seed have kills to time.</p>
+              ) : (
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="text-zinc-500 text-xs text-left">
+                      <th className="py-2 px-2">#</th>
+                      <th className="py-2 px-2">Player</th>
+                      <th className="py-2 px-2 text-right">Score</th>
+                      <th className="py-2 px-2 text-right">Accuracy</th>
+                      <th className="py-2 px-2 text-right">Time to Kill</th>
+                      <th className="py-2 px-2 text-right">Runs</th>
+                      <th className="py-2 px-2 text-right">Date</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => (
+                      <tr
+                        key={entry.profile.id}
+                        onClick={() => onOpenSession(entry.session)}
+                        title="Open this run's analysis"
+                        className={`border-t border-zinc-800 cursor-pointer hover:bg-zinc-900 ${
+                          entry.profile.id === activeProfileId ? 'bg-amber-500/10' : ''
+                        }`}
+                      >
+                        <td className={`py-2 px-2 font-bold ${RANK_COLORS[entry.rank - 1] ?? 'text-zinc-500'}`}>{entry.rank}</td>
+                        <td className="py-2 px-2 text-white">{entry.profile.name}</td>
+                        <td className={`py-2 px-2 text-right ${metric === 'score' ? 'text-white font-bold' : 'text-zinc-400'}`}>{entry.score}</td>
+                        <td className={`py-2 px-2 text-right ${metric === 'accuracy' ? 'text-white font-bold' : 'text-zinc-400'}`}>{entry.accuracy.toFixed(1)}%</td>
+                        <td className={`py-2 px-2 text-right ${metric === 'timeToKill' ? 'text-white font-bold' : 'text-zinc-400'}`}>
+                          {entry.timeToKill !== null ? `${Math.round(entry.timeToKill)}ms` : '—'}
+                        </td>
+                        <td className="py-2 px-2 text-right text-zinc-500">{entry.runs}</td>
+                        <td className="py-2 px-2 text-right text-zinc-500">{new Date(entry.session.timestamp).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-center">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Main Menu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { radiansPerCount } from '../services/sensitivityService';
+
+interface LookControlsProps {
+  sensitivity: number;
+  selector?: string; // Element that requests pointer lock when clicked
+  onMove?: (e: MouseEvent) => void; // Called for every locked mouse movement
+  enabled?: boolean; // When false, clicks no longer grab the pointer (e.g. under a menu)
+}
+
+export const PITCH_LIMIT = Math.PI / 2 - 0.001;
+
+// -----------------------------------------------------------------------------
+// Pointer-lock mouse look that applies the trainer sensitivity to raw counts
+// -----------------------------------------------------------------------------
+export const LookControls: React.FC<LookControlsProps> = ({ sensitivity, selector = '#root', onMove, enabled = true }) => {
+  const { camera, gl } = useThree();
+
+  // Ref so slider changes apply without re-binding listeners
+  const sensitivityRef = useRef(sensitivity);
+  useEffect(() => {
+    sensitivityRef.current = sensitivity;
+  }, [sensitivity]);
+
+  const onMoveRef = useRef(onMove);
+  useEffect(() => {
+    onMoveRef.current = onMove;
+  }, [onMove]);
+
+  const enabledRef = useRef(enabled);
+  useEffect(() => {
+    enabledRef.current = enabled;
+  }, [enabled]);
+
+  useEffect(() => {
+    const lockElement = gl.domElement;
+    const triggers = Array.from(document.querySelectorAll(selector));
+    const euler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+    const handleClick = () => {
+      if (enabledRef.current && document.pointerLockElement !== lockElement) lockElement.requestPointerLock();
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (document.pointerLockElement !== lockElement) return;
+      const step = radiansPerCount(sensitivityRef.current);
+
+      euler.setFromQuaternion(camera.quaternion);
+      euler.y -= e.movementX * step;
+      euler.x -= e.movementY * step;
+      euler.x = Math.max(-PITCH_LIMIT, Math.min(PITCH_LIMIT, euler.x));
+      camera.quaternion.setFromEuler(euler);
+      onMoveRef.current?.(e);
+    };
+
+    triggers.forEach(el => el.addEventListener('click', handleClick));
+    document.addEventListener('mousemove', handleMouseMove);
+    return () => {
+      triggers.forEach(el => el.removeEventListener('click', handleClick));
+      document.removeEventListener('mousemove', handleMouseMove);
+    };
+  }, [camera, gl, selector]);
+
+  return null;
+};
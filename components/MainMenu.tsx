@@ -0,0 +1,454 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AdaptiveConfig, Playlist, Profile, ScenarioDefinition, SeedMode, SessionMode, TargetGame } from '../types';
+import {
+  GAME_PROFILES,
+  cmPer360,
+  clampSensitivity,
+  gameToTrainerSensitivity,
+  trainerToGameSensitivity,
+} from '../services/sensitivityService';
+import { getScenarios } from '../services/scenarioRegistry';
+import { dailyChallengeDate } from '../services/random';
+import { SessionReplay, decodeReplay } from '../services/replayService';
+import { loadHistory } from '../services/historyService';
+import { personalBests } from '../services/leaderboardService';
+import { DEFAULT_ADAPTIVE } from '../services/adaptiveDifficulty';
+import { loadProgramProgress, missingScenarios, playlistDuration, routineToday } from '../services/trainingService';
+import { ProfileSwitcher } from './ProfileSwitcher';
+
+interface MainMenuProps {
+  profiles: Profile[];
+  profile: Profile; // Active
+  onProfileSelect: (id: string) => void;
+  onProfileCreate: (name: string) => void;
+  onProfileRename: (name: string) => void;
+  onProfileDelete: () => void;
+  sensitivity: number;
+  dpi: number;
+  targetGame: TargetGame;
+  onSensitivityChange: (value: number) => void;
+  onDpiChange: (value: number) => void;
+  onTargetGameChange: (game: TargetGame) => void;
+  seedMode: SeedMode;
+  customSeed: number;
+  onSeedModeChange: (mode: SeedMode) => void;
+  onCustomSeedChange: (seed: number) => void;
+  onStart: (definition: ScenarioDefinition) => void;
+  onHistory: () => void;
+  onEditor: () => void;
+  onCalibrate: () => void;
+  onSettings: () => void;
+  onTraining: () => void;
+  onStartPlaylist: (playlist: Playlist, programDay?: number) => void;
+  onLeaderboard: () => void;
+  onRace: () => void;
+  onLoadReplay: (replay: SessionReplay) => void;
+  sessionMode: SessionMode;
+  sessionDuration: number; // Seconds; 0 = each scenario's own duration
+  killTarget: number;
+  onSessionModeChange: (mode: SessionMode) => void;
+  onSessionDurationChange: (seconds: number) => void;
+  onKillTargetChange: (kills: number) => void;
+  adaptive?: AdaptiveConfig; // Missing for fixed difficulty
+  onAdaptiveChange: (config?: AdaptiveConfig) => void;
+  devOverlay: boolean;
+  onDevOverlayChange: (enabled: boolean) => void;
+}
+
+const DURATION_OPTIONS = [0, 15, 30, 60, 90, 120];
+const KILL_TARGET_OPTIONS = [10, 25, 50, 100];
+const SUCCESS_RATE_OPTIONS = [60, 65, 70, 75, 80, 85, 90];
+
+export const MainMenu: React.FC<MainMenuProps> = ({
+  profiles,
+  profile: activeProfile,
+  onProfileSelect,
+  onProfileCreate,
+  onProfileRename,
+  onProfileDelete,
+  sensitivity,
+  dpi,
+  targetGame,
+  onSensitivityChange,
+  onDpiChange,
+  onTargetGameChange,
+  seedMode,
+  customSeed,
+  onSeedModeChange,
+  onCustomSeedChange,
+  onStart,
+  onHistory,
+  onEditor,
+  onCalibrate,
+  onSettings,
+  onTraining,
+  onStartPlaylist,
+  onLeaderboard,
+  onRace,
+  onLoadReplay,
+  sessionMode,
+  sessionDuration,
+  killTarget,
+  onSessionModeChange,
+  onSessionDurationChange,
+  onKillTargetChange,
+  adaptive,
+  onAdaptiveChange,
+  devOverlay,
+  onDevOverlayChange,
+}) => {
+  const profile = GAME_PROFILES[targetGame];
+  const gameSensitivity = trainerToGameSensitivity(sensitivity, targetGame);
+  // Same degrees-per-count in both, so one figure covers trainer and game
+  const cm360 = cmPer360(profile.yaw, gameSensitivity, dpi);
+  // In-game sensitivity as typed, so "0." survives on the way to "0.35"; null when not editing
+  const [gameSensitivityText, setGameSensitivityText] = useState<string | null>(null);
+
+  // Best ranked score per scenario for the active profile
+  const bests = useMemo(() => personalBests(loadHistory(activeProfile.id)), [activeProfile.id]);
+  // Today's day of the active profile's program, if enrolled
+  const routine = useMemo(() => {
+    const progress = loadProgramProgress(activeProfile.id);
+    return progress ? routineToday(progress) : null;
+  }, [activeProfile.id]);
+
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [replayErrors, setReplayErrors] = useState<string[]>([]);
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = decodeReplay(await file.text());
+    if ('errors' in result) {
+      setReplayErrors([`${file.name}:`, ...result.errors]);
+      return;
+    }
+    setReplayErrors([]);
+    onLoadReplay(result.replay);
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center h-screen bg-zinc-950 text-white p-4">
+      <div className="max-w-2xl w-full text-center space-y-8">
+        <h1 className="text-6xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-br from-emerald-400 to-cyan-600 mb-2">
+          PRECISION AIM LAB
+        </h1>
+        <p className="text-zinc-400 text-lg">
+          Train your aim in 3D. Analyze your misses. Optimize your DPI.
+        </p>
+
+        <ProfileSwitcher
+          profiles={profiles}
+          active={activeProfile}
+          onSelect={onProfileSelect}
+          onCreate={onProfileCreate}
+          onRename={onProfileRename}
+          onDelete={onProfileDelete}
+        />
+
+        <div className="bg-zinc-900 p-8 rounded-xl border border-zinc-800 shadow-2xl">
+          <div className="mb-8">
+            <label className="block text-left text-sm font-bold text-zinc-300 mb-2">
+              SENSITIVITY (Global Multiplier)
+            </label>
+            <div className="flex items-center gap-4">
+              <input
+                type="range"
+                min="0.01"
+                max="5.0"
+                step="0.01"
+                value={sensitivity}
+                onChange={(e) => onSensitivityChange(parseFloat(e.target.value))}
+                className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+              />
+              <span className="font-mono bg-zinc-800 px-3 py-1 rounded text-emerald-400 w-16">
+                {sensitivity.toFixed(sensitivity < 0.1 ? 3 : 2)}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mt-4 text-left">
+              <div>
+                <label className="block text-xs font-bold text-zinc-400 mb-1">DPI</label>
+                <input
+                  type="number"
+                  min="100"
+                  step="50"
+                  value={dpi}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value > 0) onDpiChange(value);
+                  }}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 font-mono text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-400 mb-1">GAME</label>
+                <select
+                  value={targetGame}
+                  onChange={(e) => onTargetGameChange(e.target.value as TargetGame)}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white"
+                >
+                  {Object.values(GAME_PROFILES).map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-400 mb-1">IN-GAME SENS</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={gameSensitivityText ?? String(Number(gameSensitivity.toFixed(3)))}
+                  onChange={(e) => {
+                    setGameSensitivityText(e.target.value);
+                    const value = Number(e.target.value);
+                    if (e.target.value.trim() !== '' && Number.isFinite(value) && value > 0) {
+                      onSensitivityChange(clampSensitivity(gameToTrainerSensitivity(value, targetGame)));
+                    }
+                  }}
+                  onBlur={() => setGameSensitivityText(null)}
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 font-mono text-white"
+                />
+              </div>
+            </div>
+
+            <p className="text-left text-xs text-zinc-500 mt-3">
+              <span className="font-mono text-emerald-400">{cm360.toFixed(1)} cm/360</span>
+              {' '}at {dpi} DPI. Matches {profile.label} sensitivity {gameSensitivity.toFixed(3)}.
+            </p>
+          </div>
+
+          <div className="mb-8 text-left">
+            <label className="block text-sm font-bold text-zinc-300 mb-2">SESSION</label>
+            <div className="flex items-center gap-2">
+              {[
+                { mode: SessionMode.TIMED, label: 'Timed' },
+                { mode: SessionMode.KILLS, label: 'Kill Count' },
+                { mode: SessionMode.PRACTICE, label: 'Practice (untimed)' },
+              ].map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => onSessionModeChange(option.mode)}
+                  className={`px-3 py-1 rounded text-xs font-bold border transition-all ${
+                    sessionMode === option.mode
+                      ? 'bg-emerald-400 text-black border-emerald-400'
+                      : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+              {sessionMode === SessionMode.TIMED && (
+                <select
+                  value={sessionDuration}
+                  onChange={(e) => onSessionDurationChange(parseInt(e.target.value, 10))}
+                  className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white text-sm"
+                >
+                  {DURATION_OPTIONS.map(seconds => (
+                    <option key={seconds} value={seconds}>{seconds === 0 ? 'Scenario default' : `${seconds}s`}</option>
+                  ))}
+                </select>
+              )}
+              {sessionMode === SessionMode.KILLS && (
+                <select
+                  value={killTarget}
+                  onChange={(e) => onKillTargetChange(parseInt(e.target.value, 10))}
+                  className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white text-sm"
+                >
+                  {KILL_TARGET_OPTIONS.map(kills => (
+                    <option key={kills} value={kills}>{kills} kills</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <p className="text-xs text-zinc-500 mt-2">
+              {sessionMode === SessionMode.KILLS && 'Hold-to-track scenarios have no kills and keep their timer. '}
+              Press ESC during a run to pause, resume or end it early.
+            </p>
+            <div className="flex items-center gap-2 text-xs text-zinc-400 mt-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={adaptive !== undefined}
+                  onChange={(e) => onAdaptiveChange(e.target.checked ? DEFAULT_ADAPTIVE : undefined)}
+                  className="accent-emerald-500"
+                />
+                Adaptive difficulty
+              </label>
+              {adaptive && (
+                <select
+                  value={adaptive.successRate}
+                  onChange={(e) => onAdaptiveChange({ ...adaptive, successRate: parseInt(e.target.value, 10) })}
+                  className="bg-zinc-800 border border-zinc-700 rounded px-2 py-0.5 text-white text-xs"
+                >
+                  {SUCCESS_RATE_OPTIONS.map(rate => (
+                    <option key={rate} value={rate}>{rate}% success</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {adaptive && (
+              <p className="text-xs text-zinc-500 mt-1">
+                Target size, speed and spread follow your rolling hit rate. Adaptive runs are not ranked.
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-xs text-zinc-400 mt-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={devOverlay}
+                onChange={(e) => onDevOverlayChange(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Dev overlay (frame time, input-to-photon estimate)
+            </label>
+          </div>
+
+          <div className="mb-8 text-left">
+            <label className="block text-sm font-bold text-zinc-300 mb-2">TARGET SEQUENCE</label>
+            <div className="flex items-center gap-2">
+              {[
+                { mode: SeedMode.RANDOM, label: 'Random' },
+                { mode: SeedMode.DAILY, label: `Daily Challenge (${dailyChallengeDate()})` },
+                { mode: SeedMode.CUSTOM, label: 'Seed' },
+              ].map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => onSeedModeChange(option.mode)}
+                  className={`px-3 py-1 rounded text-xs font-bold border transition-all ${
+                    seedMode === option.mode
+                      ? 'bg-emerald-400 text-black border-emerald-400'
+                      : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+              {seedMode === SeedMode.CUSTOM && (
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={customSeed}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= 0) onCustomSeedChange(value >>> 0);
+                  }}
+                  className="w-32 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 font-mono text-white text-sm"
+                />
+              )}
+            </div>
+          </div>
+
+          {routine && (
+            <div className="mb-4 p-4 text-left bg-zinc-950 border border-violet-500/40 rounded-lg flex items-center justify-between gap-4">
+              <div>
+                <p className="text-xs font-bold text-violet-400 uppercase tracking-wider">
+                  Today's Routine · {routine.program.name}
+                  {!routine.finished && ` · Day ${routine.day + 1} of ${routine.program.days.length}`}
+                </p>
+                <p className="text-sm text-white mt-1">
+                  {routine.finished && 'Program finished. Pick a new one under Training.'}
+                  {!routine.finished && !routine.playlist && 'Rest day.'}
+                  {routine.playlist && (
+                    <>
+                      {routine.playlist.name}
+                      <span className="text-zinc-500 font-mono text-xs">
+                        {' '}· {routine.playlist.blocks.length} blocks · {Math.ceil(playlistDuration(routine.playlist) / 60)} min
+                      </span>
+                      {routine.done && <span className="text-violet-400"> · done ✓</span>}
+                    </>
+                  )}
+                </p>
+              </div>
+              {routine.playlist && !routine.done && (
+                <button
+                  onClick={() => onStartPlaylist(routine.playlist!, routine.day)}
+                  disabled={missingScenarios(routine.playlist).length > 0}
+                  className="px-4 py-2 rounded-lg font-bold text-black bg-violet-400 hover:bg-violet-300 transition-all disabled:opacity-40"
+                >
+                  ▶ Start
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {getScenarios().map(def => (
+              <button
+                key={def.id}
+                onClick={() => onStart(def)}
+                className={`p-4 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg transition-all group hover:border-${def.accent}-500/50`}
+              >
+                <div className="text-2xl mb-2">{def.icon}</div>
+                <h3 className={`font-bold text-white group-hover:text-${def.accent}-400`}>{def.name}</h3>
+                <p className="text-xs text-zinc-500 mt-1">{def.description}</p>
+                {bests.has(def.id) && (
+                  <p className="text-[10px] font-mono text-amber-400 mt-2">PB {bests.get(def.id)!.score}</p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-4 gap-4 mt-4">
+            <button
+              onClick={onTraining}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              🗓️ Training
+            </button>
+            <button
+              onClick={onHistory}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              📈 Training History
+            </button>
+            <button
+              onClick={onEditor}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              🧪 Scenario Editor
+            </button>
+            <button
+              onClick={onCalibrate}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              🎚️ Sensitivity Matcher
+            </button>
+            <button
+              onClick={() => replayInputRef.current?.click()}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              🎬 Load Replay
+            </button>
+            <button
+              onClick={onSettings}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              ⚙️ Settings
+            </button>
+            <button
+              onClick={onLeaderboard}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              🏆 Leaderboard
+            </button>
+            <button
+              onClick={onRace}
+              className="py-2 rounded-lg text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              🏁 Race
+            </button>
+          </div>
+          <input ref={replayInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleLoadReplay} />
+          {replayErrors.length > 0 && (
+            <div className="mt-4 text-xs text-left text-red-400 bg-red-950/40 border border-red-900 rounded p-2 space-y-1">
+              {replayErrors.map((err, i) => <p key={i}>{err}</p>)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { SessionStats } from '../types';
+import { getScenario } from '../services/scenarioRegistry';
+import { PlaylistRun } from '../services/trainingService';
+
+interface PlaylistBreakProps {
+  run: PlaylistRun;
+  onContinue: () => void; // Starts the next block
+  onEnd: () => void;      // Stops the playlist and shows the report
+}
+
+// Rest between two playlist blocks; the next block starts when the countdown ends
+export const PlaylistBreak: React.FC<PlaylistBreakProps> = ({ run, onContinue, onEnd }) => {
+  const { playlist, sessions } = run;
+  const last: SessionStats = sessions[sessions.length - 1];
+  const next = playlist.blocks[sessions.length];
+  const [remaining, setRemaining] = useState(playlist.blocks[sessions.length - 1].rest);
+
+  useEffect(() => {
+    if (remaining <= 0) {
+      onContinue();
+      return;
+    }
+    const timer = window.setTimeout(() => setRemaining(r => r - 1), 1000);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remaining]);
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center justify-center p-8">
+      <div className="max-w-md w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl text-center">
+        <p className="text-xs text-zinc-500 font-mono uppercase tracking-wider">{playlist.name}</p>
+        <h2 className="text-2xl font-bold text-white mt-1">Block {sessions.length} of {playlist.blocks.length} done</h2>
+        <p className="text-sm text-zinc-400 mt-2 font-mono">
+          {last.scenarioName} · {last.score} pts · {last.accuracy.toFixed(1)}%
+        </p>
+
+        <p className="text-6xl font-mono font-bold text-violet-400 my-8">{remaining}</p>
+
+        <p className="text-xs text-zinc-500 uppercase tracking-wider">Up next</p>
+        <p className="text-lg font-bold text-white">{getScenario(next.scenario)?.name ?? next.scenario} · {next.duration}s</p>
+
+        <div className="flex justify-center gap-4 mt-8">
+          <button
+            onClick={onEnd}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            End Playlist
+          </button>
+          <button
+            onClick={onContinue}
+            className="px-6 py-3 rounded-lg font-bold text-black bg-violet-400 hover:bg-violet-300 transition-all"
+          >
+            Start Now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { SessionStats } from '../types';
+import { PlaylistRun, summarizePlaylistRun } from '../services/trainingService';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+
+interface PlaylistReportProps {
+  run: PlaylistRun;
+  onOpenSession: (stats: SessionStats) => void;
+  onRestart: () => void;
+  onMenu: () => void;
+}
+
+// Combined results of one playthrough, block by block
+export const PlaylistReport: React.FC<PlaylistReportProps> = ({ run, onOpenSession, onRestart, onMenu }) => {
+  const report = useMemo(() => summarizePlaylistRun(run), [run]);
+  const chartData = report.blocks
+    .filter(b => b.session)
+    .map(b => ({ name: `${b.block + 1}. ${b.scenarioName}`, accuracy: Number(b.accuracy.toFixed(1)) }));
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto">
+      <div className="max-w-6xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-violet-400 to-fuchsia-500">
+          {run.playlist.name}
+        </h2>
+        <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">
+          PLAYLIST REPORT · {run.sessions.length} OF {run.playlist.blocks.length} BLOCKS
+          {!report.completed && <span className="text-orange-400"> · ENDED EARLY</span>}
+          {run.programDay !== undefined && (
+            report.completed
+              ? <span className="text-violet-400"> · PROGRAM DAY {run.programDay + 1} COMPLETE</span>
+              : <span className="text-orange-400"> · PROGRAM DAY {run.programDay + 1} NOT COMPLETE</span>
+          )}
+        </p>
+
+        {/* Totals */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+            <p className="text-zinc-500 text-xs uppercase tracking-wider">Total Score</p>
+            <p className="text-3xl font-mono font-bold text-white">{report.score}</p>
+          </div>
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+            <p className="text-zinc-500 text-xs uppercase tracking-wider">Accuracy</p>
+            <p className="text-3xl font-mono font-bold text-violet-400">{report.accuracy.toFixed(1)}%</p>
+          </div>
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+            <p className="text-zinc-500 text-xs uppercase tracking-wider">Hits / Shots</p>
+            <p className="text-3xl font-mono font-bold text-white">{report.shotsHit} / {report.shotsFired}</p>
+          </div>
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+            <p className="text-zinc-500 text-xs uppercase tracking-wider">Time Played</p>
+            <p className="text-3xl font-mono font-bold text-white">{report.timePlayed.toFixed(0)}s</p>
+          </div>
+        </div>
+
+        {/* Blocks */}
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-8">
+          <h3 className="text-lg font-semibold text-zinc-300 mb-2">Blocks</h3>
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-zinc-500 text-xs text-left">
+                <th className="py-2 px-2">#</th>
+                <th className="py-2 px-2">Scenario</th>
+                <th className="py-2 px-2 text-right">Score</th>
+                <th className="py-2 px-2 text-right">Accuracy</th>
+                <th className="py-2 px-2 text-right">Time to Kill</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.blocks.map(b => (
+                <tr
+                  key={b.block}
+                  onClick={b.session ? () => onOpenSession(b.session!) : undefined}
+                  title={b.session ? "Open this block's analysis" : 'Not played'}
+                  className={`border-t border-zinc-800 ${b.session ? 'cursor-pointer hover:bg-zinc-900' : 'text-zinc-600'}`}
+                >
+                  <td className="py-2 px-2 text-zinc-500">{b.block + 1}</td>
+                  <td className="py-2 px-2 text-white">
+                    {b.scenarioName}
+                    {b.session?.endedEarly && <span className="text-orange-400 text-xs"> · ended early</span>}
+                  </td>
+                  <td className="py-2 px-2 text-right">{b.session ? b.score : '—'}</td>
+                  <td className="py-2 px-2 text-right">{b.session ? `${b.accuracy.toFixed(1)}%` : '—'}</td>
+                  <td className="py-2 px-2 text-right">{b.timeToKill !== null ? `${Math.round(b.timeToKill)}ms` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {chartData.length > 1 && (
+            <div className="w-full h-48 mt-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                  <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                  <XAxis dataKey="name" stroke="#71717a" fontSize={11} />
+                  <YAxis domain={[0, 100]} stroke="#71717a" fontSize={12} unit="%" />
+                  <Tooltip
+                    contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}}
+                    formatter={(value: any) => [`${value}%`, 'Accuracy']}
+                  />
+                  <Bar dataKey="accuracy" fill="#a78bfa" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Main Menu
+          </button>
+          <button
+            onClick={onRestart}
+            className="px-6 py-3 rounded-lg font-bold text-black bg-violet-400 hover:bg-violet-300 transition-all"
+          >
+            Play Again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  active: Profile;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+const MAX_NAME_LENGTH = 24;
+
+const buttonClass = 'px-2 py-1 rounded text-xs font-bold border transition-all bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700 disabled:opacity-40';
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, active, onSelect, onCreate, onRename, onDelete }) => {
+  // Inline name editor, for a new profile or renaming the active one
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const trimmed = name.trim();
+  const taken = profiles.some(p => p.name.toLowerCase() === trimmed.toLowerCase() && !(editing === 'rename' && p.id === active.id));
+
+  const startEditing = (mode: 'new' | 'rename') => {
+    setEditing(mode);
+    setName(mode === 'rename' ? active.name : '');
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || taken) return;
+    if (editing === 'new') onCreate(trimmed);
+    else onRename(trimmed);
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${active.name} with all of their settings and history?`)) return;
+    onDelete();
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={submit} className="flex items-center justify-center gap-2 text-sm">
+        <span className="text-zinc-500 text-xs uppercase tracking-wider">{editing === 'new' ? 'New player' : 'Rename'}</span>
+        <input
+          autoFocus
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          className="w-40 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white text-sm"
+        />
+        <button type="submit" disabled={!trimmed || taken} className={buttonClass}>Save</button>
+        <button type="button" onClick={() => setEditing(null)} className={buttonClass}>Cancel</button>
+        {taken && <span className="text-xs text-red-400">Name in use</span>}
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-2 text-sm">
+      <span className="text-zinc-500 text-xs uppercase tracking-wider">Player</span>
+      <select
+        value={active.id}
+        onChange={(e) => onSelect(e.target.value)}
+        className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white font-bold"
+      >
+        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <button onClick={() => startEditing('new')} className={buttonClass}>+ New</button>
+      <button onClick={() => startEditing('rename')} className={buttonClass}>Rename</button>
+      <button onClick={handleDelete} disabled={profiles.length <= 1} className={`${buttonClass} text-red-400`}>Delete</button>
+    </div>
+  );
+};
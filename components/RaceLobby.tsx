@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { ScenarioDefinition } from '../types';
+import { getScenarios } from '../services/scenarioRegistry';
+import { randomSeed } from '../services/random';
+import { RaceRoom } from '../services/raceClient';
+import { DEFAULT_RACE_URL, MAX_RACERS, MIN_RACERS } from '../services/raceProtocol';
+
+interface RaceLobbyProps {
+  room: RaceRoom | null; // Null until the relay has let us in
+  connecting: boolean;
+  error: string | null;
+  playerName: string;    // Suggested racing name
+  onConnect: (url: string, room: string, name: string) => void;
+  onConfigure: (scenario: ScenarioDefinition, seed: number) => void;
+  onStart: () => void;
+  onResults: () => void; // Back to the last race's standings
+  onLeave: () => void;
+}
+
+const inputClass = 'bg-zinc-950 border border-zinc-700 rounded px-3 py-2 text-sm text-white font-mono focus:border-emerald-500 outline-none';
+
+export const RaceLobby: React.FC<RaceLobbyProps> = ({ room, connecting, error, playerName, onConnect, onConfigure, onStart, onResults, onLeave }) => {
+  const [url, setUrl] = useState(DEFAULT_RACE_URL);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState(playerName);
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the countdown
+  useEffect(() => {
+    if (!room?.startsAt) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [room?.startsAt]);
+
+  const scenarios = getScenarios();
+  const isHost = room !== null && room.host === room.you;
+  const countdown = room?.startsAt ? Math.max(Math.ceil((room.startsAt - now) / 1000), 0) : null;
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center justify-center p-8">
+      <div className="max-w-lg w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-emerald-400 to-cyan-500">
+          Race
+        </h2>
+
+        {!room && (
+          <form
+            className="flex flex-col gap-3"
+            onSubmit={e => {
+              e.preventDefault();
+              onConnect(url.trim(), code.trim(), name.trim());
+            }}
+          >
+            <p className="text-xs text-zinc-500">
+              {MIN_RACERS}-{MAX_RACERS} players on the same relay and room race the same targets.
+              Start one with <span className="font-mono text-zinc-300">npm run race-server</span>.
+            </p>
+            <label className="text-xs text-zinc-400 uppercase tracking-wider">Relay</label>
+            <input value={url} onChange={e => setUrl(e.target.value)} className={inputClass} />
+            <label className="text-xs text-zinc-400 uppercase tracking-wider">Room</label>
+            <input value={code} onChange={e => setCode(e.target.value)} placeholder="e.g. lan-night" maxLength={24} className={inputClass} />
+            <label className="text-xs text-zinc-400 uppercase tracking-wider">Name</label>
+            <input value={name} onChange={e => setName(e.target.value)} maxLength={24} className={inputClass} />
+            <button
+              type="submit"
+              disabled={connecting || !url.trim() || !code.trim() || !name.trim()}
+              className="mt-2 px-6 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all disabled:opacity-40"
+            >
+              {connecting ? 'Connecting…' : 'Join Room'}
+            </button>
+          </form>
+        )}
+
+        {room && (
+          <>
+            <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">
+              ROOM {room.code} · {room.players.length}/{MAX_RACERS} RACERS
+            </p>
+
+            <ul className="space-y-1 mb-6">
+              {room.players.map(p => (
+                <li key={p.id} className="flex justify-between bg-zinc-950 border border-zinc-800 rounded px-3 py-2 text-sm">
+                  <span className={p.id === room.you ? 'text-emerald-400 font-bold' : 'text-white'}>{p.name}</span>
+                  {p.id === room.host && <span className="text-xs text-zinc-500 font-mono">HOST</span>}
+                </li>
+              ))}
+            </ul>
+
+            {/* Scenario and seed: the host picks, everyone sees */}
+            {isHost ? (
+              <div className="grid grid-cols-3 gap-2 mb-6">
+                <select
+                  value={room.scenario?.id ?? ''}
+                  onChange={e => {
+                    const scenario = scenarios.find(s => s.id === e.target.value);
+                    if (scenario) onConfigure(scenario, room.seed || randomSeed());
+                  }}
+                  className={`${inputClass} col-span-2`}
+                >
+                  <option value="" disabled>Pick a scenario…</option>
+                  {scenarios.map(s => <option key={s.id} value={s.id}>{s.name} · {s.duration}s</option>)}
+                </select>
+                <button
+                  onClick={() => room.scenario && onConfigure(room.scenario, randomSeed())}
+                  disabled={!room.scenario}
+                  title="New target sequence"
+                  className="px-3 py-2 rounded text-xs font-bold border transition-all bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700 disabled:opacity-40"
+                >
+                  🎲 Seed
+                </button>
+              </div>
+            ) : (
+              <p className="text-center text-sm text-zinc-400 mb-6">
+                {room.scenario ? `${room.scenario.name} · ${room.scenario.duration}s` : 'Waiting for the host to pick a scenario…'}
+              </p>
+            )}
+            {room.scenario && <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">SEED {room.seed}</p>}
+
+            {countdown !== null ? (
+              <p className="text-6xl font-mono font-bold text-emerald-400 text-center my-4">{countdown}</p>
+            ) : isHost ? (
+              <button
+                onClick={onStart}
+                disabled={!room.scenario || room.players.length < MIN_RACERS}
+                className="w-full px-6 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all disabled:opacity-40"
+              >
+                {room.players.length < MIN_RACERS ? 'Waiting for racers…' : 'Start Race'}
+              </button>
+            ) : (
+              <p className="text-center text-xs text-zinc-500">The host starts the race.</p>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="mt-4 text-xs text-left text-red-400 bg-red-950/40 border border-red-900 rounded p-2">{error}</div>
+        )}
+
+        <div className="flex justify-center gap-4 mt-6">
+          <button
+            onClick={onLeave}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            {room ? 'Leave Room' : 'Main Menu'}
+          </button>
+          {room?.results && countdown === null && (
+            <button
+              onClick={onResults}
+              className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+            >
+              Last Results
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { SessionStats } from '../types';
+import { RaceRoom } from '../services/raceClient';
+
+interface RaceResultsProps {
+  room: RaceRoom;
+  stats: SessionStats | null; // Own session from the race, for the full analysis
+  onAnalysis: () => void;
+  onLobby: () => void;
+  onLeave: () => void;
+}
+
+// Everyone's relay-judged totals; live until the last racer finishes
+export const RaceResults: React.FC<RaceResultsProps> = ({ room, stats, onAnalysis, onLobby, onLeave }) => {
+  const final = room.results !== null;
+  const players = room.results ?? room.standings;
+  const rank = players.findIndex(p => p.id === room.you);
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto">
+      <div className="max-w-3xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-emerald-400 to-cyan-500">
+          {final && rank >= 0 ? `#${rank + 1} of ${players.length}` : 'Race Results'}
+        </h2>
+        <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">
+          ROOM {room.code}{stats && ` · ${stats.scenarioName} · SEED ${stats.seed}`}
+          {!final && <span className="text-orange-400"> · WAITING FOR OTHER RACERS</span>}
+        </p>
+
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-8">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-zinc-500 text-xs text-left">
+                <th className="py-2 px-2">#</th>
+                <th className="py-2 px-2">Racer</th>
+                <th className="py-2 px-2 text-right">Score</th>
+                <th className="py-2 px-2 text-right">Accuracy</th>
+                <th className="py-2 px-2 text-right">Hits / Shots</th>
+                <th className="py-2 px-2 text-right" title="Shots the relay could not verify">Rejected</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map((p, i) => (
+                <tr key={p.id} className={`border-t border-zinc-800 ${p.id === room.you ? 'bg-emerald-950/40 text-emerald-300' : p.left ? 'text-zinc-600' : 'text-white'}`}>
+                  <td className="py-2 px-2 text-zinc-500">{i + 1}</td>
+                  <td className="py-2 px-2">
+                    {p.name}
+                    {p.left && <span className="text-xs"> · left</span>}
+                    {!final && !p.finished && <span className="text-orange-400 text-xs"> · racing</span>}
+                  </td>
+                  <td className="py-2 px-2 text-right font-bold">{p.score}</td>
+                  <td className="py-2 px-2 text-right">{p.shots > 0 ? ((p.hits / p.shots) * 100).toFixed(1) : '0.0'}%</td>
+                  <td className="py-2 px-2 text-right">{p.hits} / {p.shots}</td>
+                  <td className={`py-2 px-2 text-right ${p.rejected > 0 ? 'text-red-400' : 'text-zinc-600'}`}>{p.rejected}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={onLeave}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Leave Room
+          </button>
+          {stats && (
+            <button
+              onClick={onAnalysis}
+              className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+            >
+              My Analysis
+            </button>
+          )}
+          <button
+            onClick={onLobby}
+            className="px-6 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all"
+          >
+            Back to Lobby
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
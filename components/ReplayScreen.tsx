@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Stars, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { TargetEntity, Vec3 } from '../types';
+import { TargetMesh } from './TargetMesh';
+import { SessionReplay, cameraAt, exportReplayFile, targetsAt } from '../services/replayService';
+
+interface ReplayScreenProps {
+  replay: SessionReplay;
+  startAt?: number; // ms since the session started
+  onBack: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+// How much aim history the ghost crosshair trail shows
+const TRAIL_MS = 600;
+const TRAIL_STEP_MS = 1000 / 60;
+// Trail and shot markers are drawn on a sphere this far from the camera
+const TRAIL_DISTANCE = 10;
+// Shot markers linger this long after the shot; at most this many show at once
+const SHOT_MARKER_MS = 800;
+const MAX_SHOT_MARKERS = 16;
+const HIT_COLOR = '#34d399';
+const MISS_COLOR = '#ef4444';
+
+// Same convention as the game camera: yaw around Y, then pitch around X
+const directionAt = (yaw: number, pitch: number, distance: number): Vec3 => [
+  -Math.sin(yaw) * Math.cos(pitch) * distance,
+  Math.sin(pitch) * distance,
+  -Math.cos(yaw) * Math.cos(pitch) * distance,
+];
+
+const formatTime = (ms: number) => {
+  const seconds = Math.max(ms, 0) / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+interface ReplayControllerProps {
+  replay: SessionReplay;
+  timeRef: React.MutableRefObject<number>;
+  playingRef: React.MutableRefObject<boolean>;
+  speedRef: React.MutableRefObject<number>;
+  onTick: (time: number) => void;
+}
+
+// -----------------------------------------------------------------------------
+// Playback inside the Canvas: camera, targets, ghost trail
+// -----------------------------------------------------------------------------
+const ReplayController = ({ replay, timeRef, playingRef, speedRef, onTick }: ReplayControllerProps) => {
+  const { camera } = useThree();
+  // Re-rendered only when targets appear or disappear; positions go straight to the meshes
+  const [targets, setTargets] = useState<TargetEntity[]>([]);
+  const aliveRef = useRef('');
+  const meshesRef = useRef<Map<string, THREE.Object3D>>(new Map());
+  const trailRef = useRef<React.ElementRef<typeof Line>>(null);
+  const markersRef = useRef<(THREE.Mesh | null)[]>([]);
+  const euler = useRef(new THREE.Euler(0, 0, 0, 'YXZ'));
+  const tickClock = useRef(0);
+  const initialTrail = useMemo<Vec3[]>(() => [[0, 0, 0], [0, 0, 0]], []);
+
+  useFrame((_, delta) => {
+    if (playingRef.current) {
+      timeRef.current = Math.min(timeRef.current + delta * 1000 * speedRef.current, replay.duration);
+      if (timeRef.current >= replay.duration) playingRef.current = false;
+    }
+    const t = timeRef.current;
+
+    const { yaw, pitch } = cameraAt(replay, t);
+    euler.current.set(pitch, yaw, 0, 'YXZ');
+    camera.quaternion.setFromEuler(euler.current);
+
+    const alive = targetsAt(replay, t);
+    const aliveKey = alive.map(target => target.id).join(',');
+    if (aliveKey !== aliveRef.current) {
+      aliveRef.current = aliveKey;
+      setTargets(alive.map(target => ({
+        id: target.id,
+        position: target.position,
+        active: true,
+        velocity: [0, 0, 0],
+        radius: target.radius,
+        spawnTime: 0,
+      })));
+    }
+    alive.forEach(target => meshesRef.current.get(target.id)?.position.set(...target.position));
+
+    const trail = trailRef.current;
+    if (trail) {
+      const points: number[] = [];
+      for (let s = Math.max(0, t - TRAIL_MS); s <= t; s += TRAIL_STEP_MS) {
+        const aim = cameraAt(replay, s);
+        points.push(...directionAt(aim.yaw, aim.pitch, TRAIL_DISTANCE));
+      }
+      trail.visible = points.length > 3;
+      if (trail.visible) trail.geometry.setPositions(points);
+    }
+
+    // Newest shot on the first marker
+    const recentShots = replay.shots.filter(s => s.time <= t && t - s.time < SHOT_MARKER_MS).reverse();
+    markersRef.current.forEach((marker, i) => {
+      if (!marker) return;
+      const shot = recentShots[i];
+      marker.visible = shot !== undefined;
+      if (!shot) return;
+      const aim = cameraAt(replay, shot.time);
+      marker.position.set(...directionAt(aim.yaw, aim.pitch, TRAIL_DISTANCE));
+      const material = marker.material as THREE.MeshBasicMaterial;
+      material.color.set(shot.hit ? HIT_COLOR : MISS_COLOR);
+      material.opacity = 1 - (t - shot.time) / SHOT_MARKER_MS;
+    });
+
+    // The slider and clock only need ~10 updates a second
+    tickClock.current += delta;
+    if (tickClock.current >= 0.1) {
+      tickClock.current = 0;
+      onTick(t);
+    }
+  });
+
+  return (
+    <>
+      <ambientLight intensity={0.5} />
+      <pointLight position={[10, 10, 10]} intensity={1} />
+      <gridHelper args={[100, 100, 0x444444, 0x222222]} position={[0, -2, 0]} />
+
+      {targets.map(target => (
+        <TargetMesh
+          key={target.id}
+          target={target}
+          hitbox={replay.hitbox}
+          meshRef={mesh => {
+            if (mesh) meshesRef.current.set(target.id, mesh);
+            else meshesRef.current.delete(target.id);
+          }}
+        />
+      ))}
+
+      <Line ref={trailRef} points={initialTrail} color="#f472b6" lineWidth={2} transparent opacity={0.6} />
+
+      {Array.from({ length: MAX_SHOT_MARKERS }, (_, i) => (
+        <mesh key={i} ref={mesh => { markersRef.current[i] = mesh; }} visible={false}>
+          <sphereGeometry args={[0.06, 12, 12]} />
+          <meshBasicMaterial transparent />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+// -----------------------------------------------------------------------------
+// Wrapper: canvas plus transport controls
+// -----------------------------------------------------------------------------
+export const ReplayScreen: React.FC<ReplayScreenProps> = ({ replay, startAt = 0, onBack }) => {
+  const initial = Math.min(Math.max(startAt, 0), replay.duration);
+  // Playback state lives in refs so the frame loop never waits on React
+  const timeRef = useRef(initial);
+  const playingRef = useRef(true);
+  const speedRef = useRef(1);
+  const [time, setTime] = useState(initial);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const hits = useMemo(() => replay.shots.filter(s => s.hit).length, [replay]);
+  const shotsSoFar = replay.shots.filter(s => s.time <= time);
+
+  const handleTick = (t: number) => {
+    setTime(t);
+    if (!playingRef.current) setPlaying(false);
+  };
+
+  const togglePlaying = () => {
+    // Restart from the top once the end is reached
+    if (!playingRef.current && timeRef.current >= replay.duration) timeRef.current = 0;
+    playingRef.current = !playingRef.current;
+    setPlaying(playingRef.current);
+  };
+
+  const handleScrub = (value: number) => {
+    timeRef.current = value;
+    setTime(value);
+  };
+
+  const handleSpeed = (value: number) => {
+    speedRef.current = value;
+    setSpeed(value);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault();
+        togglePlaying();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="w-full h-full relative bg-black">
+      <div className="crosshair"></div>
+
+      <Canvas
+        camera={{ fov: replay.fov, position: [0, 0, 0] }}
+        gl={{ toneMapping: THREE.ACESFilmicToneMapping }}
+      >
+        <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+        <ReplayController
+          replay={replay}
+          timeRef={timeRef}
+          playingRef={playingRef}
+          speedRef={speedRef}
+          onTick={handleTick}
+        />
+      </Canvas>
+
+      <div className="absolute top-4 left-4 font-mono select-none flex flex-col gap-2 text-white">
+        <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700 text-pink-400 font-bold">REPLAY</span>
+        <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700 text-sm">
+          SHOTS: {shotsSoFar.length} · HITS: {shotsSoFar.filter(s => s.hit).length}
+        </span>
+        <span className="bg-zinc-900/80 px-3 py-1 rounded border border-zinc-700 text-xs text-zinc-400">
+          {replay.scenarioName} · SEED {replay.seed} · {hits}/{replay.shots.length} hits
+        </span>
+      </div>
+
+      <div className="absolute bottom-0 inset-x-0 p-4 bg-zinc-950/90 border-t border-zinc-800 text-white">
+        <div className="flex items-center gap-4 max-w-5xl mx-auto">
+          <button
+            onClick={togglePlaying}
+            className="w-24 px-4 py-2 rounded-lg font-bold text-black bg-pink-400 hover:bg-pink-300 transition-all"
+          >
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <span className="font-mono text-sm text-zinc-400 w-32 text-center">
+            {formatTime(time)} / {formatTime(replay.duration)}
+          </span>
+          <input
+            type="range"
+            min="0"
+            max={replay.duration}
+            step="1"
+            value={time}
+            onChange={(e) => handleScrub(parseFloat(e.target.value))}
+            className="flex-1 h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+          />
+          <div className="flex gap-1">
+            {SPEEDS.map(value => (
+              <button
+                key={value}
+                onClick={() => handleSpeed(value)}
+                className={`px-2 py-1 rounded text-xs font-mono border transition-all ${
+                  speed === value ? 'bg-pink-500/20 border-pink-500 text-pink-300' : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'
+                }`}
+              >
+                {value}x
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => exportReplayFile(replay)}
+            className="px-4 py-2 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Export
+          </button>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,85 +1,113 @@
-import React, { useMemo } from 'react';
-import { SessionStats, ScenarioType } from '../types';
-import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer, ZAxis, Cell, ReferenceLine } from 'recharts';
+import React, { useMemo, useState } from 'react';
+import { InputDevice, SessionMode, SessionStats } from '../types';
+import { analyzeAim, Confidence } from '../services/aimAnalysis';
+import { loadHistory, sessionInput, sessionProfileId, withSessionDetail } from '../services/historyService';
+import { isPersonalBest } from '../services/leaderboardService';
+import { histogram, summarizeTargets } from '../services/targetMetrics';
+import { summarizeZones } from '../services/zoneMetrics';
+import { analyzeFlicks, flickOutcome } from '../services/flickAnalysis';
+import { canReplay, sessionStartTime } from '../services/replayService';
+import { exportSessionFile, exportSessionsCsv } from '../services/sessionExport';
+import { ellipseOutline, impactPoint, summarizeImpacts, targetOutline, toArcminutes } from '../services/impactStats';
+import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer, ZAxis, Cell, ReferenceLine, LineChart, Line, CartesianGrid, BarChart, Bar } from 'recharts';
 
 interface ResultsScreenProps {
   stats: SessionStats;
-  onRestart: () => void;
+  unsaved?: boolean;         // The session did not fit in the saved history
+  onRestart?: () => void;    // Missing when the session's scenario is not installed
+  onReplaySeed?: () => void;
+  onWatchReplay: (startAt?: number) => void; // ms since the session started
+  onLeaderboard?: () => void; // Missing for runs that are not ranked
+  onBack?: () => void;        // Back to the report the session was opened from
   onMenu: () => void;
 }
 
-export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart, onMenu }) => {
-  // Prepare scatter data for misses (Hit map)
-  const scatterData = useMemo(() => stats.missData.map((shot, idx) => ({
-    x: shot.relativeX || 0,
-    y: shot.relativeY || 0,
-    hit: shot.hit,
-    z: 1 
-  })), [stats.missData]);
-
-  // Calculate Statistics Locally
-  const analysis = useMemo(() => {
-    const misses = stats.missData.filter(s => !s.hit);
-    const totalMisses = misses.length;
-    
-    if (totalMisses === 0) return {
-        left: 0, right: 0, top: 0, bottom: 0,
-        overshoots: 0, undershoots: 0,
-        recommendation: "Perfect run! Your sensitivity is well-tuned."
-    };
-
-    const left = misses.filter(m => (m.relativeX || 0) < 0).length;
-    const right = misses.filter(m => (m.relativeX || 0) > 0).length;
-    const top = misses.filter(m => (m.relativeY || 0) > 0).length;
-    const bottom = misses.filter(m => (m.relativeY || 0) < 0).length;
-
-    // Tracking specific logic
-    let overshoots = 0;
-    let undershoots = 0;
-    
-    if (stats.scenario === ScenarioType.TRACKING) {
-        const trackingMisses = misses.filter(m => m.targetVelocityX !== undefined);
-        overshoots = trackingMisses.filter(m => 
-            (m.targetVelocityX! > 0 && m.relativeX! > 0) || 
-            (m.targetVelocityX! < 0 && m.relativeX! < 0)
-        ).length;
-        undershoots = trackingMisses.filter(m => 
-            (m.targetVelocityX! > 0 && m.relativeX! < 0) || 
-            (m.targetVelocityX! < 0 && m.relativeX! > 0)
-        ).length;
-    }
-
-    // Heuristics for Recommendation
-    let recommendation = "Your aim is balanced. Continue training to build consistency.";
-    
-    if (stats.scenario === ScenarioType.TRACKING) {
-        if (overshoots > undershoots * 1.5 && overshoots > 3) {
-            recommendation = "You consistently OVERSHOOT moving targets. \nTry LOWERING your sensitivity or DPI slightly.";
-        } else if (undershoots > overshoots * 1.5 && undershoots > 3) {
-            recommendation = "You consistently UNDERSHOOT moving targets. \nTry INCREASING your sensitivity or DPI slightly.";
-        }
-    } else {
-        // Gridshot/Flicking
-        const horizontalBias = Math.abs(left - right);
-        const verticalBias = Math.abs(top - bottom);
-        
-        if (horizontalBias > totalMisses * 0.5) {
-             recommendation = left > right 
-                ? "You consistently miss to the LEFT. Check your initial crosshair placement or grip stability."
-                : "You consistently miss to the RIGHT. You might be pulling your mouse too fast.";
-        } else if (verticalBias > totalMisses * 0.5) {
-            recommendation = "Significant vertical drift detected. Check your posture and mousepad friction.";
-        } else {
-            // Check spread width
-            const avgSpread = misses.reduce((acc, m) => acc + Math.abs(m.relativeX || 0), 0) / totalMisses;
-            if (avgSpread > 1.5) {
-                recommendation = "Wide horizontal scatter detected. Your sensitivity might be too high for precise micro-adjustments.";
-            }
-        }
-    }
-
-    return { left, right, top, bottom, overshoots, undershoots, recommendation };
-  }, [stats]);
+// A clicked miss opens the replay this long before the shot
+const REPLAY_LEAD_IN = 1000;
+
+// How many recent sessions of the scenario the analysis may pool
+const POOL_SIZES = [1, 3, 5, 10];
+
+const CONFIDENCE_LABELS: Record<Confidence, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' },
+  medium: { label: 'Medium confidence', className: 'bg-amber-500/20 text-amber-300 border-amber-500/40' },
+  low: { label: 'Low confidence', className: 'bg-zinc-500/20 text-zinc-300 border-zinc-500/40' },
+  insufficient: { label: 'Not enough data', className: 'bg-red-500/20 text-red-300 border-red-500/40' },
+};
+
+const formatArcmin = (degrees: number) => `${toArcminutes(Math.abs(degrees)).toFixed(1)}′`;
+
+const FLICK_COLORS = ['#f472b6', '#60a5fa', '#facc15', '#34d399', '#a78bfa', '#fb923c'];
+
+export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, unsaved, onRestart, onReplaySeed, onWatchReplay, onLeaderboard, onBack, onMenu }) => {
+  // Every shot's offset from the target center, in target radii
+  const scatterData = useMemo(() => stats.missData.flatMap(shot => {
+    const point = impactPoint(shot);
+    return point ? [{ ...point, hit: shot.hit, timestamp: shot.timestamp, z: 1 }] : [];
+  }), [stats.missData]);
+
+  // Mean point of impact, spread and error ellipse over all shots
+  const impact = useMemo(() => summarizeImpacts(stats.missData), [stats.missData]);
+  const ellipse = useMemo(() => impact ? ellipseOutline(impact) : [], [impact]);
+  const targetEdge = useMemo(() => targetOutline(), []);
+  // Square, symmetric axes so circles stay round
+  const scatterExtent = useMemo(() => Math.max(
+    1.5,
+    ...scatterData.map(p => Math.max(Math.abs(p.x), Math.abs(p.y))),
+    ...ellipse.map(p => Math.max(Math.abs(p.x), Math.abs(p.y)))
+  ) * 1.1, [scatterData, ellipse]);
+
+  // Clicking a miss opens the replay a moment before it happened
+  const replayable = useMemo(() => canReplay(stats), [stats]);
+  const sessionStart = useMemo(() => sessionStartTime(stats), [stats]);
+  const jumpToShot = (timestamp: number) => {
+    if (replayable) onWatchReplay(Math.max(timestamp - sessionStart - REPLAY_LEAD_IN, 0));
+  };
+
+  // Tracking error curve (only samples taken while firing)
+  const trackingCurve = useMemo(() => (stats.trackingSamples || [])
+    .filter(s => s.firing)
+    .map(s => ({
+      time: Number(s.time.toFixed(1)),
+      error: s.distanceFromCenter,
+    })), [stats.trackingSamples]);
+
+  // Difficulty level and the success rate it followed, for adaptive sessions
+  const difficultyCurve = stats.difficultyCurve ?? [];
+  const finalDifficulty = difficultyCurve[difficultyCurve.length - 1];
+
+  // Reaction / time-to-kill per target
+  const speed = useMemo(() => summarizeTargets(stats.targetRecords || []), [stats.targetRecords]);
+  const reactionBins = useMemo(() => histogram(speed.reactionTimes), [speed]);
+  const killBins = useMemo(() => histogram(speed.killTimes), [speed]);
+
+  // Headshots and crosshair height, for humanoid targets
+  const zones = useMemo(() => summarizeZones(stats.missData), [stats.missData]);
+
+  // Flicks toward static targets, reconstructed from the aim path
+  const flickSummary = useMemo(
+    () => analyzeFlicks(stats.aimPath || [], stats.missData, stats.targetRecords || []),
+    [stats]
+  );
+  const [selectedFlicks, setSelectedFlicks] = useState<number[]>([0, 1, 2]);
+  const toggleFlick = (idx: number) => setSelectedFlicks(prev =>
+    prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]
+  );
+
+  // Earlier sessions of the same scenario and input device, newest first, for pooling
+  const profileHistory = useMemo(() => loadHistory(sessionProfileId(stats)), [stats]);
+  const previousSessions = useMemo(
+    () => profileHistory.filter(s => s.scenario === stats.scenario && sessionInput(s) === sessionInput(stats) && s.id !== stats.id).reverse(),
+    [stats, profileHistory]
+  );
+  const personalBest = useMemo(() => isPersonalBest(stats, profileHistory), [stats, profileHistory]);
+  const [poolSize, setPoolSize] = useState(1);
+  const analysis = useMemo(
+    () => analyzeAim([stats, ...withSessionDetail(previousSessions.slice(0, poolSize - 1))]),
+    [stats, previousSessions, poolSize]
+  );
+  const poolOptions = POOL_SIZES.filter(n => n === 1 || n - 1 <= previousSessions.length);
+  const hasMovingTargets = analysis.hasMovingTargets;
 
   return (
     <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center justify-center p-8 overflow-auto">
@@ -87,6 +115,21 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart,
         <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-emerald-400 to-cyan-500">
           Session Analysis
         </h2>
+        <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">
+          {stats.scenarioName} · SEED {stats.seed}
+          {stats.sessionMode && stats.sessionMode !== SessionMode.TIMED && ` · ${stats.sessionMode === SessionMode.KILLS ? 'KILL COUNT' : 'PRACTICE'}`}
+          {stats.duration !== undefined && ` · ${stats.duration.toFixed(1)}s`}
+          {stats.endedEarly && <span className="text-orange-400"> · ENDED EARLY</span>}
+          {stats.dailyChallenge && <span className="text-amber-400"> · DAILY CHALLENGE {stats.dailyChallenge}</span>}
+          {stats.playlist && <span className="text-violet-400"> · PLAYLIST BLOCK {stats.playlist.block + 1}</span>}
+          {stats.adaptive && <span className="text-violet-400"> · ADAPTIVE {stats.adaptive.successRate}%</span>}
+          {stats.input === InputDevice.GAMEPAD && <span className="text-cyan-400"> · GAMEPAD</span>}
+        </p>
+        {unsaved && (
+          <div className="mb-6 text-xs text-center text-red-400 bg-red-950/40 border border-red-900 rounded p-2">
+            Browser storage is full: this session was not added to your history. Export it below to keep it.
+          </div>
+        )}
 
         {/* Top KPIs */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
@@ -97,6 +140,7 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart,
           <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
             <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Score</p>
             <p className="text-3xl font-mono font-bold text-emerald-400">{stats.score}</p>
+            {personalBest && <p className="text-xs font-bold text-amber-400 mt-1">NEW PERSONAL BEST</p>}
           </div>
           <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
             <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Hits</p>
@@ -108,41 +152,124 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart,
           </div>
         </div>
 
+        {/* Speed KPIs */}
+        {speed.kills > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-4 mb-8">
+            <div className="md:col-span-4 grid grid-cols-3 md:grid-cols-1 gap-4">
+              <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+                <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Median Reaction</p>
+                <p className="text-2xl font-mono font-bold text-amber-300">
+                  {speed.medianReaction !== null ? `${Math.round(speed.medianReaction)}ms` : '—'}
+                </p>
+              </div>
+              <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+                <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Median Time to Kill</p>
+                <p className="text-2xl font-mono font-bold text-cyan-300">{Math.round(speed.medianTimeToKill!)}ms</p>
+              </div>
+              <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+                <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Shots per Kill</p>
+                <p className="text-2xl font-mono font-bold text-zinc-300">{speed.medianShotsPerKill}</p>
+              </div>
+            </div>
+
+            {[
+              { title: 'Reaction Time (ms)', data: reactionBins, color: '#fcd34d' },
+              { title: 'Time to Kill (ms)', data: killBins, color: '#67e8f9' },
+            ].map(chart => (
+              <div key={chart.title} className="md:col-span-4 bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+                <h3 className="text-sm font-semibold mb-2 text-zinc-300">{chart.title}</h3>
+                <div className="w-full h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chart.data} margin={{ top: 5, right: 5, bottom: 0, left: -20 }}>
+                      <XAxis dataKey="label" stroke="#71717a" fontSize={10} />
+                      <YAxis allowDecimals={false} stroke="#71717a" fontSize={10} />
+                      <Tooltip
+                        cursor={{ fill: '#27272a' }}
+                        contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}}
+                        formatter={(value: any) => [value, 'Targets']}
+                        labelFormatter={(label: any) => `≥ ${label}ms`}
+                      />
+                      <Bar dataKey="count" fill={chart.color} isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Head KPIs */}
+        {zones && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+              <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Headshot Rate</p>
+              <p className="text-2xl font-mono font-bold text-amber-300">{zones.headshotRate.toFixed(1)}%</p>
+              <p className="text-xs font-mono text-zinc-500">{zones.headHits} of {zones.hits} hits</p>
+            </div>
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+              <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Placement Error</p>
+              <p className="text-2xl font-mono font-bold text-white">{formatArcmin(zones.meanPlacementError)}</p>
+              <p className="text-xs font-mono text-zinc-500">median {formatArcmin(zones.medianPlacementError)} from head height</p>
+            </div>
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+              <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Placement Bias</p>
+              <p className={`text-2xl font-mono font-bold ${zones.meanPlacementBias < 0 ? 'text-blue-400' : 'text-orange-400'}`}>
+                {formatArcmin(zones.meanPlacementBias)} {zones.meanPlacementBias < 0 ? 'LOW' : 'HIGH'}
+              </p>
+              <p className="text-xs font-mono text-zinc-500">mean, signed</p>
+            </div>
+            <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 text-center">
+              <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Above / On / Below</p>
+              <p className="text-2xl font-mono font-bold text-zinc-300">{zones.above} / {zones.onLine} / {zones.below}</p>
+              <p className="text-xs font-mono text-zinc-500">shots against the head line</p>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 mb-8">
             {/* Left Col: Scatter Plot (Width 7/12) */}
             <div className="lg:col-span-7 bg-zinc-950 p-4 rounded-lg border border-zinc-800 flex flex-col items-center">
                 <h3 className="text-lg font-semibold mb-2 text-zinc-300">Impact Distribution</h3>
-                <div className="w-full h-80 bg-zinc-900 relative rounded border border-zinc-800 overflow-hidden">
-                    {/* Crosshair Overlay */}
-                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-20">
-                        <div className="w-full h-px bg-white absolute"></div>
-                        <div className="h-full w-px bg-white absolute"></div>
-                        <div className="w-32 h-32 rounded-full border border-white absolute"></div>
-                        <div className="w-16 h-16 rounded-full border border-zinc-500 border-dashed absolute"></div>
-                    </div>
-                    
+                <p className="text-xs text-zinc-500 mb-2">
+                    {zones ? 'In head radii: the solid circle is the head' : 'In target radii: the solid circle is the target edge'}, the dashed ellipse holds 95% of shots, ✚ is the mean point of impact
+                </p>
+                <div className="w-80 h-80 bg-zinc-900 relative rounded border border-zinc-800 overflow-hidden">
                     <ResponsiveContainer width="100%" height="100%">
-                        <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
-                            <XAxis type="number" dataKey="x" domain={['dataMin - 1', 'dataMax + 1']} hide />
-                            <YAxis type="number" dataKey="y" domain={['dataMin - 1', 'dataMax + 1']} hide />
+                        <ScatterChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                            <XAxis type="number" dataKey="x" domain={[-scatterExtent, scatterExtent]} hide />
+                            <YAxis type="number" dataKey="y" domain={[-scatterExtent, scatterExtent]} hide />
                             <ZAxis type="number" dataKey="z" range={[30, 30]} />
                             <Tooltip 
                                 cursor={{ strokeDasharray: '3 3' }} 
                                 contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}} 
-                                formatter={(value: any, name: any) => [value.toFixed(2), name === 'x' ? 'Horizontal Offset' : 'Vertical Offset']}
+                                formatter={(value: any, name: any) => [`${value.toFixed(2)} r`, name === 'x' ? 'Horizontal Offset' : 'Vertical Offset']}
                             />
                             <ReferenceLine y={0} stroke="#3f3f46" />
                             <ReferenceLine x={0} stroke="#3f3f46" />
+                            <Scatter name="Target" data={targetEdge} line={{ stroke: '#71717a' }} shape={() => <g />} isAnimationActive={false} />
+                            {impact && (
+                                <Scatter name="95% Ellipse" data={ellipse} line={{ stroke: '#fbbf24', strokeDasharray: '4 4' }} shape={() => <g />} isAnimationActive={false} />
+                            )}
                             <Scatter name="Shots" data={scatterData}>
                                 {scatterData.map((entry, index) => (
-                                    <Cell key={`cell-${index}`} fill={entry.hit ? '#34d399' : '#ef4444'} fillOpacity={0.7} />
+                                    <Cell
+                                        key={`cell-${index}`}
+                                        fill={entry.hit ? '#34d399' : '#ef4444'}
+                                        fillOpacity={0.7}
+                                        cursor={replayable && !entry.hit ? 'pointer' : undefined}
+                                        onClick={() => !entry.hit && jumpToShot(entry.timestamp)}
+                                    />
                                 ))}
                             </Scatter>
+                            {impact && (
+                                <Scatter name="Mean Point of Impact" data={[{ x: impact.meanX, y: impact.meanY, z: 4 }]} shape="cross" fill="#fbbf24" isAnimationActive={false} />
+                            )}
                         </ScatterChart>
                     </ResponsiveContainer>
                 </div>
                 <div className="flex justify-between w-full mt-2 px-4 text-xs text-zinc-500 font-mono">
                     <span>MISS LEFT: {analysis.left}</span>
+                    {replayable && <span>CLICK A MISS TO REPLAY IT</span>}
                     <span>MISS RIGHT: {analysis.right}</span>
                 </div>
             </div>
@@ -152,9 +279,12 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart,
                 
                 {/* Miss Breakdown Table */}
                 <div className="bg-zinc-950 p-6 rounded-lg border border-zinc-800">
-                    <h3 className="text-lg font-semibold mb-4 text-zinc-300">Miss Breakdown</h3>
+                    <h3 className="text-lg font-semibold mb-4 text-zinc-300">
+                        Miss Breakdown
+                        {analysis.sessionCount > 1 && <span className="text-xs text-zinc-500 font-normal"> · last {analysis.sessionCount} sessions</span>}
+                    </h3>
                     <div className="space-y-3">
-                        {stats.scenario === ScenarioType.TRACKING && (
+                        {hasMovingTargets && (
                             <div className="grid grid-cols-2 gap-4 pb-4 border-b border-zinc-800 mb-4">
                                 <div>
                                     <p className="text-zinc-500 text-xs">OVERSHOOTS</p>
@@ -171,6 +301,32 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart,
                             </div>
                         )}
 
+                        {analysis.impact && (
+                            <div className="grid grid-cols-3 gap-4 pb-4 border-b border-zinc-800 mb-4">
+                                <div>
+                                    <p className="text-zinc-500 text-xs">MEAN ERROR</p>
+                                    <p className="text-xl font-mono font-bold text-white">{formatArcmin(analysis.impact.meanErrorDegrees)}</p>
+                                    <p className="text-xs font-mono text-zinc-500">{analysis.impact.meanError.toFixed(2)} r</p>
+                                </div>
+                                <div>
+                                    <p className="text-zinc-500 text-xs">SD H / V</p>
+                                    <p className="text-xl font-mono font-bold text-white">{analysis.impact.sdX.toFixed(2)} / {analysis.impact.sdY.toFixed(2)}</p>
+                                    <p className="text-xs font-mono text-zinc-500">
+                                        {analysis.spread
+                                            ? `95% CI ${analysis.spread.sdX.low.toFixed(2)}–${analysis.spread.sdX.high.toFixed(2)} / ${analysis.spread.sdY.low.toFixed(2)}–${analysis.spread.sdY.high.toFixed(2)}`
+                                            : 'target radii'}
+                                    </p>
+                                </div>
+                                <div>
+                                    <p className="text-zinc-500 text-xs">MEAN IMPACT</p>
+                                    <p className="text-xl font-mono font-bold text-amber-300">
+                                        {Math.abs(analysis.impact.meanX).toFixed(2)}{analysis.impact.meanX < 0 ? 'L' : 'R'} {Math.abs(analysis.impact.meanY).toFixed(2)}{analysis.impact.meanY < 0 ? 'D' : 'U'}
+                                    </p>
+                                    <p className="text-xs font-mono text-zinc-500">target radii</p>
+                                </div>
+                            </div>
+                        )}
+
                         <div className="grid grid-cols-3 gap-2 text-center text-sm">
                             <div className="p-2 bg-zinc-900 rounded border border-zinc-800">
                                 <span className="block text-zinc-500 text-[10px]">UP</span>
@@ -204,23 +360,253 @@ export const ResultsScreen: React.FC<ResultsScreenProps> = ({ stats, onRestart,
                     <p className="text-white text-lg font-medium leading-snug whitespace-pre-wrap">
                         {analysis.recommendation}
                     </p>
+                    <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+                        <span className={`px-2 py-0.5 rounded border font-bold ${CONFIDENCE_LABELS[analysis.confidence].className}`}>
+                            {CONFIDENCE_LABELS[analysis.confidence].label}
+                        </span>
+                        {analysis.evidence && <span className="text-zinc-400 font-mono">{analysis.evidence}</span>}
+                    </div>
+
+                    {analysis.findings.length > 1 && (
+                        <ul className="mt-3 space-y-1 text-xs text-zinc-300 list-disc list-inside">
+                            {analysis.findings.slice(1).map(f => (
+                                <li key={f.kind}>
+                                    {f.text.split('\n')[0]} <span className="text-zinc-500 font-mono">({CONFIDENCE_LABELS[f.confidence].label.toLowerCase()}, {f.evidence})</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {poolOptions.length > 1 && (
+                        <div className="flex items-center gap-2 mt-4 text-xs">
+                            <span className="text-zinc-400">{analysis.enoughData ? 'Analyze:' : 'Pool recent sessions:'}</span>
+                            {poolOptions.map(n => (
+                                <button
+                                    key={n}
+                                    onClick={() => setPoolSize(n)}
+                                    className={`px-2 py-1 rounded border font-mono transition-all ${
+                                        poolSize === n ? 'bg-indigo-500/30 border-indigo-400 text-white' : 'bg-zinc-900/60 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                                    }`}
+                                >
+                                    {n === 1 ? 'This session' : `Last ${n}`}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
 
-        <div className="flex justify-center gap-4">
+        {flickSummary.flicks.length > 0 && (
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-8">
+            <h3 className="text-lg font-semibold mb-4 text-zinc-300">Flick Analysis</h3>
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+              <div className="lg:col-span-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-zinc-500 text-xs">OVERSHOOTS</p>
+                    <p className={`text-2xl font-mono font-bold ${flickSummary.overshoots > flickSummary.undershoots ? 'text-orange-400' : 'text-zinc-400'}`}>
+                      {flickSummary.overshoots}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-zinc-500 text-xs">UNDERSHOOTS</p>
+                    <p className={`text-2xl font-mono font-bold ${flickSummary.undershoots > flickSummary.overshoots ? 'text-blue-400' : 'text-zinc-400'}`}>
+                      {flickSummary.undershoots}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-zinc-500 text-xs">PRIMARY ERROR</p>
+                    <p className="text-xl font-mono text-white">
+                      {flickSummary.meanPrimaryError! > 0 ? '+' : ''}{flickSummary.meanPrimaryError!.toFixed(1)}%
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-zinc-500 text-xs">CORRECTION</p>
+                    <p className="text-xl font-mono text-white">{Math.round(flickSummary.meanCorrectionTime!)}ms</p>
+                  </div>
+                </div>
+                <p className="text-xs text-zinc-500">
+                  Primary error is where the fast, ballistic part of each flick stopped, relative to the flick distance.
+                  Select flicks to plot their paths.
+                </p>
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-auto">
+                  {flickSummary.flicks.map((f, idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => toggleFlick(idx)}
+                      title={`${f.amplitude.toFixed(1)}° flick, ${f.primaryError > 0 ? '+' : ''}${f.primaryError.toFixed(2)}° primary error`}
+                      className={`w-8 h-6 text-[10px] font-mono rounded border ${
+                        selectedFlicks.includes(idx) ? 'border-white text-white' : 'border-zinc-700 text-zinc-500'
+                      } ${flickOutcome(f) === 'overshoot' ? 'bg-orange-900/40' : flickOutcome(f) === 'undershoot' ? 'bg-blue-900/40' : 'bg-zinc-900'}`}
+                    >
+                      {idx + 1}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="lg:col-span-8 h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                    <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="x" domain={[-0.1, 'auto']} stroke="#71717a" fontSize={12} tickFormatter={(v: number) => `${Math.round(v * 100)}%`} />
+                    <YAxis type="number" dataKey="y" domain={[-0.5, 0.5]} stroke="#71717a" fontSize={12} tickFormatter={(v: number) => `${Math.round(v * 100)}%`} />
+                    <ZAxis range={[12, 12]} />
+                    <Tooltip
+                      contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}}
+                      formatter={(value: any, name: any) => [`${(value * 100).toFixed(1)}%`, name === 'x' ? 'Toward target' : 'Off line']}
+                    />
+                    <ReferenceLine x={1} stroke="#34d399" strokeDasharray="4 4" label={{ value: 'target', fill: '#34d399', fontSize: 10, position: 'top' }} />
+                    <ReferenceLine y={0} stroke="#3f3f46" />
+                    {selectedFlicks.filter(idx => idx < flickSummary.flicks.length).map(idx => {
+                      const flick = flickSummary.flicks[idx];
+                      const color = FLICK_COLORS[idx % FLICK_COLORS.length];
+                      const points = flick.path.map(p => ({ x: p.along / flick.amplitude, y: p.across / flick.amplitude }));
+                      return (
+                        <React.Fragment key={idx}>
+                          <Scatter name={`Flick ${idx + 1}`} data={points.slice(0, flick.ballisticEndIndex + 1)} fill={color} line={{ stroke: color, strokeWidth: 2 }} isAnimationActive={false} />
+                          <Scatter name={`Flick ${idx + 1} correction`} data={points.slice(flick.ballisticEndIndex)} fill={color} fillOpacity={0.4} line={{ stroke: color, strokeDasharray: '3 3' }} isAnimationActive={false} />
+                        </React.Fragment>
+                      );
+                    })}
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {stats.adaptive && finalDifficulty && (
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-8">
+            <div className="flex justify-between items-baseline mb-2">
+              <h3 className="text-lg font-semibold text-zinc-300">Difficulty Curve</h3>
+              <p className="text-sm text-zinc-500">
+                Final: size <span className="font-mono font-bold text-violet-400">×{finalDifficulty.radiusScale.toFixed(2)}</span>
+                {' '}· speed <span className="font-mono font-bold text-violet-400">×{finalDifficulty.speedScale.toFixed(2)}</span>
+                {' '}· spread <span className="font-mono font-bold text-violet-400">×{finalDifficulty.spreadScale.toFixed(2)}</span>
+              </p>
+            </div>
+            <div className="w-full h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={difficultyCurve} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                  <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                  <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} stroke="#71717a" fontSize={12} unit="s" />
+                  <YAxis yAxisId="level" domain={[-1, 1]} stroke="#a78bfa" fontSize={12} />
+                  <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} stroke="#71717a" fontSize={12} unit="%" />
+                  <Tooltip
+                    contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}}
+                    formatter={(value: any, name: any) => name === 'level' ? [value.toFixed(2), 'Difficulty'] : [`${value.toFixed(1)}%`, 'Success rate']}
+                    labelFormatter={(label: any) => `${label}s`}
+                  />
+                  <ReferenceLine yAxisId="rate" y={stats.adaptive.successRate} stroke="#34d399" strokeDasharray="4 4" label={{ value: 'goal', fill: '#34d399', fontSize: 10, position: 'right' }} />
+                  <Line yAxisId="rate" type="monotone" dataKey="successRate" stroke="#71717a" dot={false} strokeWidth={1} connectNulls isAnimationActive={false} />
+                  <Line yAxisId="level" type="stepAfter" dataKey="level" stroke="#a78bfa" dot={false} strokeWidth={2} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-zinc-500 mt-2">
+              0 is the scenario as authored; 1 halves target size and doubles speed, -1 the reverse.
+            </p>
+          </div>
+        )}
+
+        {stats.trackingSamples && (
+          <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-8">
+            <div className="flex justify-between items-baseline mb-2">
+              <h3 className="text-lg font-semibold text-zinc-300">Tracking Error</h3>
+              <p className="text-sm text-zinc-500">
+                Time on target:{' '}
+                <span className="font-mono font-bold text-blue-400">
+                  {(stats.avgTimeOnTarget ?? 0).toFixed(1)}%
+                </span>
+              </p>
+            </div>
+            {trackingCurve.length > 0 ? (
+              <div className="w-full h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trackingCurve} margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+                    <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                    <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} stroke="#71717a" fontSize={12} unit="s" />
+                    <YAxis stroke="#71717a" fontSize={12} />
+                    <Tooltip
+                      contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}}
+                      formatter={(value: any) => [value.toFixed(2), 'Offset']}
+                      labelFormatter={(label: any) => `${label}s`}
+                    />
+                    <Line type="monotone" dataKey="error" stroke="#60a5fa" dot={false} strokeWidth={2} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-zinc-500 text-sm">Hold the mouse button on the target to record tracking data.</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-4">
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+            >
+              Back to Report
+            </button>
+          )}
           <button
             onClick={onMenu}
             className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
           >
             Main Menu
           </button>
+          {onLeaderboard && (
+            <button
+              onClick={onLeaderboard}
+              title="Rankings for this scenario and seed"
+              className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+            >
+              Leaderboard
+            </button>
+          )}
+          <button
+            onClick={() => exportSessionFile(stats)}
+            title="Full session with every shot, for re-import or your own analysis"
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Export JSON
+          </button>
           <button
-            onClick={onRestart}
-            className="px-8 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all shadow-lg shadow-emerald-900/20"
+            onClick={() => exportSessionsCsv([stats])}
+            title="One row per shot, for spreadsheets"
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
           >
-            Play Again
+            Export CSV
           </button>
+          {onReplaySeed && (
+            <button
+              onClick={onReplaySeed}
+              title="Play the exact same target sequence again"
+              className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+            >
+              Replay Seed
+            </button>
+          )}
+          {replayable && (
+            <button
+              onClick={() => onWatchReplay()}
+              className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+            >
+              Watch Replay
+            </button>
+          )}
+          {onRestart && (
+            <button
+              onClick={onRestart}
+              className="px-8 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all shadow-lg shadow-emerald-900/20"
+            >
+              Play Again
+            </button>
+          )}
         </div>
       </div>
     </div>
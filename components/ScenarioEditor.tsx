@@ -0,0 +1,429 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HitboxShape, MovementPattern, RespawnRule, ScenarioDefinition, ScoringMode, TargetEntity, Vec3 } from '../types';
+import { TargetMesh } from './TargetMesh';
+import { BUILT_IN_SCENARIOS, DEFAULT_HUMANOID } from '../services/scenarioRegistry';
+import { advanceTarget, createTarget } from '../services/targetFactory';
+import { AXIS_PATTERNS, movementParams } from '../services/movementModels';
+import {
+  deleteCustomScenario,
+  exportScenarioFile,
+  loadCustomScenarios,
+  newScenarioId,
+  parseScenarioFile,
+  saveCustomScenario,
+  validateScenario,
+} from '../services/customScenarioService';
+
+interface ScenarioEditorProps {
+  onMenu: () => void;
+  onPlay: (definition: ScenarioDefinition) => void;
+}
+
+const PREVIEW_RESPAWN_INTERVAL = 1.2; // Seconds between preview respawns
+
+const blankScenario = (): ScenarioDefinition => ({
+  ...BUILT_IN_SCENARIOS[0],
+  id: newScenarioId(),
+  name: 'New Scenario',
+  description: 'Custom drill.',
+  icon: '🧪',
+  accent: 'amber',
+});
+
+// -----------------------------------------------------------------------------
+// Helper: Form Inputs
+// -----------------------------------------------------------------------------
+const inputClass = 'w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 font-mono text-white text-sm';
+const labelClass = 'block text-[10px] font-bold text-zinc-400 mb-1 uppercase tracking-wider';
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, step = 0.1, onChange }) => (
+  <div>
+    <label className={labelClass}>{label}</label>
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(parsed);
+      }}
+      className={inputClass}
+    />
+  </div>
+);
+
+interface Vec3FieldProps {
+  label: string;
+  value: Vec3;
+  onChange: (value: Vec3) => void;
+}
+
+const Vec3Field: React.FC<Vec3FieldProps> = ({ label, value, onChange }) => (
+  <div className="grid grid-cols-3 gap-2">
+    {(['X', 'Y', 'Z'] as const).map((axis, i) => (
+      <NumberField
+        key={axis}
+        label={`${label} ${axis}`}
+        value={value[i]}
+        onChange={(n) => {
+          const next: Vec3 = [...value];
+          next[i] = n;
+          onChange(next);
+        }}
+      />
+    ))}
+  </div>
+);
+
+// -----------------------------------------------------------------------------
+// Helper: Live Preview (Inside Canvas)
+// -----------------------------------------------------------------------------
+const ScenarioPreview = ({ definition }: { definition: ScenarioDefinition }) => {
+  const [targets, setTargets] = useState<TargetEntity[]>([]);
+  const respawnClock = useRef(0);
+
+  // Restart the preview whenever the draft changes
+  useEffect(() => {
+    const initial: TargetEntity[] = [];
+    for (let i = 0; i < definition.targetCount; i++) {
+      initial.push(createTarget(definition, Math.random, definition.initialPositions?.[i]));
+    }
+    setTargets(initial);
+    respawnClock.current = 0;
+  }, [definition]);
+
+  useFrame((state, delta) => {
+    // Cycle the oldest target so the spawn spread is visible
+    respawnClock.current += delta;
+    const cycle = definition.respawn === RespawnRule.REPLACE_ON_KILL && respawnClock.current > PREVIEW_RESPAWN_INTERVAL;
+    if (cycle) respawnClock.current = 0;
+
+    if (!cycle && definition.movement.pattern === MovementPattern.STATIC) return;
+    setTargets(prev => {
+      const moved = prev.map(t => advanceTarget(t, definition.movement, delta));
+      return cycle ? [...moved.slice(1), createTarget(definition, Math.random)] : moved;
+    });
+  });
+
+  const { min, max } = definition.spawnBounds;
+  const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const size: Vec3 = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+
+  return (
+    <>
+      <ambientLight intensity={0.5} />
+      <pointLight position={[10, 10, 10]} intensity={1} />
+      <gridHelper args={[100, 100, 0x444444, 0x222222]} position={[0, -2, 0]} />
+
+      {/* Spawn Volume */}
+      <mesh position={center}>
+        <boxGeometry args={size} />
+        <meshBasicMaterial color="#f59e0b" wireframe transparent opacity={0.35} />
+      </mesh>
+
+      {targets.map(t => (
+        <TargetMesh key={t.id} target={t} hitbox={definition.hitbox} />
+      ))}
+    </>
+  );
+};
+
+// -----------------------------------------------------------------------------
+// Editor Screen
+// -----------------------------------------------------------------------------
+export const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ onMenu, onPlay }) => {
+  const [saved, setSaved] = useState<ScenarioDefinition[]>(() => loadCustomScenarios());
+  const [draft, setDraft] = useState<ScenarioDefinition>(blankScenario);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const errors = useMemo(() => validateScenario(draft), [draft]);
+  const isValid = errors.length === 0;
+
+  const update = (patch: Partial<ScenarioDefinition>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateMovement = (patch: Partial<ScenarioDefinition['movement']>) =>
+    setDraft(prev => ({ ...prev, movement: { ...prev.movement, ...patch } }));
+  const { pattern } = draft.movement;
+  const params = movementParams(draft.movement);
+  const alongAxis = AXIS_PATTERNS.includes(pattern);
+  const updateHitbox = (patch: Partial<NonNullable<ScenarioDefinition['hitbox']>>) =>
+    setDraft(prev => ({ ...prev, hitbox: { ...(prev.hitbox ?? DEFAULT_HUMANOID), ...patch } }));
+
+  const handleSave = () => {
+    if (!isValid) return;
+    saveCustomScenario(draft);
+    setSaved(loadCustomScenarios());
+  };
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm('Delete this scenario?')) return;
+    deleteCustomScenario(id);
+    setSaved(loadCustomScenarios());
+    if (draft.id === id) setDraft(blankScenario());
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseScenarioFile(await file.text());
+    if ('errors' in result) {
+      setImportErrors([`${file.name}:`, ...result.errors]);
+      return;
+    }
+    setImportErrors([]);
+    saveCustomScenario(result.scenario);
+    setSaved(loadCustomScenarios());
+    setDraft(result.scenario);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto text-white">
+      <div className="max-w-7xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-amber-400 to-orange-500">
+          Scenario Editor
+        </h2>
+
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 mb-8">
+          {/* Saved Scenarios */}
+          <div className="lg:col-span-3 bg-zinc-950 p-4 rounded-lg border border-zinc-800 flex flex-col gap-2">
+            <h3 className="text-lg font-semibold text-zinc-300">My Scenarios</h3>
+            <button
+              onClick={() => setDraft(blankScenario())}
+              className="py-2 rounded text-sm font-bold text-black bg-amber-400 hover:bg-amber-300 transition-all"
+            >
+              + New
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="py-2 rounded text-sm font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all"
+            >
+              Import JSON…
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+
+            {importErrors.length > 0 && (
+              <div className="text-xs text-red-400 bg-red-950/40 border border-red-900 rounded p-2 space-y-1">
+                {importErrors.map((err, i) => <p key={i}>{err}</p>)}
+              </div>
+            )}
+
+            <div className="flex flex-col gap-1 mt-2">
+              {saved.length === 0 && <p className="text-xs text-zinc-500">Nothing saved yet.</p>}
+              {saved.map(def => (
+                <div
+                  key={def.id}
+                  className={`flex items-center gap-2 p-2 rounded border text-sm ${
+                    def.id === draft.id ? 'border-amber-500/60 bg-zinc-900' : 'border-zinc-800'
+                  }`}
+                >
+                  <button onClick={() => setDraft(def)} className="flex-1 text-left truncate">
+                    {def.icon} {def.name}
+                  </button>
+                  <button onClick={() => exportScenarioFile(def)} className="text-zinc-400 hover:text-white text-xs">
+                    Export
+                  </button>
+                  <button onClick={() => handleDelete(def.id)} className="text-red-400 hover:text-red-300 text-xs">
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Form */}
+          <div className="lg:col-span-4 bg-zinc-950 p-4 rounded-lg border border-zinc-800 space-y-3">
+            <div className="grid grid-cols-4 gap-2">
+              <div className="col-span-3">
+                <label className={labelClass}>Name</label>
+                <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Icon</label>
+                <input value={draft.icon} onChange={(e) => update({ icon: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Duration (s)" step={5} value={draft.duration} onChange={(duration) => update({ duration })} />
+              <NumberField label="Targets at once" step={1} value={draft.targetCount} onChange={(targetCount) => update({ targetCount })} />
+              <NumberField label="Radius min" step={0.05} value={draft.radius.min} onChange={(min) => update({ radius: { ...draft.radius, min } })} />
+              <NumberField label="Radius max" step={0.05} value={draft.radius.max} onChange={(max) => update({ radius: { ...draft.radius, max } })} />
+            </div>
+
+            <Vec3Field label="Spawn min" value={draft.spawnBounds.min} onChange={(min) => update({ spawnBounds: { ...draft.spawnBounds, min } })} />
+            <Vec3Field label="Spawn max" value={draft.spawnBounds.max} onChange={(max) => update({ spawnBounds: { ...draft.spawnBounds, max } })} />
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Movement</label>
+                <select
+                  value={draft.movement.pattern}
+                  onChange={(e) => updateMovement({ pattern: e.target.value as MovementPattern })}
+                  className={inputClass}
+                >
+                  {Object.values(MovementPattern).map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>{alongAxis || pattern === MovementPattern.STATIC ? 'Axis' : 'Plane normal'}</label>
+                <select
+                  value={draft.movement.axis}
+                  onChange={(e) => updateMovement({ axis: e.target.value as ScenarioDefinition['movement']['axis'] })}
+                  className={inputClass}
+                  disabled={draft.movement.pattern === MovementPattern.STATIC}
+                >
+                  {['x', 'y', 'z'].map(a => <option key={a} value={a}>{a.toUpperCase()}</option>)}
+                </select>
+              </div>
+              {draft.movement.pattern !== MovementPattern.STATIC && (
+                <>
+                  <NumberField label="Speed min" value={draft.movement.speed.min} onChange={(min) => updateMovement({ speed: { ...draft.movement.speed, min } })} />
+                  <NumberField label="Speed max" value={draft.movement.speed.max} onChange={(max) => updateMovement({ speed: { ...draft.movement.speed, max } })} />
+                </>
+              )}
+              {alongAxis && (
+                <>
+                  <NumberField label="Travel min" step={0.5} value={draft.movement.travel.min} onChange={(min) => updateMovement({ travel: { ...draft.movement.travel, min } })} />
+                  <NumberField label="Travel max" step={0.5} value={draft.movement.travel.max} onChange={(max) => updateMovement({ travel: { ...draft.movement.travel, max } })} />
+                </>
+              )}
+              {(pattern === MovementPattern.STRAFE || pattern === MovementPattern.ADAD) && (
+                <NumberField label="Acceleration" step={5} value={params.acceleration} onChange={(acceleration) => updateMovement({ acceleration })} />
+              )}
+              {(pattern === MovementPattern.CIRCULAR || pattern === MovementPattern.NOISE) && (
+                <NumberField
+                  label={pattern === MovementPattern.CIRCULAR ? 'Path radius' : 'Wander radius'}
+                  step={0.5}
+                  value={params.pathRadius}
+                  onChange={(pathRadius) => updateMovement({ pathRadius })}
+                />
+              )}
+              {pattern === MovementPattern.NOISE && (
+                <NumberField label="Smoothing (s)" step={0.05} value={params.smoothing} onChange={(smoothing) => updateMovement({ smoothing })} />
+              )}
+              {(pattern === MovementPattern.STRAFE || pattern === MovementPattern.ADAD || pattern === MovementPattern.NOISE) && (
+                <>
+                  <NumberField label="Change every min (s)" step={0.05} value={params.changeInterval.min} onChange={(min) => updateMovement({ changeInterval: { ...params.changeInterval, min } })} />
+                  <NumberField label="Change every max (s)" step={0.05} value={params.changeInterval.max} onChange={(max) => updateMovement({ changeInterval: { ...params.changeInterval, max } })} />
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className={labelClass}>Scoring</label>
+                <select value={draft.scoring} onChange={(e) => update({ scoring: e.target.value as ScoringMode })} className={inputClass}>
+                  {Object.values(ScoringMode).map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Respawn</label>
+                <select value={draft.respawn} onChange={(e) => update({ respawn: e.target.value as RespawnRule })} className={inputClass}>
+                  {Object.values(RespawnRule).map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </div>
+              <NumberField label="Delay (s)" value={draft.respawnDelay} onChange={(respawnDelay) => update({ respawnDelay })} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className={labelClass}>Hitbox</label>
+                <select
+                  value={draft.hitbox?.shape ?? HitboxShape.SPHERE}
+                  onChange={(e) => update({ hitbox: e.target.value === HitboxShape.HUMANOID ? DEFAULT_HUMANOID : undefined })}
+                  className={inputClass}
+                >
+                  {Object.values(HitboxShape).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+              {draft.hitbox && (
+                <>
+                  <NumberField label="Head score" step={1} value={draft.hitbox.headScore} onChange={(headScore) => updateHitbox({ headScore })} />
+                  <label className="flex items-end gap-2 pb-2 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={draft.hitbox.headLine}
+                      onChange={(e) => updateHitbox({ headLine: e.target.checked })}
+                      className="accent-emerald-500"
+                    />
+                    Head-height line
+                  </label>
+                  <NumberField label="Body height (r)" step={0.2} value={draft.hitbox.bodyHeight} onChange={(bodyHeight) => updateHitbox({ bodyHeight })} />
+                  <NumberField label="Head radius (r)" step={0.05} value={draft.hitbox.headRadius} onChange={(headRadius) => updateHitbox({ headRadius })} />
+                  <NumberField label="Neck gap (r)" step={0.05} value={draft.hitbox.neckGap} onChange={(neckGap) => updateHitbox({ neckGap })} />
+                </>
+              )}
+            </div>
+
+            {!isValid && (
+              <div className="text-xs text-red-400 space-y-1">
+                {errors.map((err, i) => <p key={i}>• {err}</p>)}
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="lg:col-span-5 bg-zinc-950 p-4 rounded-lg border border-zinc-800 flex flex-col">
+            <h3 className="text-lg font-semibold mb-2 text-zinc-300">Preview</h3>
+            <div className="flex-1 min-h-80 relative rounded border border-zinc-800 overflow-hidden bg-black">
+              <div className="crosshair"></div>
+              <Canvas
+                camera={{ fov: 75, position: [0, 0, 0] }}
+                gl={{ toneMapping: THREE.ACESFilmicToneMapping }}
+              >
+                {isValid && <ScenarioPreview definition={draft} />}
+              </Canvas>
+            </div>
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={handleSave}
+                disabled={!isValid}
+                className="flex-1 py-2 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all disabled:opacity-40"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => exportScenarioFile(draft)}
+                disabled={!isValid}
+                className="flex-1 py-2 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 transition-all disabled:opacity-40"
+              >
+                Export
+              </button>
+              <button
+                onClick={() => onPlay(draft)}
+                disabled={!isValid}
+                className="flex-1 py-2 rounded-lg font-bold text-black bg-amber-400 hover:bg-amber-300 transition-all disabled:opacity-40"
+              >
+                Play
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Main Menu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { AudioSettings, SessionResult, TargetGame, VisualSettings } from '../types';
+import { ScatterChart, Scatter, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea, CartesianGrid } from 'recharts';
+import { Game3D } from './Game3D';
+import {
+  CALIBRATION_SCENARIO,
+  CalibrationRound,
+  DEFAULT_ROUND_COUNT,
+  nextSensitivity,
+  recommendSensitivity,
+  scoreRound,
+} from '../services/calibrationService';
+import { GAME_PROFILES, trainerCmPer360, trainerToGameSensitivity } from '../services/sensitivityService';
+import { randomSeed } from '../services/random';
+
+interface SensitivityMatcherProps {
+  sensitivity: number;
+  dpi: number;
+  targetGame: TargetGame;
+  visuals: VisualSettings;
+  audio: AudioSettings;
+  onApply: (sensitivity: number) => void;
+  onMenu: () => void;
+}
+
+type Phase = 'intro' | 'playing' | 'between' | 'done';
+
+export const SensitivityMatcher: React.FC<SensitivityMatcherProps> = ({ sensitivity, dpi, targetGame, visuals, audio, onApply, onMenu }) => {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [rounds, setRounds] = useState<CalibrationRound[]>([]);
+  const [roundCount, setRoundCount] = useState(DEFAULT_ROUND_COUNT);
+  // One target sequence for every round, so only the sensitivity changes
+  const [seed] = useState(randomSeed);
+
+  const currentSensitivity = useMemo(() => nextSensitivity(rounds, sensitivity), [rounds, sensitivity]);
+  const recommendation = useMemo(() => phase === 'done' ? recommendSensitivity(rounds) : null, [phase, rounds]);
+  const profile = GAME_PROFILES[targetGame];
+
+  const describe = (s: number) =>
+    `${s.toFixed(2)} (${profile.label} ${trainerToGameSensitivity(s, targetGame).toFixed(3)}, ${trainerCmPer360(s, dpi).toFixed(1)} cm/360)`;
+
+  const handleRoundFinish = (result: SessionResult) => {
+    document.exitPointerLock();
+    const next = [...rounds, scoreRound(currentSensitivity, result, result.duration)];
+    setRounds(next);
+    setPhase(next.length >= roundCount ? 'done' : 'between');
+  };
+
+  if (phase === 'playing') {
+    return (
+      <Game3D
+        key={rounds.length}
+        scenario={CALIBRATION_SCENARIO}
+        sensitivity={currentSensitivity}
+        seed={seed}
+        visuals={visuals}
+        audio={audio}
+        onFinish={handleRoundFinish}
+      />
+    );
+  }
+
+  const chartData = rounds.map(r => ({ sensitivity: r.sensitivity, performance: Number(r.performance.toFixed(3)) }));
+  const lastRound = rounds[rounds.length - 1];
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center justify-center p-8 overflow-auto text-white">
+      <div className="max-w-4xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+          Sensitivity Matcher
+        </h2>
+
+        {phase === 'intro' && (
+          <div className="space-y-6 text-center">
+            <p className="text-zinc-400">
+              You will play {roundCount} rounds of {CALIBRATION_SCENARIO.duration}s against strafing targets.
+              Each round uses a different sensitivity around your current {describe(sensitivity)}.
+              Play every round the same way: fast and accurate.
+            </p>
+            <div className="flex items-center justify-center gap-4">
+              <label className="text-sm font-bold text-zinc-300">ROUNDS</label>
+              <input
+                type="range"
+                min="4"
+                max="12"
+                step="1"
+                value={roundCount}
+                onChange={(e) => setRoundCount(parseInt(e.target.value, 10))}
+                className="w-48 h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+              />
+              <span className="font-mono bg-zinc-800 px-3 py-1 rounded text-cyan-400">{roundCount}</span>
+            </div>
+          </div>
+        )}
+
+        {phase === 'between' && lastRound && (
+          <div className="space-y-4 text-center">
+            <p className="text-zinc-500 text-xs uppercase tracking-wider">Round {rounds.length} of {roundCount} complete</p>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+                <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Accuracy</p>
+                <p className="text-2xl font-mono font-bold">{(lastRound.accuracy * 100).toFixed(1)}%</p>
+              </div>
+              <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+                <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Time to Kill</p>
+                <p className="text-2xl font-mono font-bold">
+                  {Number.isFinite(lastRound.timeToKill) ? `${lastRound.timeToKill.toFixed(2)}s` : '—'}
+                </p>
+              </div>
+              <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+                <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">Over/Under</p>
+                <p className="text-2xl font-mono font-bold">{lastRound.overshootRatio > 0 ? '+' : ''}{lastRound.overshootRatio.toFixed(2)}</p>
+              </div>
+            </div>
+            <p className="text-zinc-400">Next round: {describe(currentSensitivity)}</p>
+          </div>
+        )}
+
+        {phase === 'done' && recommendation && (
+          <div className="space-y-6">
+            <div className="bg-gradient-to-br from-indigo-900/40 to-purple-900/40 p-6 rounded-lg border border-indigo-500/30 text-center">
+              <h3 className="text-indigo-300 font-bold mb-2 uppercase text-sm tracking-widest">Recommended Sensitivity</h3>
+              <p className="text-4xl font-mono font-bold text-white">{recommendation.sensitivity.toFixed(2)}</p>
+              <p className="text-zinc-300 mt-2">
+                {profile.label} {trainerToGameSensitivity(recommendation.sensitivity, targetGame).toFixed(3)}
+                {' · '}{trainerCmPer360(recommendation.sensitivity, dpi).toFixed(1)} cm/360 at {dpi} DPI
+              </p>
+              <p className="text-zinc-400 text-sm mt-1">
+                95% interval: {recommendation.low.toFixed(2)} – {recommendation.high.toFixed(2)}
+                {' '}({trainerCmPer360(recommendation.high, dpi).toFixed(1)} – {trainerCmPer360(recommendation.low, dpi).toFixed(1)} cm/360)
+              </p>
+              {recommendation.method === 'best-round' && (
+                <p className="text-amber-400 text-xs mt-2">
+                  No clear peak in your results; this is your best round. Run the matcher again for a tighter estimate.
+                </p>
+              )}
+            </div>
+
+            <div className="w-full h-64 bg-zinc-950 rounded-lg border border-zinc-800 p-2">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                  <CartesianGrid stroke="#27272a" strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey="sensitivity" name="Sensitivity" domain={['dataMin - 0.1', 'dataMax + 0.1']} stroke="#71717a" fontSize={12} tickFormatter={(v: number) => v.toFixed(2)} />
+                  <YAxis type="number" dataKey="performance" name="Performance" stroke="#71717a" fontSize={12} />
+                  <Tooltip contentStyle={{backgroundColor: '#18181b', borderColor: '#27272a', color: '#fff'}} />
+                  <ReferenceArea x1={recommendation.low} x2={recommendation.high} fill="#6366f1" fillOpacity={0.15} />
+                  <ReferenceLine x={recommendation.sensitivity} stroke="#a78bfa" strokeDasharray="4 4" />
+                  <Scatter data={chartData} fill="#22d3ee" />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+
+            <table className="w-full text-sm font-mono">
+              <thead className="text-zinc-500 text-xs text-left">
+                <tr>
+                  <th className="pb-2">SENS</th>
+                  <th className="pb-2">ACCURACY</th>
+                  <th className="pb-2">TTK</th>
+                  <th className="pb-2">OVER/UNDER</th>
+                  <th className="pb-2">SCORE</th>
+                </tr>
+              </thead>
+              <tbody className="text-zinc-300">
+                {[...rounds].sort((a, b) => a.sensitivity - b.sensitivity).map((r, i) => (
+                  <tr key={i} className="border-t border-zinc-800">
+                    <td className="py-1">{r.sensitivity.toFixed(2)}</td>
+                    <td className="py-1">{(r.accuracy * 100).toFixed(1)}%</td>
+                    <td className="py-1">{Number.isFinite(r.timeToKill) ? `${r.timeToKill.toFixed(2)}s` : '—'}</td>
+                    <td className="py-1">{r.overshootRatio > 0 ? '+' : ''}{r.overshootRatio.toFixed(2)}</td>
+                    <td className="py-1 text-cyan-400">{r.performance.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-center gap-4 mt-8">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            {phase === 'done' ? 'Main Menu' : 'Cancel'}
+          </button>
+          {phase !== 'done' && (
+            <button
+              onClick={() => setPhase('playing')}
+              className="px-8 py-3 rounded-lg font-bold text-black bg-cyan-400 hover:bg-cyan-300 transition-all"
+            >
+              {phase === 'intro' ? 'Start Round 1' : `Start Round ${rounds.length + 1}`}
+            </button>
+          )}
+          {phase === 'done' && recommendation && (
+            <button
+              onClick={() => onApply(recommendation.sensitivity)}
+              className="px-8 py-3 rounded-lg font-bold text-black bg-emerald-400 hover:bg-emerald-300 transition-all"
+            >
+              Apply {recommendation.sensitivity.toFixed(2)}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
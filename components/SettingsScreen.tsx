@@ -0,0 +1,408 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioSettings, CrosshairSettings, CrosshairStyle, DeadzoneShape, FovScaling, GamepadSettings, HitEffect, InputDevice, InputSettings, MissEffect, StickCurve, TargetGame, VisualSettings } from '../types';
+import { Crosshair, CrosshairFlash } from './Crosshair';
+import { FOV_SCALING_LABELS, GAME_FOV_PROFILES, toHorizontalFov, toVerticalFov } from '../services/fovService';
+import { GAME_PROFILES } from '../services/sensitivityService';
+import { DEFAULT_AUDIO, DEFAULT_INPUT, DEFAULT_VISUALS } from '../services/settingsService';
+import { applyCurve, readGamepad, shapeStick } from '../services/gamepadService';
+import { SoundPlayer, createSoundPlayer } from '../services/audioService';
+
+interface SettingsScreenProps {
+  visuals: VisualSettings;
+  audio: AudioSettings;
+  input: InputSettings;
+  targetGame: TargetGame;
+  onChange: (visuals: VisualSettings) => void;
+  onAudioChange: (audio: AudioSettings) => void;
+  onInputChange: (input: InputSettings) => void;
+  onMenu: () => void;
+}
+
+const HIT_EFFECT_LABELS: Record<HitEffect, string> = {
+  [HitEffect.NONE]: 'None',
+  [HitEffect.BURST]: 'Burst',
+  [HitEffect.HITMARKER]: 'Hitmarker',
+};
+
+const MISS_EFFECT_LABELS: Record<MissEffect, string> = {
+  [MissEffect.NONE]: 'None',
+  [MissEffect.MARKER]: 'Impact marker',
+  [MissEffect.FLASH]: 'Crosshair flash',
+};
+
+const CROSSHAIR_STYLE_LABELS: Record<CrosshairStyle, string> = {
+  [CrosshairStyle.CROSS]: 'Cross',
+  [CrosshairStyle.T_SHAPE]: 'T',
+  [CrosshairStyle.CIRCLE]: 'Circle',
+  [CrosshairStyle.DOT]: 'Dot',
+};
+
+const INPUT_DEVICE_LABELS: Record<InputDevice, string> = {
+  [InputDevice.MOUSE]: 'Mouse',
+  [InputDevice.GAMEPAD]: 'Gamepad',
+};
+
+const STICK_CURVE_LABELS: Record<StickCurve, string> = {
+  [StickCurve.LINEAR]: 'Linear',
+  [StickCurve.EXPONENTIAL]: 'Exponential',
+  [StickCurve.S_CURVE]: 'S-curve',
+};
+
+const DEADZONE_SHAPE_LABELS: Record<DeadzoneShape, string> = {
+  [DeadzoneShape.RADIAL]: 'Radial',
+  [DeadzoneShape.AXIAL]: 'Axial',
+};
+
+// Each cue can be switched off on its own; all of them tell the player something
+const SOUND_CUES: { key: 'hitSound' | 'missSound' | 'killSound' | 'spawnSound'; label: string }[] = [
+  { key: 'hitSound', label: 'Hit' },
+  { key: 'missSound', label: 'Miss' },
+  { key: 'killSound', label: 'Kill confirmation' },
+  { key: 'spawnSound', label: 'Spawn (positional; reveals off-screen targets)' },
+];
+
+// Live right stick: raw position (grey) and what the game turns with (green), plus the response curve
+const StickPreview: React.FC<{ settings: GamepadSettings }> = ({ settings }) => {
+  const [stick, setStick] = useState<[number, number] | null>(null);
+  useEffect(() => {
+    let frame = 0;
+    const poll = () => {
+      setStick(readGamepad()?.stick ?? null);
+      frame = requestAnimationFrame(poll);
+    };
+    poll();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const shaped = stick ? shapeStick(stick, settings) : null;
+  const toPercent = (v: number) => `${50 + v * 50}%`;
+  const curve = Array.from({ length: 41 }, (_, i) => {
+    const x = i / 40;
+    const deflection = Math.min(Math.max((x - settings.innerDeadzone) / Math.max(settings.outerDeadzone - settings.innerDeadzone, 1e-6), 0), 1);
+    return `${x * 100},${100 - applyCurve(deflection, settings) * 100}`;
+  }).join(' ');
+
+  return (
+    <div className="flex gap-4">
+      <div className="relative w-32 h-32 rounded-full border border-zinc-700 bg-zinc-900" title="Right stick">
+        <div
+          className="absolute rounded-full border border-dashed border-zinc-600"
+          style={{ inset: `${(1 - settings.innerDeadzone) * 50}%` }}
+        />
+        {stick && <div className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full bg-zinc-500" style={{ left: toPercent(stick[0]), top: toPercent(stick[1]) }} />}
+        {shaped && <div className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-emerald-400" style={{ left: toPercent(shaped[0]), top: toPercent(shaped[1]) }} />}
+        {!stick && <span className="absolute inset-0 flex items-center justify-center text-xs text-zinc-500 text-center px-4">Press a button on your gamepad</span>}
+      </div>
+      <svg viewBox="0 0 100 100" className="w-32 h-32 bg-zinc-900 border border-zinc-700 rounded" preserveAspectRatio="none">
+        <polyline points="0,100 100,0" fill="none" stroke="#3f3f46" strokeWidth="1" />
+        <polyline points={curve} fill="none" stroke="#34d399" strokeWidth="2" />
+      </svg>
+    </div>
+  );
+};
+
+const SliderRow: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, step, format = v => String(v), onChange }) => (
+  <div className="flex items-center gap-4">
+    <label className="w-28 text-xs font-bold text-zinc-400">{label}</label>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+    />
+    <span className="font-mono bg-zinc-800 px-2 py-0.5 rounded text-emerald-400 text-sm w-20 text-right">{format(value)}</span>
+  </div>
+);
+
+const selectClass = 'bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white text-sm';
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ visuals, audio, input, targetGame, onChange, onAudioChange, onInputChange, onMenu }) => {
+  const [fovGame, setFovGame] = useState<TargetGame>(targetGame);
+  const [previewFlash, setPreviewFlash] = useState<CrosshairFlash | null>(null);
+  const aspect = window.innerWidth / window.innerHeight;
+  const verticalFov = toVerticalFov(visuals.fov, visuals.fovScaling, aspect);
+
+  useEffect(() => {
+    if (!previewFlash) return;
+    const timer = window.setTimeout(() => setPreviewFlash(null), 300);
+    return () => clearTimeout(timer);
+  }, [previewFlash]);
+
+  // Test sounds go through a player of their own
+  const soundRef = useRef<SoundPlayer | null>(null);
+  useEffect(() => () => soundRef.current?.dispose(), []);
+  useEffect(() => soundRef.current?.setSettings(audio), [audio]);
+  const testSound = (play: (sound: SoundPlayer) => void) => {
+    soundRef.current ??= createSoundPlayer(audio);
+    play(soundRef.current);
+  };
+  const updateAudio = (patch: Partial<AudioSettings>) => onAudioChange({ ...audio, ...patch });
+
+  const updateGamepad = (patch: Partial<GamepadSettings>) => onInputChange({ ...input, gamepad: { ...input.gamepad, ...patch } });
+  const { gamepad } = input;
+
+  const update = (patch: Partial<VisualSettings>) => onChange({ ...visuals, ...patch });
+  const updateCrosshair = (patch: Partial<CrosshairSettings>) => update({ crosshair: { ...visuals.crosshair, ...patch } });
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto">
+      <div className="max-w-4xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-emerald-400 to-cyan-500">
+          Settings
+        </h2>
+
+        {/* Field of view */}
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-6 space-y-3">
+          <h3 className="text-lg font-semibold text-zinc-300">Field of View</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={fovGame} onChange={(e) => setFovGame(e.target.value as TargetGame)} className={selectClass}>
+              {Object.values(GAME_PROFILES).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => update({ fov: GAME_FOV_PROFILES[fovGame].fov, fovScaling: GAME_FOV_PROFILES[fovGame].scaling })}
+              className="px-3 py-1 rounded text-xs font-bold bg-emerald-400 text-black hover:bg-emerald-300 transition-all"
+            >
+              Match Game Default
+            </button>
+            <span className="text-xs text-zinc-500">
+              Uses {FOV_SCALING_LABELS[GAME_FOV_PROFILES[fovGame].scaling].toLowerCase()} FOV, {GAME_FOV_PROFILES[fovGame].fov}° by default
+            </span>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="w-28 text-xs font-bold text-zinc-400">MEASURED AS</label>
+            <select value={visuals.fovScaling} onChange={(e) => update({ fovScaling: e.target.value as FovScaling })} className={selectClass}>
+              {Object.values(FovScaling).map(scaling => (
+                <option key={scaling} value={scaling}>{FOV_SCALING_LABELS[scaling]}</option>
+              ))}
+            </select>
+          </div>
+          <SliderRow label="FOV" value={visuals.fov} min={40} max={150} step={1} format={v => `${v}°`} onChange={fov => update({ fov })} />
+          <p className="text-xs text-zinc-500">
+            On this screen:{' '}
+            <span className="font-mono text-emerald-400">{verticalFov.toFixed(1)}° vertical · {toHorizontalFov(verticalFov, aspect).toFixed(1)}° horizontal</span>
+          </p>
+        </div>
+
+        {/* Crosshair */}
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-6">
+          <h3 className="text-lg font-semibold text-zinc-300 mb-3">Crosshair</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="md:col-span-2 space-y-3">
+              <div className="flex items-center gap-2">
+                <label className="w-28 text-xs font-bold text-zinc-400">STYLE</label>
+                {Object.values(CrosshairStyle).map(style => (
+                  <button
+                    key={style}
+                    onClick={() => updateCrosshair({ style })}
+                    className={`px-3 py-1 rounded text-xs font-bold border transition-all ${
+                      visuals.crosshair.style === style
+                        ? 'bg-emerald-400 text-black border-emerald-400'
+                        : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                    }`}
+                  >
+                    {CROSSHAIR_STYLE_LABELS[style]}
+                  </button>
+                ))}
+              </div>
+              <SliderRow label="SIZE" value={visuals.crosshair.size} min={1} max={30} step={1} format={v => `${v}px`} onChange={size => updateCrosshair({ size })} />
+              <SliderRow label="GAP" value={visuals.crosshair.gap} min={0} max={20} step={1} format={v => `${v}px`} onChange={gap => updateCrosshair({ gap })} />
+              <SliderRow label="THICKNESS" value={visuals.crosshair.thickness} min={1} max={10} step={1} format={v => `${v}px`} onChange={thickness => updateCrosshair({ thickness })} />
+              <div className="flex items-center gap-6 text-xs text-zinc-400">
+                <label className="flex items-center gap-2">
+                  <span className="font-bold">COLOR</span>
+                  <input type="color" value={visuals.crosshair.color} onChange={(e) => updateCrosshair({ color: e.target.value })} className="w-8 h-6 bg-transparent cursor-pointer" />
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={visuals.crosshair.outline} onChange={(e) => updateCrosshair({ outline: e.target.checked })} className="accent-emerald-500" />
+                  Outline
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={visuals.crosshair.centerDot} onChange={(e) => updateCrosshair({ centerDot: e.target.checked })} className="accent-emerald-500" />
+                  Center dot
+                </label>
+              </div>
+            </div>
+            <div
+              className="relative h-40 rounded border border-zinc-800 bg-gradient-to-b from-zinc-700 via-zinc-800 to-black overflow-hidden"
+              title="Preview"
+            >
+              <Crosshair settings={visuals.crosshair} flash={previewFlash} />
+            </div>
+          </div>
+        </div>
+
+        {/* Targets and feedback */}
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-6 space-y-3">
+          <h3 className="text-lg font-semibold text-zinc-300">Targets & Feedback</h3>
+          <div className="flex items-center gap-4">
+            <label className="w-28 text-xs font-bold text-zinc-400">COLOR</label>
+            <input type="color" value={visuals.targetColor} onChange={(e) => update({ targetColor: e.target.value })} className="w-8 h-6 bg-transparent cursor-pointer" />
+            <div
+              className="w-6 h-6 rounded-full"
+              style={{ backgroundColor: visuals.targetColor, boxShadow: `0 0 10px ${visuals.targetColor}` }}
+            />
+          </div>
+          <SliderRow
+            label="SIZE SCALE"
+            value={visuals.targetScale}
+            min={0.5}
+            max={2}
+            step={0.05}
+            format={v => `${v.toFixed(2)}×`}
+            onChange={targetScale => update({ targetScale })}
+          />
+          <p className="text-xs text-zinc-500">Size scaling changes the hitbox too, so scores are only comparable at the same scale.</p>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="w-28 text-xs font-bold text-zinc-400">ON HIT</label>
+            <select value={visuals.hitEffect} onChange={(e) => update({ hitEffect: e.target.value as HitEffect })} className={selectClass}>
+              {Object.values(HitEffect).map(effect => <option key={effect} value={effect}>{HIT_EFFECT_LABELS[effect]}</option>)}
+            </select>
+            <label className="text-xs font-bold text-zinc-400">ON MISS</label>
+            <select value={visuals.missEffect} onChange={(e) => update({ missEffect: e.target.value as MissEffect })} className={selectClass}>
+              {Object.values(MissEffect).map(effect => <option key={effect} value={effect}>{MISS_EFFECT_LABELS[effect]}</option>)}
+            </select>
+            <button onClick={() => setPreviewFlash('hit')} className="text-xs text-zinc-400 hover:text-white">Preview hitmarker</button>
+            <button onClick={() => setPreviewFlash('miss')} className="text-xs text-zinc-400 hover:text-white">Preview miss flash</button>
+          </div>
+        </div>
+
+        {/* Audio */}
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-6 space-y-3">
+          <h3 className="text-lg font-semibold text-zinc-300">Audio</h3>
+          <SliderRow
+            label="VOLUME"
+            value={Math.round(audio.volume * 100)}
+            min={0}
+            max={100}
+            step={1}
+            format={v => `${v}%`}
+            onChange={volume => updateAudio({ volume: volume / 100 })}
+          />
+          <div className="flex flex-wrap items-center gap-6 text-xs text-zinc-400">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={audio.muted} onChange={(e) => updateAudio({ muted: e.target.checked })} className="accent-emerald-500" />
+              Mute
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-6 text-xs text-zinc-400">
+            <span className="font-bold">CUES</span>
+            {SOUND_CUES.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={audio[key]}
+                  onChange={(e) => updateAudio({ [key]: e.target.checked })}
+                  className="accent-emerald-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-4 text-xs">
+            <span className="font-bold text-zinc-400">TEST</span>
+            <button onClick={() => testSound(sound => sound.hit())} className="text-zinc-400 hover:text-white">Hit</button>
+            <button onClick={() => testSound(sound => sound.miss())} className="text-zinc-400 hover:text-white">Miss</button>
+            <button onClick={() => testSound(sound => { sound.hit(); sound.kill(); })} className="text-zinc-400 hover:text-white">Kill</button>
+            <button onClick={() => testSound(sound => sound.spawn([-8, 0, 0], { yaw: 0, pitch: 0 }))} className="text-zinc-400 hover:text-white">Spawn (left)</button>
+            <button onClick={() => testSound(sound => sound.spawn([8, 0, 0], { yaw: 0, pitch: 0 }))} className="text-zinc-400 hover:text-white">Spawn (right)</button>
+          </div>
+        </div>
+
+        {/* Input */}
+        <div className="bg-zinc-950 p-4 rounded-lg border border-zinc-800 mb-6 space-y-3">
+          <h3 className="text-lg font-semibold text-zinc-300">Input</h3>
+          <div className="flex items-center gap-2">
+            <label className="w-28 text-xs font-bold text-zinc-400">DEVICE</label>
+            {Object.values(InputDevice).map(device => (
+              <button
+                key={device}
+                onClick={() => onInputChange({ ...input, device })}
+                className={`px-3 py-1 rounded text-xs font-bold border transition-all ${
+                  input.device === device
+                    ? 'bg-emerald-400 text-black border-emerald-400'
+                    : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                }`}
+              >
+                {INPUT_DEVICE_LABELS[device]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">
+            Sessions remember their device, and the analysis only pools sessions played with the same one.
+            {input.device === InputDevice.GAMEPAD && ' Right stick aims, right trigger fires, START pauses. There is no aim assist.'}
+          </p>
+
+          {input.device === InputDevice.GAMEPAD && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="md:col-span-2 space-y-3">
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="w-28 text-xs font-bold text-zinc-400">CURVE</label>
+                  <select value={gamepad.curve} onChange={(e) => updateGamepad({ curve: e.target.value as StickCurve })} className={selectClass}>
+                    {Object.values(StickCurve).map(curve => <option key={curve} value={curve}>{STICK_CURVE_LABELS[curve]}</option>)}
+                  </select>
+                  <label className="text-xs font-bold text-zinc-400">DEADZONE</label>
+                  <select value={gamepad.deadzoneShape} onChange={(e) => updateGamepad({ deadzoneShape: e.target.value as DeadzoneShape })} className={selectClass}>
+                    {Object.values(DeadzoneShape).map(shape => <option key={shape} value={shape}>{DEADZONE_SHAPE_LABELS[shape]}</option>)}
+                  </select>
+                  <label className="flex items-center gap-2 cursor-pointer text-xs text-zinc-400">
+                    <input type="checkbox" checked={gamepad.invertY} onChange={(e) => updateGamepad({ invertY: e.target.checked })} className="accent-emerald-500" />
+                    Invert Y
+                  </label>
+                </div>
+                {gamepad.curve !== StickCurve.LINEAR && (
+                  <SliderRow label="EXPONENT" value={gamepad.curveExponent} min={1} max={4} step={0.1} format={v => v.toFixed(1)} onChange={curveExponent => updateGamepad({ curveExponent })} />
+                )}
+                <SliderRow label="INNER DZ" value={gamepad.innerDeadzone} min={0} max={0.4} step={0.01} format={v => `${Math.round(v * 100)}%`} onChange={innerDeadzone => updateGamepad({ innerDeadzone })} />
+                <SliderRow label="OUTER DZ" value={gamepad.outerDeadzone} min={0.6} max={1} step={0.01} format={v => `${Math.round(v * 100)}%`} onChange={outerDeadzone => updateGamepad({ outerDeadzone })} />
+                <SliderRow label="YAW SPEED" value={gamepad.yawSpeed} min={30} max={720} step={5} format={v => `${v}°/s`} onChange={yawSpeed => updateGamepad({ yawSpeed })} />
+                <SliderRow label="PITCH SPEED" value={gamepad.pitchSpeed} min={30} max={720} step={5} format={v => `${v}°/s`} onChange={pitchSpeed => updateGamepad({ pitchSpeed })} />
+                <SliderRow label="ACCEL BOOST" value={gamepad.accelerationBoost} min={0} max={2} step={0.05} format={v => `+${Math.round(v * 100)}%`} onChange={accelerationBoost => updateGamepad({ accelerationBoost })} />
+                {gamepad.accelerationBoost > 0 && (
+                  <>
+                    <SliderRow label="ACCEL DELAY" value={gamepad.accelerationDelay} min={0} max={1} step={0.05} format={v => `${v.toFixed(2)}s`} onChange={accelerationDelay => updateGamepad({ accelerationDelay })} />
+                    <SliderRow label="ACCEL RAMP" value={gamepad.accelerationTime} min={0} max={2} step={0.05} format={v => `${v.toFixed(2)}s`} onChange={accelerationTime => updateGamepad({ accelerationTime })} />
+                  </>
+                )}
+                <SliderRow label="TRIGGER" value={gamepad.triggerThreshold} min={0.05} max={0.95} step={0.05} format={v => `${Math.round(v * 100)}%`} onChange={triggerThreshold => updateGamepad({ triggerThreshold })} />
+                <p className="text-xs text-zinc-500">The boost kicks in after the stick has been held at the edge for the delay, and builds up over the ramp.</p>
+              </div>
+              <StickPreview settings={gamepad} />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Main Menu
+          </button>
+          <button
+            onClick={() => {
+              onChange(DEFAULT_VISUALS);
+              onAudioChange(DEFAULT_AUDIO);
+              onInputChange(DEFAULT_INPUT);
+            }}
+            className="px-6 py-3 rounded-lg font-bold text-red-400 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
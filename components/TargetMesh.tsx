@@ -0,0 +1,60 @@
+import React from 'react';
+import * as THREE from 'three';
+import { HitboxDefinition, TargetEntity } from '../types';
+import { isHumanoid } from '../services/aimGeometry';
+
+interface TargetMeshProps {
+  target: TargetEntity;
+  color?: string;
+  hitbox?: HitboxDefinition; // Missing means a sphere
+  onClick?: () => void;
+  meshRef?: React.Ref<THREE.Object3D>; // For moving the mesh every frame without re-rendering
+}
+
+// Head-height line: wide enough to span the play area from any spawn point
+const HEAD_LINE_LENGTH = 60;
+const HEAD_LINE_COLOR = '#fbbf24';
+
+const TargetMaterial: React.FC<{ color: string }> = ({ color }) => (
+  <meshStandardMaterial
+    color={color}
+    emissive={color}
+    emissiveIntensity={0.3}
+    metalness={0.8}
+    roughness={0.2}
+  />
+);
+
+export const TargetMesh: React.FC<TargetMeshProps> = ({ target, color = '#00ffcc', hitbox, onClick, meshRef }) => {
+  if (!isHumanoid(hitbox)) {
+    return (
+      <mesh ref={meshRef} position={target.position} onClick={onClick}>
+        <sphereGeometry args={[target.radius, 32, 32]} />
+        <TargetMaterial color={color} />
+      </mesh>
+    );
+  }
+
+  // Same proportions as the hit test in aimGeometry, relative to the body center
+  const r = target.radius;
+  const headRadius = hitbox.headRadius * r;
+  const headY = (hitbox.bodyHeight / 2 + hitbox.neckGap + hitbox.headRadius) * r;
+  return (
+    <group ref={meshRef} position={target.position} onClick={onClick}>
+      <mesh>
+        <capsuleGeometry args={[r, Math.max(hitbox.bodyHeight - 2, 0) * r, 8, 24]} />
+        <TargetMaterial color={color} />
+      </mesh>
+      <mesh position={[0, headY, 0]}>
+        <sphereGeometry args={[headRadius, 24, 24]} />
+        <TargetMaterial color={color} />
+      </mesh>
+      {hitbox.headLine && (
+        <mesh position={[0, headY, 0]}>
+          <boxGeometry args={[HEAD_LINE_LENGTH, headRadius * 0.08, headRadius * 0.08]} />
+          <meshBasicMaterial color={HEAD_LINE_COLOR} transparent opacity={0.5} />
+        </mesh>
+      )}
+    </group>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useRef, useState } from 'react';
+import { Playlist, Profile } from '../types';
+import { getScenario } from '../services/scenarioRegistry';
+import {
+  deleteImportedPlaylist,
+  deleteImportedProgram,
+  enrollInProgram,
+  exportProgram,
+  exportTrainingFile,
+  getPlaylist,
+  getPlaylists,
+  getPrograms,
+  isImported,
+  leaveProgram,
+  loadProgramProgress,
+  missingScenarios,
+  parseTrainingFile,
+  playlistDuration,
+  programCompletion,
+  routineToday,
+  saveImportedTraining,
+} from '../services/trainingService';
+
+interface TrainingScreenProps {
+  profile: Profile;
+  onStartPlaylist: (playlist: Playlist, programDay?: number) => void;
+  onMenu: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded text-xs font-bold border transition-all bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700 disabled:opacity-40';
+
+const formatMinutes = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+export const TrainingScreen: React.FC<TrainingScreenProps> = ({ profile, onStartPlaylist, onMenu }) => {
+  // Bumped after imports, deletes and enrollment changes to re-read storage
+  const [, setVersion] = useState(0);
+  const refresh = () => setVersion(v => v + 1);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const playlists = getPlaylists();
+  const programs = getPrograms();
+  const progress = loadProgramProgress(profile.id);
+  const today = progress ? routineToday(progress) : null;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseTrainingFile(await file.text());
+    if ('errors' in result) {
+      setImportErrors([`${file.name}:`, ...result.errors]);
+      return;
+    }
+    setImportErrors([]);
+    saveImportedTraining(result);
+    refresh();
+  };
+
+  const handleEnroll = (programId: string) => {
+    if (progress && !window.confirm('Switch programs? Progress in your current program will be lost.')) return;
+    enrollInProgram(profile.id, programId);
+    refresh();
+  };
+
+  const handleLeave = () => {
+    if (!window.confirm('Leave this program? Its progress will be lost.')) return;
+    leaveProgram(profile.id);
+    refresh();
+  };
+
+  const handleDeletePlaylist = (playlist: Playlist) => {
+    const used = programs.filter(p => p.days.includes(playlist.id));
+    const warning = used.length > 0 ? ` Programs using it (${used.map(p => p.name).join(', ')}) are deleted too.` : '';
+    if (!window.confirm(`Delete playlist ${playlist.name}?${warning}`)) return;
+    deleteImportedPlaylist(playlist.id);
+    refresh();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-zinc-950 flex flex-col items-center p-8 overflow-auto">
+      <div className="max-w-6xl w-full bg-zinc-900 border border-zinc-800 rounded-xl p-8 shadow-2xl">
+        <h2 className="text-4xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-violet-400 to-fuchsia-500">
+          Training
+        </h2>
+        <p className="text-center text-xs text-zinc-500 font-mono -mt-4 mb-6">{profile.name}</p>
+
+        {/* Programs */}
+        <h3 className="text-lg font-semibold text-zinc-300 mb-3">Programs</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+          {programs.map(program => {
+            const enrolled = progress?.programId === program.id;
+            const completion = enrolled ? programCompletion(program, progress!) : null;
+            return (
+              <div key={program.id} className={`bg-zinc-950 p-4 rounded-lg border ${enrolled ? 'border-violet-500/60' : 'border-zinc-800'}`}>
+                <div className="flex justify-between items-baseline">
+                  <h4 className="font-bold text-white">{program.name}</h4>
+                  <span className="text-xs font-mono text-zinc-500">
+                    {program.days.length} days · {program.days.filter(d => d !== null).length} sessions
+                  </span>
+                </div>
+                <p className="text-xs text-zinc-500 mt-1">{program.description}</p>
+
+                {/* Calendar: one cell per day */}
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {program.days.map((id, day) => {
+                    const done = enrolled && progress!.completedDays.includes(day);
+                    const isToday = enrolled && today?.day === day;
+                    const color = id === null ? 'bg-zinc-800' : done ? 'bg-violet-500' : 'bg-zinc-600';
+                    return (
+                      <span
+                        key={day}
+                        title={`Day ${day + 1}: ${id === null ? 'Rest' : getPlaylist(id)?.name ?? id}`}
+                        className={`w-3 h-3 rounded-sm ${color} ${isToday ? 'ring-2 ring-white' : ''}`}
+                      />
+                    );
+                  })}
+                </div>
+
+                {completion && (
+                  <p className="text-xs font-mono text-violet-300 mt-2">
+                    {completion.completed} of {completion.trainingDays} done
+                    {completion.missed > 0 && <span className="text-orange-400"> · {completion.missed} missed</span>}
+                    {today && !today.finished && ` · day ${today.day + 1}`}
+                    {today?.finished && ' · finished'}
+                  </p>
+                )}
+
+                <div className="flex gap-2 mt-3">
+                  {enrolled && today?.playlist && !today.done && (
+                    <button
+                      onClick={() => onStartPlaylist(today.playlist!, today.day)}
+                      disabled={missingScenarios(today.playlist).length > 0}
+                      className={buttonClass}
+                    >
+                      ▶ Today: {today.playlist.name}
+                    </button>
+                  )}
+                  {enrolled
+                    ? <button onClick={handleLeave} className={buttonClass}>Leave</button>
+                    : <button onClick={() => handleEnroll(program.id)} className={buttonClass}>Start Program</button>}
+                  <button onClick={() => exportProgram(program)} className={buttonClass}>Export</button>
+                  {isImported(program.id) && (
+                    <button
+                      onClick={() => {
+                        if (!window.confirm(`Delete program ${program.name}?`)) return;
+                        deleteImportedProgram(program.id);
+                        refresh();
+                      }}
+                      className={buttonClass}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Playlists */}
+        <h3 className="text-lg font-semibold text-zinc-300 mb-3">Playlists</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+          {playlists.map(playlist => {
+            const missing = missingScenarios(playlist);
+            return (
+              <div key={playlist.id} className="bg-zinc-950 p-4 rounded-lg border border-zinc-800">
+                <div className="flex justify-between items-baseline">
+                  <h4 className="font-bold text-white">{playlist.name}</h4>
+                  <span className="text-xs font-mono text-zinc-500">{formatMinutes(playlistDuration(playlist))}</span>
+                </div>
+                <p className="text-xs text-zinc-500 mt-1">{playlist.description}</p>
+                <ol className="mt-2 space-y-0.5 text-xs font-mono text-zinc-400">
+                  {playlist.blocks.map((b, i) => (
+                    <li key={i}>
+                      {i + 1}. {getScenario(b.scenario)?.name ?? <span className="text-red-400">{b.scenario}</span>} · {b.duration}s
+                      {i < playlist.blocks.length - 1 && b.rest > 0 && <span className="text-zinc-600"> · rest {b.rest}s</span>}
+                    </li>
+                  ))}
+                </ol>
+                {missing.length > 0 && (
+                  <p className="text-xs text-red-400 mt-2">Import the missing scenarios to play this playlist.</p>
+                )}
+                <div className="flex gap-2 mt-3">
+                  <button onClick={() => onStartPlaylist(playlist)} disabled={missing.length > 0} className={buttonClass}>
+                    ▶ Start
+                  </button>
+                  <button onClick={() => exportTrainingFile([], [playlist], playlist.name)} className={buttonClass}>Export</button>
+                  {isImported(playlist.id) && (
+                    <button onClick={() => handleDeletePlaylist(playlist)} className={buttonClass}>Delete</button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={onMenu}
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Main Menu
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="Playlists and programs shared by a coach"
+            className="px-6 py-3 rounded-lg font-bold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 transition-all border border-zinc-700"
+          >
+            Import Training File
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+        {importErrors.length > 0 && (
+          <div className="mt-4 text-xs text-left text-red-400 bg-red-950/40 border border-red-900 rounded p-2 space-y-1">
+            {importErrors.map((err, i) => <p key={i}>{err}</p>)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
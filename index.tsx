@@ -1,12 +1,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerCustomScenarios } from './services/customScenarioService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+registerCustomScenarios();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,266 @@
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ScenarioDefinition } from '../types';
+import { validateScenario } from '../services/customScenarioService';
+import { Referee, createReferee } from '../services/raceReferee';
+import {
+  DEFAULT_RACE_PORT,
+  MAX_RACERS,
+  MIN_RACERS,
+  RACE_COUNTDOWN,
+  RaceClientMessage,
+  RaceServerMessage,
+  RaceStanding,
+  parseMessage,
+  rankStandings,
+} from '../services/raceProtocol';
+
+// Relay for local races: `npm run race-server`, then point every player's
+// race lobby at ws://<this machine>:8787 (RACE_PORT overrides the port).
+// The relay keeps its own copy of every racer's target sequence and only
+// counts hits that land on it.
+
+const PORT = Number(process.env.RACE_PORT) || DEFAULT_RACE_PORT;
+
+// How long after the clock runs out the race waits for stragglers (ms)
+const RESULTS_GRACE = 5000;
+// Standings go out at most this often, so tracking ticks don't flood the room (ms)
+const STANDINGS_INTERVAL = 200;
+
+const ROOM_PATTERN = /^[A-Za-z0-9_-]{1,24}$/;
+const MAX_NAME_LENGTH = 24;
+// Largest message a client may send: a custom scenario fits with room to spare (bytes)
+const MAX_MESSAGE_SIZE = 64 * 1024;
+
+interface Racer {
+  socket: WebSocket;
+  standing: RaceStanding;
+  referee: Referee | null;
+}
+
+interface Race {
+  startsAt: number; // Date.now() of the first target
+  endTimer: NodeJS.Timeout;
+}
+
+interface Room {
+  code: string;
+  host: string;
+  racers: Map<string, Racer>;
+  scenario: ScenarioDefinition | null;
+  seed: number;
+  race: Race | null;
+  standingsTimer: NodeJS.Timeout | null;
+}
+
+const rooms = new Map<string, Room>();
+
+const send = (socket: WebSocket, message: RaceServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room: Room, message: RaceServerMessage) => room.racers.forEach(r => send(r.socket, message));
+
+const standings = (room: Room) => rankStandings(Array.from(room.racers.values(), r => r.standing));
+
+const freshStanding = (id: string, name: string): RaceStanding => ({
+  id, name, score: 0, hits: 0, shots: 0, rejected: 0, finished: false, left: false
+});
+
+const sendLobby = (room: Room) => {
+  const players = Array.from(room.racers.values(), r => ({ id: r.standing.id, name: r.standing.name }));
+  room.racers.forEach(r => send(r.socket, {
+    type: 'lobby',
+    room: room.code,
+    you: r.standing.id,
+    host: room.host,
+    players,
+    scenario: room.scenario,
+    seed: room.seed,
+  }));
+};
+
+const queueStandings = (room: Room) => {
+  if (room.standingsTimer) return;
+  room.standingsTimer = setTimeout(() => {
+    room.standingsTimer = null;
+    if (room.race) broadcast(room, { type: 'standings', players: standings(room) });
+  }, STANDINGS_INTERVAL);
+};
+
+// -----------------------------------------------------------------------------
+// Race lifecycle
+// -----------------------------------------------------------------------------
+const startRace = (room: Room) => {
+  const scenario = room.scenario!;
+  const startsIn = RACE_COUNTDOWN * 1000;
+  room.racers.forEach(r => {
+    r.standing = freshStanding(r.standing.id, r.standing.name);
+    r.referee = createReferee(scenario, room.seed);
+  });
+  room.race = {
+    startsAt: Date.now() + startsIn,
+    endTimer: setTimeout(() => endRace(room), startsIn + scenario.duration * 1000 + RESULTS_GRACE),
+  };
+  broadcast(room, { type: 'start', scenario, seed: room.seed, startsIn });
+  console.log(`[${room.code}] race started: ${scenario.name}, seed ${room.seed}, ${room.racers.size} racers`);
+};
+
+// Final standings, then everyone still connected is back in the lobby
+const endRace = (room: Room) => {
+  if (!room.race) return;
+  clearTimeout(room.race.endTimer);
+  if (room.standingsTimer) clearTimeout(room.standingsTimer);
+  room.standingsTimer = null;
+  room.race = null;
+
+  broadcast(room, { type: 'results', players: standings(room) });
+  room.racers.forEach((r, id) => {
+    r.referee = null;
+    if (r.standing.left) room.racers.delete(id);
+  });
+  if (room.racers.size === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+  if (!room.racers.has(room.host)) room.host = room.racers.keys().next().value!;
+  sendLobby(room);
+  console.log(`[${room.code}] race over`);
+};
+
+const finishIfDone = (room: Room) => {
+  if (room.race && Array.from(room.racers.values()).every(r => r.standing.finished)) endRace(room);
+};
+
+// -----------------------------------------------------------------------------
+// Messages
+// -----------------------------------------------------------------------------
+const handleJoin = (socket: WebSocket, id: string, code: unknown, name: unknown): Room | null => {
+  if (typeof code !== 'string' || !ROOM_PATTERN.test(code)) {
+    send(socket, { type: 'error', message: 'Room codes are 1-24 letters, digits, - or _.' });
+    return null;
+  }
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  if (!trimmed) {
+    send(socket, { type: 'error', message: 'Pick a name to race under.' });
+    return null;
+  }
+  const room = rooms.get(code) ?? { code, host: id, racers: new Map(), scenario: null, seed: 0, race: null, standingsTimer: null };
+  if (room.race) {
+    send(socket, { type: 'error', message: 'That room is racing; try again when it finishes.' });
+    return null;
+  }
+  if (room.racers.size >= MAX_RACERS) {
+    send(socket, { type: 'error', message: `That room is full (${MAX_RACERS} racers).` });
+    return null;
+  }
+  rooms.set(code, room);
+  room.racers.set(id, { socket, standing: freshStanding(id, trimmed), referee: null });
+  sendLobby(room);
+  return room;
+};
+
+const handleMessage = (socket: WebSocket, room: Room, id: string, message: RaceClientMessage) => {
+  const racer = room.racers.get(id)!;
+  const isHost = room.host === id;
+
+  switch (message.type) {
+    case 'configure': {
+      if (!isHost || room.race) return;
+      const errors = validateScenario(message.scenario);
+      if (errors.length > 0) {
+        send(socket, { type: 'error', message: `Scenario rejected: ${errors[0]}` });
+        return;
+      }
+      if (!Number.isInteger(message.seed) || message.seed < 0 || message.seed > 0xffffffff) {
+        send(socket, { type: 'error', message: 'Seed must be a whole number from 0 to 4294967295.' });
+        return;
+      }
+      room.scenario = message.scenario;
+      room.seed = message.seed;
+      sendLobby(room);
+      return;
+    }
+    case 'start':
+      if (!isHost || room.race) return;
+      if (!room.scenario) {
+        send(socket, { type: 'error', message: 'Pick a scenario first.' });
+      } else if (room.racers.size < MIN_RACERS) {
+        send(socket, { type: 'error', message: `A race needs at least ${MIN_RACERS} racers.` });
+      } else {
+        startRace(room);
+      }
+      return;
+    case 'shot': {
+      if (!room.race || !racer.referee || racer.standing.finished || typeof message.shot !== 'object' || message.shot === null) return;
+      const verdict = racer.referee.judge(message.shot, Date.now() - room.race.startsAt);
+      const { standing } = racer;
+      standing.shots += 1;
+      if ('rejected' in verdict) {
+        standing.rejected += 1;
+        console.log(`[${room.code}] rejected a shot from ${standing.name}: ${verdict.rejected}`);
+      } else if (verdict.hit) {
+        standing.hits += 1;
+        standing.score += verdict.points;
+      }
+      queueStandings(room);
+      return;
+    }
+    case 'finish':
+      if (!room.race) return;
+      racer.standing.finished = true;
+      queueStandings(room);
+      finishIfDone(room);
+      return;
+  }
+};
+
+const handleLeave = (room: Room, id: string) => {
+  const racer = room.racers.get(id);
+  if (!racer) return;
+  if (room.race) {
+    // Keep their score on the board
+    racer.standing.left = true;
+    racer.standing.finished = true;
+    queueStandings(room);
+    finishIfDone(room);
+    return;
+  }
+  room.racers.delete(id);
+  if (room.racers.size === 0) {
+    rooms.delete(room.code);
+    return;
+  }
+  if (room.host === id) room.host = room.racers.keys().next().value!;
+  sendLobby(room);
+};
+
+// -----------------------------------------------------------------------------
+// Server
+// -----------------------------------------------------------------------------
+const server = createServer((_, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('Precision Aim Lab race relay\n');
+});
+const wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_SIZE });
+
+wss.on('connection', socket => {
+  const id = randomUUID();
+  let room: Room | null = null;
+
+  socket.on('message', data => {
+    const message = parseMessage<RaceClientMessage>(data.toString());
+    if (!message) return;
+    if (message.type === 'join') {
+      if (!room) room = handleJoin(socket, id, message.room, message.name);
+      return;
+    }
+    if (room) handleMessage(socket, room, id, message);
+  });
+  socket.on('close', () => {
+    if (room) handleLeave(room, id);
+  });
+});
+
+server.listen(PORT, () => console.log(`Race relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,140 @@
+import { AdaptiveConfig, DifficultySample, NumberRange, RespawnRule, ScenarioDefinition, TargetEntity, Vec3 } from '../types';
+import { AXIS_PATTERNS } from './movementModels';
+
+const AXIS_INDEX = { x: 0, y: 1, z: 2 } as const;
+
+export const DEFAULT_ADAPTIVE: AdaptiveConfig = { successRate: 75, killTime: 1500 };
+
+// Seconds of play between adjustments (and difficulty curve samples)
+export const ADJUST_INTERVAL = 1;
+
+// The success rate is measured over this many seconds of outcomes
+const WINDOW = 8;
+// Fewer outcomes than this in the window leave the level alone
+const MIN_OUTCOMES = 4;
+// Level change per adjustment at a 100-point miss of the wanted rate
+const GAIN = 0.3;
+
+const MIN_LEVEL = -1;
+const MAX_LEVEL = 1;
+
+// Doublings of each multiplier across a full level; the hardest level halves
+// the targets, doubles their speed and widens the spawn area by √2
+const RADIUS_RANGE = 1;
+const SPEED_RANGE = 1;
+const SPREAD_RANGE = 0.5;
+
+export interface DifficultyScales {
+  radius: number;
+  speed: number;
+  spread: number;
+}
+
+export interface DifficultyState {
+  level: number;
+  outcomes: { time: number; success: boolean }[]; // Within the window, oldest first
+}
+
+export const initialDifficulty = (): DifficultyState => ({ level: 0, outcomes: [] });
+
+export const difficultyScales = (level: number): DifficultyScales => ({
+  radius: 2 ** (-level * RADIUS_RANGE),
+  speed: 2 ** (level * SPEED_RANGE),
+  spread: 2 ** (level * SPREAD_RANGE),
+});
+
+// -----------------------------------------------------------------------------
+// Controller
+// -----------------------------------------------------------------------------
+// A shot (or tracking tick while firing) at `time`, seconds played
+export const recordOutcome = (state: DifficultyState, time: number, success: boolean): DifficultyState => ({
+  ...state,
+  outcomes: [...state.outcomes.filter(o => o.time > time - WINDOW), { time, success }],
+});
+
+// Slow kills count as a failure on top of the hit; `killTime` is ms of engagement
+export const recordKill = (state: DifficultyState, time: number, killTime: number, config: AdaptiveConfig) =>
+  killTime > config.killTime ? recordOutcome(state, time, false) : state;
+
+// Percent over the window, or undefined with too few outcomes to judge
+const rollingRate = (state: DifficultyState, time: number) => {
+  const recent = state.outcomes.filter(o => o.time > time - WINDOW);
+  if (recent.length < MIN_OUTCOMES) return undefined;
+  return (recent.filter(o => o.success).length / recent.length) * 100;
+};
+
+// Proportional step toward the wanted success rate; runs every ADJUST_INTERVAL
+export const adjustDifficulty = (
+  state: DifficultyState,
+  time: number,
+  config: AdaptiveConfig
+): { state: DifficultyState; sample: DifficultySample } => {
+  const successRate = rollingRate(state, time);
+  const level = successRate === undefined
+    ? state.level
+    : Math.min(Math.max(state.level + (GAIN * (successRate - config.successRate)) / 100, MIN_LEVEL), MAX_LEVEL);
+  const next = { level, outcomes: state.outcomes.filter(o => o.time > time - WINDOW) };
+  return { state: next, sample: difficultySample(next, time, successRate) };
+};
+
+export const difficultySample = (state: DifficultyState, time: number, successRate?: number): DifficultySample => {
+  const scales = difficultyScales(state.level);
+  return {
+    time: Math.round(time * 1000) / 1000,
+    level: Math.round(state.level * 1000) / 1000,
+    successRate: successRate === undefined ? undefined : Math.round(successRate * 10) / 10,
+    radiusScale: scales.radius,
+    speedScale: scales.speed,
+    spreadScale: scales.spread,
+  };
+};
+
+// -----------------------------------------------------------------------------
+// Applying a level
+// -----------------------------------------------------------------------------
+const scaleRange = (range: NumberRange, scale: number): NumberRange => ({ min: range.min * scale, max: range.max * scale });
+
+// Widen or narrow a range about its middle
+const spreadRange = (min: number, max: number, scale: number): [number, number] => {
+  const middle = (min + max) / 2;
+  const half = ((max - min) / 2) * scale;
+  return [middle - half, middle + half];
+};
+
+// The scenario as new targets should spawn at this difficulty. Spread applies
+// across the view (x and y), never to depth. Along an axis pattern's axis the
+// wider area stops at the travel limits, which targets must start inside.
+export const scaleScenario = (definition: ScenarioDefinition, scales: DifficultyScales): ScenarioDefinition => {
+  const { spawnBounds, movement } = definition;
+  const min: Vec3 = [...spawnBounds.min];
+  const max: Vec3 = [...spawnBounds.max];
+  [0, 1].forEach(axis => {
+    [min[axis], max[axis]] = spreadRange(spawnBounds.min[axis], spawnBounds.max[axis], scales.spread);
+  });
+  if (AXIS_PATTERNS.includes(movement.pattern)) {
+    const axis = AXIS_INDEX[movement.axis];
+    min[axis] = Math.max(min[axis], Math.min(movement.travel.min, spawnBounds.min[axis]));
+    max[axis] = Math.min(max[axis], Math.max(movement.travel.max, spawnBounds.max[axis]));
+  }
+
+  return {
+    ...definition,
+    radius: scaleRange(definition.radius, scales.radius),
+    spawnBounds: { min, max },
+    movement: { ...movement, speed: scaleRange(movement.speed, scales.speed) },
+  };
+};
+
+// Targets that are never replaced (tracking) take a new level in place; the
+// rest pick it up when they respawn
+export const rescalesInPlace = (definition: ScenarioDefinition) => definition.respawn === RespawnRule.PERSIST;
+
+export const rescaleTarget = (target: TargetEntity, from: DifficultyScales, to: DifficultyScales): TargetEntity => {
+  const speed = to.speed / from.speed;
+  return {
+    ...target,
+    radius: target.radius * (to.radius / from.radius),
+    velocity: target.velocity.map(v => v * speed) as Vec3,
+    motion: target.motion && { ...target.motion, speed: target.motion.speed * speed },
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { MovementPattern, ScenarioType } from '../types';
+import { BUILT_IN_SCENARIOS } from './scenarioRegistry';
+import { analyzeAim, FindingKind } from './aimAnalysis';
+import {
+  leftBiasPlayer,
+  noisyPlayer,
+  overshootPlayer,
+  perfectPlayer,
+  runHeadlessSession,
+  SyntheticPlayer,
+  undershootPlayer,
+} from './simulationHarness';
+
+const SEEDS = [42, 1337];
+
+const analyze = (scenarioId: string, player: SyntheticPlayer, seed: number) => {
+  const scenario = BUILT_IN_SCENARIOS.find(s => s.id === scenarioId)!;
+  return analyzeAim([runHeadlessSession(scenario, player, { seed })]);
+};
+
+const kinds = (analysis: ReturnType<typeof analyzeAim>) => analysis.findings.map(f => f.kind);
+
+// Overshoots by 0.3° and also drifts most of a radius to the left
+const leftBiasedOvershootPlayer: SyntheticPlayer = {
+  name: 'Left-biased overshoot',
+  landing: ({ direction, motion, targetRadius }) => {
+    const along = motion ?? direction;
+    return { x: along.x * (targetRadius + 0.3) - targetRadius * 0.8, y: along.y * (targetRadius + 0.3) };
+  },
+};
+
+const DIRECTIONAL: FindingKind[] = [
+  'moving-overshoot', 'moving-undershoot',
+  'flick-overshoot', 'flick-undershoot',
+  'bias-left', 'bias-right', 'bias-vertical',
+];
+
+describe.each(BUILT_IN_SCENARIOS.map(s => [s.name, s.id, s.movement.pattern !== MovementPattern.STATIC] as const))(
+  'analyzeAim on %s',
+  (_, scenarioId, moving) => {
+    const over: FindingKind = moving ? 'moving-overshoot' : 'flick-overshoot';
+    const under: FindingKind = moving ? 'moving-undershoot' : 'flick-undershoot';
+
+    it.each(SEEDS)('finds nothing wrong with a perfect player (seed %i)', seed => {
+      const analysis = analyze(scenarioId, perfectPlayer, seed);
+      expect(analysis.missCount).toBe(0);
+      expect(analysis.findings).toEqual([]);
+      expect(analysis.recommendation).toMatch(/^Perfect run!/);
+    });
+
+    it.each(SEEDS)('recommends lowering sensitivity for an overshooting player (seed %i)', seed => {
+      const analysis = analyze(scenarioId, overshootPlayer(), seed);
+      expect(analysis.findings[0].kind).toBe(over);
+      expect(analysis.confidence).toBe('high');
+      expect(analysis.recommendation).toMatch(/LOWERING/);
+      expect(kinds(analysis)).not.toContain(under);
+      if (moving) expect(analysis.overshoots).toBeGreaterThan(analysis.undershoots);
+    });
+
+    it.each(SEEDS)('recommends raising sensitivity for an undershooting player (seed %i)', seed => {
+      const analysis = analyze(scenarioId, undershootPlayer(), seed);
+      expect(analysis.findings[0].kind).toBe(under);
+      expect(analysis.confidence).toBe('high');
+      expect(analysis.recommendation).toMatch(/INCREASING/);
+      expect(kinds(analysis)).not.toContain(over);
+      if (moving) expect(analysis.undershoots).toBeGreaterThan(analysis.overshoots);
+    });
+
+    it.each(SEEDS)('blames a left bias, not sensitivity, for a player who always misses left (seed %i)', seed => {
+      const analysis = analyze(scenarioId, leftBiasPlayer(), seed);
+      expect(analysis.right).toBe(0);
+      expect(analysis.left).toBe(analysis.missCount);
+      expect(analysis.impact!.meanX).toBeLessThan(0);
+      expect(analysis.findings[0].kind).toBe('bias-left');
+      expect(analysis.confidence).toBe('high');
+      expect(kinds(analysis)).not.toContain(over);
+      expect(kinds(analysis)).not.toContain(under);
+    });
+
+    it.each(SEEDS)('still finds an overshoot behind a left bias (seed %i)', seed => {
+      const analysis = analyze(scenarioId, leftBiasedOvershootPlayer, seed);
+      expect(kinds(analysis)).toEqual(expect.arrayContaining(['bias-left', over]));
+      expect(kinds(analysis)).not.toContain(under);
+    });
+
+    it.each(SEEDS)('finds no directional error in unbiased noise (seed %i)', seed => {
+      const analysis = analyze(scenarioId, noisyPlayer(), seed);
+      expect(analysis.missCount).toBeGreaterThan(0);
+      expect(kinds(analysis).filter(kind => DIRECTIONAL.includes(kind))).toEqual([]);
+    });
+  }
+);
+
+describe('analyzeAim on Tracking', () => {
+  it('reports the wide scatter of a noisy player', () => {
+    const analysis = analyze(ScenarioType.TRACKING, noisyPlayer(), SEEDS[0]);
+    expect(kinds(analysis)).toEqual(expect.arrayContaining(['spread-horizontal', 'spread-vertical']));
+    expect(analysis.spread!.sdX.low).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,207 @@
+import { InputDevice, SessionStats } from '../types';
+import { classifyMovingMisses, isMovingShot } from './missAnalysis';
+import { analyzeFlicks, flickOutcome } from './flickAnalysis';
+import { ImpactSummary, impactPoint, summarizeImpacts } from './impactStats';
+import { Interval, binomialTest, bootstrapIntervals, standardDeviation } from './statistics';
+import { createRng, hashString } from './random';
+
+// p-values below these count as evidence
+const SIGNIFICANT = 0.05;
+const HIGHLY_SIGNIFICANT = 0.01;
+// Fewer shots than this and nothing can be said
+const MIN_SHOTS = 10;
+// Smallest one-sided split that can reach p < 0.05 (6 of 6)
+const MIN_DIRECTIONAL = 6;
+// Spread wider than the target itself (SD in target radii) is too loose
+const SPREAD_THRESHOLD = 1;
+// Sessions this large support a "your aim is balanced" verdict with some confidence
+const SOLID_SAMPLE = 30;
+
+export type Confidence = 'high' | 'medium' | 'low' | 'insufficient';
+
+export type FindingKind =
+  | 'moving-overshoot' | 'moving-undershoot'
+  | 'flick-overshoot' | 'flick-undershoot'
+  | 'bias-left' | 'bias-right' | 'bias-vertical'
+  | 'spread-horizontal' | 'spread-vertical';
+
+export interface Finding {
+  kind: FindingKind;
+  text: string;
+  confidence: Confidence;
+  evidence: string; // The test behind it, e.g. "p = 0.012"
+  effect: number;   // 0-1, how far the data sits from no problem; breaks ties in confidence
+}
+
+export interface AimAnalysis {
+  sessionCount: number;
+  shotCount: number;
+  missCount: number;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  hasMovingTargets: boolean;
+  overshoots: number;  // Moving-target misses
+  undershoots: number;
+  impact: ImpactSummary | null;
+  spread: { sdX: Interval; sdY: Interval } | null; // 95% bootstrap intervals, target radii
+  findings: Finding[]; // Significant results only, strongest first
+  recommendation: string;
+  confidence: Confidence;
+  evidence: string | null;
+  enoughData: boolean;
+}
+
+const confidenceOf = (pValue: number): Confidence =>
+  pValue < HIGHLY_SIGNIFICANT ? 'high' : pValue < SIGNIFICANT ? 'medium' : 'low';
+
+const RANK: Record<Confidence, number> = { high: 0, medium: 1, low: 2, insufficient: 3 };
+
+const formatP = (pValue: number) => pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+
+// A split test for one pair of opposite outcomes; null when it is not significant
+const splitFinding = (
+  a: number,
+  b: number,
+  kindA: FindingKind,
+  kindB: FindingKind,
+  describe: (kind: FindingKind) => string
+): Finding | null => {
+  const n = a + b;
+  if (n < MIN_DIRECTIONAL || a === b) return null;
+  const pValue = binomialTest(a, n);
+  const confidence = confidenceOf(pValue);
+  if (confidence === 'low') return null;
+  const kind = a > b ? kindA : kindB;
+  return { kind, text: describe(kind), confidence, evidence: `${Math.max(a, b)} of ${n}, ${formatP(pValue)}`, effect: Math.abs(a - b) / n };
+};
+
+// -----------------------------------------------------------------------------
+// Analysis over one session, or several pooled sessions of the same scenario
+// -----------------------------------------------------------------------------
+export const analyzeAim = (sessions: SessionStats[]): AimAnalysis => {
+  const shots = sessions.flatMap(s => s.missData);
+  const misses = shots.filter(s => !s.hit);
+  const hasMovingTargets = shots.some(isMovingShot);
+
+  const left = misses.filter(m => (m.relativeX || 0) < 0).length;
+  const right = misses.filter(m => (m.relativeX || 0) > 0).length;
+  const top = misses.filter(m => (m.relativeY || 0) > 0).length;
+  const bottom = misses.filter(m => (m.relativeY || 0) < 0).length;
+  const { overshoots, undershoots } = hasMovingTargets ? classifyMovingMisses(misses) : { overshoots: 0, undershoots: 0 };
+
+  const flicks = hasMovingTargets ? [] : sessions.flatMap(s =>
+    analyzeFlicks(s.aimPath || [], s.missData, s.targetRecords || []).flicks
+  );
+  const meanPrimaryError = (list: typeof flicks) =>
+    list.reduce((acc, f) => acc + Math.abs(f.primaryError / f.amplitude) * 100, 0) / Math.max(list.length, 1);
+
+  const impact = summarizeImpacts(shots);
+  const points = shots.map(impactPoint).filter((p): p is NonNullable<typeof p> => p !== null);
+
+  // Bootstrap the spread; seeded from the sessions so the verdict never flickers
+  let spread: AimAnalysis['spread'] = null;
+  let spreadWide: { sdX: Interval[]; sdY: Interval[] } | null = null;
+  if (points.length >= MIN_SHOTS) {
+    const rng = createRng(hashString(sessions.map(s => s.id).join()));
+    const sdX = bootstrapIntervals(points, sample => standardDeviation(sample.map(p => p.x)), [0.95, 0.99], rng);
+    const sdY = bootstrapIntervals(points, sample => standardDeviation(sample.map(p => p.y)), [0.95, 0.99], rng);
+    spread = { sdX: sdX[0], sdY: sdY[0] };
+    spreadWide = { sdX, sdY };
+  }
+
+  const radii = (value: number) => `${Math.abs(value).toFixed(1)} target radii`;
+  // Advice names the controls of the device the sessions were played with
+  const onGamepad = sessions[0]?.input === InputDevice.GAMEPAD;
+  const findings: Finding[] = [];
+  const push = (finding: Finding | null) => { if (finding) findings.push(finding); };
+
+  const bias = splitFinding(left, right, 'bias-left', 'bias-right', kind => {
+    const offset = impact ? ` (shots center ${radii(impact.meanX)} ${impact.meanX < 0 ? 'left' : 'right'} of the target)` : '';
+    return kind === 'bias-left'
+      ? `You consistently miss to the LEFT${offset}. Check your initial crosshair placement or grip stability.`
+      : `You consistently miss to the RIGHT${offset}. ${onGamepad ? 'You might be letting go of the stick too late.' : 'You might be pulling your mouse too fast.'}`;
+  });
+  push(bias);
+
+  // A sideways bias shifts every miss; judge over- and undershoots from the bias-corrected
+  // landing points so sensitivity advice does not just repeat the bias
+  if (hasMovingTargets) {
+    const moving = classifyMovingMisses(misses, bias && impact ? impact.meanX : 0);
+    push(splitFinding(moving.overshoots, moving.undershoots, 'moving-overshoot', 'moving-undershoot', kind => kind === 'moving-overshoot'
+      ? `You consistently OVERSHOOT moving targets. \nTry LOWERING your ${onGamepad ? 'stick speed slightly, or use a steeper response curve' : 'sensitivity or DPI slightly'}.`
+      : `You consistently UNDERSHOOT moving targets. \nTry INCREASING your ${onGamepad ? 'stick speed slightly, or use a flatter response curve' : 'sensitivity or DPI slightly'}.`));
+  } else {
+    const biasX = bias && flicks.length > 0 ? flicks.reduce((acc, f) => acc + f.landingX, 0) / flicks.length : 0;
+    const flickOver = flicks.filter(f => flickOutcome(f, biasX) === 'overshoot');
+    const flickUnder = flicks.filter(f => flickOutcome(f, biasX) === 'undershoot');
+    push(splitFinding(flickOver.length, flickUnder.length, 'flick-overshoot', 'flick-undershoot', kind => kind === 'flick-overshoot'
+      ? `Your flicks OVERSHOOT: the initial motion lands ${meanPrimaryError(flickOver).toFixed(0)}% past the target on average. \nTry LOWERING your ${onGamepad ? 'stick speed or acceleration boost' : 'sensitivity'} slightly.`
+      : `Your flicks UNDERSHOOT: the initial motion stops ${meanPrimaryError(flickUnder).toFixed(0)}% short of the target on average. \nTry INCREASING your ${onGamepad ? 'stick speed or acceleration boost' : 'sensitivity'} slightly.`));
+  }
+
+  push(splitFinding(top, bottom, 'bias-vertical', 'bias-vertical', () =>
+    `Significant vertical drift detected: you miss ${top > bottom ? 'HIGH' : 'LOW'} more often than not. ${onGamepad ? 'Check your pitch speed and inner deadzone.' : 'Check your posture and mousepad friction.'}`));
+
+  // Spread: the whole interval must sit above the threshold
+  if (spreadWide) {
+    const spreadFinding = (intervals: Interval[], kind: FindingKind, text: string): Finding | null => {
+      const [ci95, ci99] = intervals;
+      if (ci95.low <= SPREAD_THRESHOLD) return null;
+      return {
+        kind,
+        text,
+        confidence: ci99.low > SPREAD_THRESHOLD ? 'high' : 'medium',
+        evidence: `SD 95% CI ${ci95.low.toFixed(2)}–${ci95.high.toFixed(2)} target radii`,
+        effect: 1 - SPREAD_THRESHOLD / ci95.low,
+      };
+    };
+    push(spreadFinding(spreadWide.sdX, 'spread-horizontal',
+      `Wide horizontal scatter detected (SD ${impact!.sdX.toFixed(1)} target radii). ${onGamepad ? 'Your stick speed or inner deadzone might be too large' : 'Your sensitivity might be too high'} for precise micro-adjustments.`));
+    push(spreadFinding(spreadWide.sdY, 'spread-vertical',
+      `Wide vertical scatter detected (SD ${impact!.sdY.toFixed(1)} target radii). Slow down your final adjustment before clicking.`));
+  }
+
+  // Strongest evidence first, then the larger effect
+  findings.sort((a, b) => RANK[a.confidence] - RANK[b.confidence] || b.effect - a.effect);
+
+  const base = {
+    sessionCount: sessions.length,
+    shotCount: shots.length,
+    missCount: misses.length,
+    left, right, top, bottom,
+    hasMovingTargets,
+    overshoots, undershoots,
+    impact,
+    spread,
+    findings,
+  };
+
+  if (findings.length > 0) {
+    const [top1] = findings;
+    return { ...base, recommendation: top1.text, confidence: top1.confidence, evidence: top1.evidence, enoughData: true };
+  }
+
+  if (shots.length < MIN_SHOTS) {
+    return {
+      ...base,
+      recommendation: `Not enough data for a reliable recommendation (${shots.length} shots). Play a longer session or pool your recent sessions.`,
+      confidence: 'insufficient',
+      evidence: null,
+      enoughData: false,
+    };
+  }
+
+  // Nothing stands out; how much that means depends on how much was tested
+  const confidence: Confidence = shots.length >= SOLID_SAMPLE ? 'medium' : 'low';
+  return {
+    ...base,
+    recommendation: misses.length === 0
+      ? `Perfect run! Your ${onGamepad ? 'stick settings are' : 'sensitivity is'} well-tuned.`
+      : 'Your aim is balanced: no bias stands out from the noise. Continue training to build consistency.',
+    confidence,
+    evidence: `${shots.length} shots, no test reached p < ${SIGNIFICANT}`,
+    enoughData: confidence === 'medium',
+  };
+};
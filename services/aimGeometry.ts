@@ -0,0 +1,247 @@
+import { HitboxDefinition, HitboxShape, HitZone, ShotData, Vec3 } from '../types';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Camera orientation as the game stores it: Euler YXZ, no roll (radians)
+export interface Aim {
+  yaw: number;
+  pitch: number;
+}
+
+export interface SphereTarget {
+  id: string;
+  position: Vec3;
+  radius: number;
+}
+
+export interface ShotOffset {
+  relativeX: number; // World units on the plane through the target center
+  relativeY: number;
+  distanceFromCenter: number;
+  angularX: number;  // Degrees, right / up positive
+  angularY: number;
+  angularError: number;
+  targetAngularRadius: number;
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+// -----------------------------------------------------------------------------
+// Camera basis
+// -----------------------------------------------------------------------------
+export const aimForward = ({ yaw, pitch }: Aim): Vec3 => [
+  -Math.sin(yaw) * Math.cos(pitch),
+  Math.sin(pitch),
+  -Math.cos(yaw) * Math.cos(pitch),
+];
+
+export const aimRight = ({ yaw }: Aim): Vec3 => [Math.cos(yaw), 0, -Math.sin(yaw)];
+
+export const aimUp = ({ yaw, pitch }: Aim): Vec3 => [
+  Math.sin(yaw) * Math.sin(pitch),
+  Math.cos(pitch),
+  Math.cos(yaw) * Math.sin(pitch),
+];
+
+// Aim that puts the crosshair exactly on a point
+export const aimAt = (origin: Vec3, point: Vec3): Aim => {
+  const [x, y, z] = sub(point, origin);
+  return { yaw: Math.atan2(-x, -z), pitch: Math.atan2(y, Math.hypot(x, z)) };
+};
+
+// -----------------------------------------------------------------------------
+// Hit test and miss measurement
+// -----------------------------------------------------------------------------
+// Shortest distance between the crosshair ray and a point (behind the camera counts as far)
+export const rayDistance = (aim: Aim, origin: Vec3, point: Vec3) => {
+  const toPoint = sub(point, origin);
+  const along = dot(toPoint, aimForward(aim));
+  if (along <= 0) return Infinity;
+  return Math.sqrt(Math.max(dot(toPoint, toPoint) - along * along, 0));
+};
+
+// Crosshair offset from a target: on the plane through its center (world units)
+// and as seen from the camera (degrees)
+export const measureOffset = (aim: Aim, origin: Vec3, target: SphereTarget): ShotOffset | null => {
+  const forward = aimForward(aim);
+  const right = aimRight(aim);
+  const up = aimUp(aim);
+  const toTarget = sub(target.position, origin);
+
+  // Ray / plane intersection, plane facing the camera through the target center
+  const depth = dot(toTarget, forward);
+  if (depth <= 0) return null;
+  const impact: Vec3 = [forward[0] * depth, forward[1] * depth, forward[2] * depth];
+  const diff = sub(impact, toTarget);
+
+  // Target in camera space
+  const localX = dot(toTarget, right);
+  const localY = dot(toTarget, up);
+
+  return {
+    relativeX: dot(diff, right),
+    relativeY: dot(diff, up),
+    distanceFromCenter: length(diff),
+    angularX: -Math.atan2(localX, depth) * RAD_TO_DEG,
+    angularY: -Math.atan2(localY, depth) * RAD_TO_DEG,
+    angularError: Math.atan2(Math.hypot(localX, localY), depth) * RAD_TO_DEG,
+    targetAngularRadius: Math.asin(Math.min(target.radius / length(toTarget), 1)) * RAD_TO_DEG,
+  };
+};
+
+// -----------------------------------------------------------------------------
+// Hitboxes
+// -----------------------------------------------------------------------------
+export const isHumanoid = (hitbox?: HitboxDefinition): hitbox is HitboxDefinition => hitbox?.shape === HitboxShape.HUMANOID;
+
+// Head of a humanoid target, as a sphere of its own
+export const headSphere = (target: SphereTarget, hitbox: HitboxDefinition): SphereTarget => ({
+  id: target.id,
+  position: [
+    target.position[0],
+    target.position[1] + (hitbox.bodyHeight / 2 + hitbox.neckGap + hitbox.headRadius) * target.radius,
+    target.position[2],
+  ],
+  radius: hitbox.headRadius * target.radius,
+});
+
+// Ends of the segment the body capsule is swept along
+export const bodySegment = (target: SphereTarget, hitbox: HitboxDefinition): [Vec3, Vec3] => {
+  const half = Math.max(hitbox.bodyHeight / 2 - 1, 0) * target.radius;
+  const [x, y, z] = target.position;
+  return [[x, y - half, z], [x, y + half, z]];
+};
+
+// Shortest distance between the crosshair ray and a segment
+const raySegmentDistance = (aim: Aim, origin: Vec3, a: Vec3, b: Vec3) => {
+  const forward = aimForward(aim);
+  const segment = sub(b, a);
+  const fromA = sub(origin, a);
+  const along = dot(forward, segment);
+  const segmentLength2 = dot(segment, segment);
+  if (segmentLength2 < 1e-12) return rayDistance(aim, origin, a);
+
+  // Closest point on the segment's line, clamped to its ends, then the ray's closest approach to it
+  const denominator = segmentLength2 - along * along;
+  const s = denominator > 1e-12
+    ? (dot(segment, fromA) - along * dot(forward, fromA)) / denominator
+    : 0;
+  const clamped = Math.min(Math.max(s, 0), 1);
+  return rayDistance(aim, origin, [a[0] + segment[0] * clamped, a[1] + segment[1] * clamped, a[2] + segment[2] * clamped]);
+};
+
+// Which part of a target the crosshair is on, if any; spheres are all body
+export const hitZoneAt = (aim: Aim, origin: Vec3, target: SphereTarget, hitbox?: HitboxDefinition): HitZone | null => {
+  if (!isHumanoid(hitbox)) return rayDistance(aim, origin, target.position) < target.radius ? HitZone.BODY : null;
+  const head = headSphere(target, hitbox);
+  if (rayDistance(aim, origin, head.position) < head.radius) return HitZone.HEAD;
+  const [a, b] = bodySegment(target, hitbox);
+  return raySegmentDistance(aim, origin, a, b) < target.radius ? HitZone.BODY : null;
+};
+
+// What offsets are measured against: the head of a humanoid, else the sphere
+export const aimPoint = (target: SphereTarget, hitbox?: HitboxDefinition): SphereTarget =>
+  isHumanoid(hitbox) ? headSphere(target, hitbox) : target;
+
+export const zoneScore = (zone: HitZone, hitbox?: HitboxDefinition) =>
+  zone === HitZone.HEAD && isHumanoid(hitbox) ? hitbox.headScore : 1;
+
+// Crosshair height against the head of a humanoid target, for placement stats
+export const measureHead = (aim: Aim, origin: Vec3, target: SphereTarget, hitbox?: HitboxDefinition): Pick<ShotData, 'headOffsetY'> => {
+  if (!isHumanoid(hitbox)) return {};
+  const offset = measureOffset(aim, origin, headSphere(target, hitbox));
+  return offset ? { headOffsetY: offset.angularY } : {};
+};
+
+// The target a shot hit (and where), and the one it was aimed closest to (for miss analysis)
+export const resolveShot = <T extends SphereTarget>(aim: Aim, origin: Vec3, targets: T[], hitbox?: HitboxDefinition) => {
+  const forward = aimForward(aim);
+  let hit: T | null = null;
+  let zone: HitZone | null = null;
+  let closest: T | null = null;
+  let closestAngle = Infinity;
+
+  targets.forEach(target => {
+    const targetZone = hitZoneAt(aim, origin, target, hitbox);
+    if (targetZone) {
+      hit = target;
+      zone = targetZone;
+    }
+
+    const toTarget = sub(target.position, origin);
+    const angle = Math.acos(Math.min(Math.max(dot(forward, toTarget) / length(toTarget), -1), 1));
+    if (angle < closestAngle) {
+      closestAngle = angle;
+      closest = target;
+    }
+  });
+
+  return { hit: hit as T | null, zone: zone as HitZone | null, closest: closest as T | null };
+};
+
+// Target nearest the crosshair ray, with that distance in target radii (< 1 = on target)
+export const nearestToRay = <T extends SphereTarget>(aim: Aim, origin: Vec3, targets: T[]) => {
+  let target: T | null = null;
+  let distance = Infinity;
+  targets.forEach(t => {
+    const d = rayDistance(aim, origin, t.position) / t.radius;
+    if (d < distance) {
+      distance = d;
+      target = t;
+    }
+  });
+  return { target: target as T | null, distance };
+};
+
+// Target velocity for a shot record: in the world, and as seen on the plane of
+// relativeX / relativeY, so misses can be compared with any direction of motion
+export const measureMotion = (aim: Aim, velocity: Vec3): Pick<ShotData, 'targetVelocity' | 'targetApparentVelocity'> => ({
+  targetVelocity: [...velocity],
+  targetApparentVelocity: { x: dot(velocity, aimRight(aim)), y: dot(velocity, aimUp(aim)) },
+});
+
+// -----------------------------------------------------------------------------
+// A click, as the game records it
+// -----------------------------------------------------------------------------
+export const evaluateShot = <T extends SphereTarget & { velocity: Vec3 }>(
+  aim: Aim,
+  origin: Vec3,
+  targets: T[],
+  time: number,
+  hitbox?: HitboxDefinition
+): { shot: ShotData; hit: T | null; zone: HitZone | null; aimed: T | null } => {
+  const { hit, zone, closest } = resolveShot(aim, origin, targets, hitbox);
+
+  if (hit) {
+    // Where inside the target the shot landed, for the impact spread
+    const offset = measureOffset(aim, origin, aimPoint(hit, hitbox));
+    const shot: ShotData = {
+      timestamp: time,
+      hit: true,
+      targetId: hit.id,
+      ...offset,
+      ...measureMotion(aim, hit.velocity),
+      ...measureHead(aim, origin, hit, hitbox),
+      ...(isHumanoid(hitbox) ? { zone: zone! } : {}),
+    };
+    return { shot, hit, zone, aimed: hit };
+  }
+
+  const offset = closest ? measureOffset(aim, origin, aimPoint(closest, hitbox)) : null;
+  if (!closest || !offset) return { shot: { timestamp: time, hit: false }, hit: null, zone: null, aimed: closest };
+  return {
+    shot: {
+      timestamp: time,
+      hit: false,
+      targetId: closest.id,
+      ...offset,
+      ...measureMotion(aim, closest.velocity),
+      ...measureHead(aim, origin, closest, hitbox),
+    },
+    hit: null,
+    zone: null,
+    aimed: closest,
+  };
+};
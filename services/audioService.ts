@@ -0,0 +1,132 @@
+import { AudioSettings, Vec3 } from '../types';
+import { Aim, aimForward, aimUp } from './aimGeometry';
+
+// All sounds are synthesized on the fly; nothing to download or decode
+export interface SoundPlayer {
+  setSettings: (settings: AudioSettings) => void;
+  hit: () => void;
+  miss: () => void;
+  kill: () => void;
+  spawn: (position: Vec3, aim: Aim) => void; // Heard from where the target appears
+  dispose: () => void;
+}
+
+interface Tone {
+  type: OscillatorType;
+  from: number; // Hz
+  to: number;
+  delay: number; // Seconds after now
+  length: number;
+  gain: number;
+}
+
+// Sounds are short, so a click-free attack and an exponential tail are enough
+const ATTACK = 0.004;
+
+const HIT_TONES: Tone[] = [{ type: 'sine', from: 1400, to: 900, delay: 0, length: 0.06, gain: 0.5 }];
+const MISS_TONES: Tone[] = [{ type: 'triangle', from: 220, to: 120, delay: 0, length: 0.09, gain: 0.35 }];
+const KILL_TONES: Tone[] = [
+  { type: 'sine', from: 880, to: 880, delay: 0.03, length: 0.08, gain: 0.35 },
+  { type: 'sine', from: 1320, to: 1320, delay: 0.09, length: 0.14, gain: 0.35 },
+];
+const SPAWN_TONES: Tone[] = [{ type: 'sine', from: 500, to: 780, delay: 0, length: 0.12, gain: 0.8 }];
+
+// -----------------------------------------------------------------------------
+// Web Audio player; the context is created on first use and resumed as needed
+// -----------------------------------------------------------------------------
+export const createSoundPlayer = (initial: AudioSettings): SoundPlayer => {
+  let settings = initial;
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+
+  const masterLevel = () => (settings.muted ? 0 : settings.volume);
+
+  const ensureContext = () => {
+    if (typeof AudioContext === 'undefined') return null;
+    if (!context) {
+      context = new AudioContext();
+      master = context.createGain();
+      master.gain.value = masterLevel();
+      master.connect(context.destination);
+    }
+    if (context.state === 'suspended') void context.resume();
+    return context;
+  };
+
+  const play = (tones: Tone[], output?: (ctx: AudioContext) => AudioNode) => {
+    if (masterLevel() <= 0) return;
+    const ctx = ensureContext();
+    if (!ctx || !master) return;
+    const destination = output ? output(ctx) : master;
+
+    tones.forEach(tone => {
+      const start = ctx.currentTime + tone.delay;
+      const end = start + tone.length;
+      const oscillator = ctx.createOscillator();
+      const envelope = ctx.createGain();
+      oscillator.type = tone.type;
+      oscillator.frequency.setValueAtTime(tone.from, start);
+      if (tone.to !== tone.from) oscillator.frequency.exponentialRampToValueAtTime(tone.to, end);
+      envelope.gain.setValueAtTime(0, start);
+      envelope.gain.linearRampToValueAtTime(tone.gain, start + ATTACK);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+      oscillator.connect(envelope).connect(destination);
+      oscillator.start(start);
+      oscillator.stop(end + 0.02);
+    });
+  };
+
+  // Point the listener where the camera looks; the camera always sits at the origin
+  const orientListener = (ctx: AudioContext, aim: Aim) => {
+    const [fx, fy, fz] = aimForward(aim);
+    const [ux, uy, uz] = aimUp(aim);
+    const { listener } = ctx;
+    if (listener.forwardX) {
+      listener.forwardX.value = fx;
+      listener.forwardY.value = fy;
+      listener.forwardZ.value = fz;
+      listener.upX.value = ux;
+      listener.upY.value = uy;
+      listener.upZ.value = uz;
+    } else {
+      listener.setOrientation(fx, fy, fz, ux, uy, uz);
+    }
+  };
+
+  return {
+    setSettings: (next) => {
+      settings = next;
+      if (context && master) master.gain.setValueAtTime(masterLevel(), context.currentTime);
+    },
+    hit: () => {
+      if (settings.hitSound) play(HIT_TONES);
+    },
+    miss: () => {
+      if (settings.missSound) play(MISS_TONES);
+    },
+    kill: () => {
+      if (settings.killSound) play(KILL_TONES);
+    },
+    spawn: (position, aim) => {
+      if (!settings.spawnSound) return;
+      play(SPAWN_TONES, ctx => {
+        orientListener(ctx, aim);
+        const panner = new PannerNode(ctx, {
+          panningModel: 'HRTF',
+          distanceModel: 'inverse',
+          refDistance: 5,
+          positionX: position[0],
+          positionY: position[1],
+          positionZ: position[2],
+        });
+        panner.connect(master!);
+        return panner;
+      });
+    },
+    dispose: () => {
+      void context?.close();
+      context = null;
+      master = null;
+    },
+  };
+};
@@ -0,0 +1,159 @@
+import { MovementPattern, RespawnRule, ScenarioDefinition, ScoringMode, SessionResult } from '../types';
+import { classifyMovingMisses } from './missAnalysis';
+import { summarizeTargets } from './targetMetrics';
+import { clampSensitivity } from './sensitivityService';
+
+// Slow strafing targets that must be clicked: exercises both the flick onto a
+// target and the correction against its motion, so every round yields
+// accuracy, over/undershoot and time-to-kill
+export const CALIBRATION_SCENARIO: ScenarioDefinition = {
+  id: 'CALIBRATION',
+  name: 'Sensitivity Matcher',
+  description: 'Short calibration round.',
+  icon: '🎚️',
+  accent: 'cyan',
+  duration: 15,
+  targetCount: 1,
+  spawnBounds: { min: [-5, 1, -12], max: [5, 4, -9] },
+  radius: { min: 0.4, max: 0.4 },
+  movement: {
+    pattern: MovementPattern.LINEAR_BOUNCE,
+    axis: 'x',
+    speed: { min: 1, max: 2.5 },
+    travel: { min: -7, max: 7 },
+  },
+  scoring: ScoringMode.CLICK,
+  respawn: RespawnRule.REPLACE_ON_KILL,
+  respawnDelay: 0,
+};
+
+export const DEFAULT_ROUND_COUNT = 7;
+
+// First three rounds bracket the starting value
+const OPENING_MULTIPLIERS = [1.0, 0.7, 1.4];
+
+export interface CalibrationRound {
+  sensitivity: number;
+  accuracy: number;       // 0..1
+  overshootRatio: number; // (over - under) / (over + under); 0 when balanced or no data
+  timeToKill: number;     // Median seconds from spawn to kill, Infinity if nothing was hit
+  performance: number;    // Combined round score used for the fit (higher is better)
+}
+
+export interface CalibrationRecommendation {
+  sensitivity: number;
+  low: number;  // 95% interval
+  high: number;
+  method: 'fit' | 'best-round';
+}
+
+// -----------------------------------------------------------------------------
+// Round scoring
+// -----------------------------------------------------------------------------
+export const scoreRound = (sensitivity: number, result: SessionResult, duration: number): CalibrationRound => {
+  const accuracy = result.shotsFired > 0 ? result.shotsHit / result.shotsFired : 0;
+  const { overshoots, undershoots } = classifyMovingMisses(result.missData);
+  const directional = overshoots + undershoots;
+  const overshootRatio = directional > 0 ? (overshoots - undershoots) / directional : 0;
+  // Fall back to the average kill interval if no target was tracked to its kill
+  const { medianTimeToKill } = summarizeTargets(result.targetRecords);
+  const timeToKill = medianTimeToKill !== null
+    ? medianTimeToKill / 1000
+    : result.shotsHit > 0 ? duration / result.shotsHit : Infinity;
+
+  // Accurate kills per second, discounted by how one-sided the misses were
+  const killRate = Number.isFinite(timeToKill) ? 1 / timeToKill : 0;
+  const performance = accuracy * killRate * (1 - 0.5 * Math.abs(overshootRatio));
+
+  return { sensitivity, accuracy, overshootRatio, timeToKill, performance };
+};
+
+// -----------------------------------------------------------------------------
+// Staircase: bracket the start value, then bisect toward the better side
+// -----------------------------------------------------------------------------
+export const nextSensitivity = (rounds: CalibrationRound[], start: number): number => {
+  if (rounds.length < OPENING_MULTIPLIERS.length) {
+    return clampSensitivity(start * OPENING_MULTIPLIERS[rounds.length]);
+  }
+
+  const sorted = [...rounds].sort((a, b) => a.sensitivity - b.sensitivity);
+  const best = sorted.reduce((bi, r, i) => (r.performance > sorted[bi].performance ? i : bi), 0);
+
+  // Best at the edge: extend the bracket outward
+  if (best === 0) return clampSensitivity(sorted[0].sensitivity / 1.4);
+  if (best === sorted.length - 1) return clampSensitivity(sorted[best].sensitivity * 1.4);
+
+  // Otherwise bisect (geometrically) toward the stronger neighbour
+  const left = sorted[best - 1];
+  const right = sorted[best + 1];
+  const neighbour = left.performance >= right.performance ? left : right;
+  return Math.sqrt(sorted[best].sensitivity * neighbour.sensitivity);
+};
+
+// -----------------------------------------------------------------------------
+// Recommendation: quadratic fit of performance against log-sensitivity
+// -----------------------------------------------------------------------------
+// Least-squares y = a·u² + b·u + c; returns the vertex u or null when there is no peak
+const fitPeak = (points: { u: number; y: number }[]): number | null => {
+  if (points.length < 3) return null;
+
+  // Normal equations
+  let s0 = 0, s1 = 0, s2 = 0, s3 = 0, s4 = 0, t0 = 0, t1 = 0, t2 = 0;
+  points.forEach(({ u, y }) => {
+    const u2 = u * u;
+    s0 += 1; s1 += u; s2 += u2; s3 += u2 * u; s4 += u2 * u2;
+    t0 += y; t1 += u * y; t2 += u2 * y;
+  });
+
+  const det3 = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+  const M = [[s4, s3, s2], [s3, s2, s1], [s2, s1, s0]];
+  const D = det3(M);
+  if (Math.abs(D) < 1e-12) return null;
+
+  // Cramer's rule for a and b
+  const a = det3([[t2, s3, s2], [t1, s2, s1], [t0, s1, s0]]) / D;
+  const b = det3([[s4, t2, s2], [s3, t1, s1], [s2, t0, s0]]) / D;
+  if (a >= 0) return null;
+
+  // Keep the peak inside the tested range; the fit is meaningless beyond it
+  const us = points.map(p => p.u);
+  return Math.min(Math.max(-b / (2 * a), Math.min(...us)), Math.max(...us));
+};
+
+const bestRoundU = (points: { u: number; y: number }[]) =>
+  points.reduce((best, p) => (p.y > best.y ? p : best), points[0]).u;
+
+export const recommendSensitivity = (rounds: CalibrationRound[]): CalibrationRecommendation | null => {
+  if (rounds.length === 0) return null;
+  const points = rounds.map(r => ({ u: Math.log(r.sensitivity), y: r.performance }));
+
+  const peak = fitPeak(points);
+  const estimate = peak ?? bestRoundU(points);
+
+  // Jackknife the estimate to get its spread
+  let se = 0;
+  if (points.length >= 4) {
+    const leaveOneOut = points.map((_, i) => {
+      const rest = points.filter((__, j) => j !== i);
+      return fitPeak(rest) ?? bestRoundU(rest);
+    });
+    const mean = leaveOneOut.reduce((a, b) => a + b, 0) / leaveOneOut.length;
+    const n = leaveOneOut.length;
+    se = Math.sqrt(((n - 1) / n) * leaveOneOut.reduce((acc, v) => acc + (v - mean) ** 2, 0));
+  } else {
+    // Too few rounds to resample; fall back to half the tested span
+    const us = points.map(p => p.u);
+    se = (Math.max(...us) - Math.min(...us)) / 4;
+  }
+
+  return {
+    sensitivity: clampSensitivity(Math.exp(estimate)),
+    low: clampSensitivity(Math.exp(estimate - 1.96 * se)),
+    high: clampSensitivity(Math.exp(estimate + 1.96 * se)),
+    method: peak !== null ? 'fit' : 'best-round',
+  };
+};
@@ -0,0 +1,248 @@
+import { HitboxShape, MovementPattern, RespawnRule, ScenarioDefinition, ScoringMode } from '../types';
+import { BUILT_IN_SCENARIOS, registerScenario, unregisterScenario } from './scenarioRegistry';
+import { AXIS_PATTERNS } from './movementModels';
+import { isObject, isSupportedVersion } from './validation';
+import { downloadJson } from './fileDownload';
+
+const STORAGE_KEY = 'precision-aim-lab:custom-scenarios:v1';
+
+// Shared drill files. Versions:
+//   2: movement tuning (acceleration, changeInterval, pathRadius, smoothing)
+//   3: humanoid hitboxes
+export const SCENARIO_FILE_FORMAT = 'precision-aim-lab/scenario';
+export const SCENARIO_FILE_VERSION = 3;
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scenario: ScenarioDefinition;
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+const LIMITS = {
+  duration: [5, 600],
+  targetCount: [1, 20],
+  radius: [0.05, 5],
+  coordinate: [-100, 100],
+  speed: [0, 50],
+  acceleration: [1, 500],
+  changeInterval: [0.05, 10],
+  pathRadius: [0.1, 20],
+  smoothing: [0, 5],
+  bodyHeight: [2, 20], // Body radii; 2 is a sphere
+  headRadius: [0.1, 3],
+  neckGap: [0, 3],
+  headScore: [1, 10],
+  respawnDelay: [0, 10],
+} as const;
+
+const checkNumber = (errors: string[], path: string, n: unknown, [min, max]: readonly [number, number]) => {
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    errors.push(`${path} must be a number.`);
+  } else if (n < min || n > max) {
+    errors.push(`${path} must be between ${min} and ${max} (got ${n}).`);
+  }
+};
+
+const checkEnum = (errors: string[], path: string, v: unknown, allowed: string[]) => {
+  if (typeof v !== 'string' || !allowed.includes(v)) {
+    errors.push(`${path} must be one of ${allowed.join(', ')}.`);
+  }
+};
+
+// Also checks the hitbox carried by replays and session files
+export const validateHitbox = (value: unknown, path = 'hitbox'): string[] => {
+  if (!isObject(value)) return [`${path} must be an object when present.`];
+  const errors: string[] = [];
+  checkEnum(errors, `${path}.shape`, value.shape, Object.values(HitboxShape));
+  (['bodyHeight', 'headRadius', 'neckGap', 'headScore'] as const).forEach(key =>
+    checkNumber(errors, `${path}.${key}`, value[key], LIMITS[key])
+  );
+  if (typeof value.headLine !== 'boolean') errors.push(`${path}.headLine must be true or false.`);
+  return errors;
+};
+
+// Returns a list of human readable problems; empty means the definition is usable
+export const validateScenario = (value: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(value)) return ['Scenario must be an object.'];
+
+  const checkRange = (path: string, range: unknown, limits: readonly [number, number]) => {
+    if (!isObject(range)) {
+      errors.push(`${path} must be an object with "min" and "max".`);
+      return;
+    }
+    checkNumber(errors, `${path}.min`, range.min, limits);
+    checkNumber(errors, `${path}.max`, range.max, limits);
+    if (typeof range.min === 'number' && typeof range.max === 'number' && range.min > range.max) {
+      errors.push(`${path}.min must not be greater than ${path}.max.`);
+    }
+  };
+
+  const checkVec3 = (path: string, vec: unknown) => {
+    if (!Array.isArray(vec) || vec.length !== 3) {
+      errors.push(`${path} must be an [x, y, z] array.`);
+      return;
+    }
+    vec.forEach((n, i) => checkNumber(errors, `${path}[${i}]`, n, LIMITS.coordinate));
+  };
+
+  ['id', 'name'].forEach(key => {
+    if (typeof value[key] !== 'string' || value[key].trim() === '') errors.push(`${key} must be a non-empty string.`);
+  });
+  ['description', 'icon', 'accent'].forEach(key => {
+    if (typeof value[key] !== 'string') errors.push(`${key} must be a string.`);
+  });
+
+  checkNumber(errors, 'duration', value.duration, LIMITS.duration);
+  checkNumber(errors, 'targetCount', value.targetCount, LIMITS.targetCount);
+  if (typeof value.targetCount === 'number' && !Number.isInteger(value.targetCount)) {
+    errors.push('targetCount must be a whole number.');
+  }
+
+  if (!isObject(value.spawnBounds)) {
+    errors.push('spawnBounds must be an object with "min" and "max" corners.');
+  } else {
+    checkVec3('spawnBounds.min', value.spawnBounds.min);
+    checkVec3('spawnBounds.max', value.spawnBounds.max);
+    const { min, max } = value.spawnBounds;
+    if (Array.isArray(min) && Array.isArray(max) && min.some((n: number, i: number) => n > max[i])) {
+      errors.push('spawnBounds.min must not be greater than spawnBounds.max on any axis.');
+    }
+    // Targets must spawn in front of the player (camera looks down -Z)
+    if (Array.isArray(max) && typeof max[2] === 'number' && max[2] >= 0) {
+      errors.push('spawnBounds.max[2] must be negative so targets appear in front of the player.');
+    }
+  }
+
+  if (value.initialPositions !== undefined) {
+    if (!Array.isArray(value.initialPositions)) {
+      errors.push('initialPositions must be an array of [x, y, z] points.');
+    } else {
+      value.initialPositions.forEach((p: unknown, i: number) => checkVec3(`initialPositions[${i}]`, p));
+    }
+  }
+
+  checkRange('radius', value.radius, LIMITS.radius);
+
+  if (!isObject(value.movement)) {
+    errors.push('movement must be an object.');
+  } else {
+    checkEnum(errors, 'movement.pattern', value.movement.pattern, Object.values(MovementPattern));
+    checkEnum(errors, 'movement.axis', value.movement.axis, ['x', 'y', 'z']);
+    checkRange('movement.speed', value.movement.speed, LIMITS.speed);
+    checkRange('movement.travel', value.movement.travel, LIMITS.coordinate);
+    // Pattern tuning is optional; defaults come from movementParams
+    (['acceleration', 'pathRadius', 'smoothing'] as const).forEach(key => {
+      if (value.movement[key] !== undefined) checkNumber(errors, `movement.${key}`, value.movement[key], LIMITS[key]);
+    });
+    if (value.movement.changeInterval !== undefined) {
+      checkRange('movement.changeInterval', value.movement.changeInterval, LIMITS.changeInterval);
+    }
+    // Axis patterns clamp to their travel, so targets must spawn inside it
+    const { travel, axis, pattern } = value.movement;
+    const i = typeof axis === 'string' ? ['x', 'y', 'z'].indexOf(axis) : -1;
+    const bounds = isObject(value.spawnBounds) ? value.spawnBounds : {};
+    const min = Array.isArray(bounds.min) ? bounds.min[i] : undefined;
+    const max = Array.isArray(bounds.max) ? bounds.max[i] : undefined;
+    if (AXIS_PATTERNS.includes(pattern as MovementPattern) && i >= 0 && isObject(travel) &&
+      typeof travel.min === 'number' && typeof travel.max === 'number' &&
+      typeof min === 'number' && typeof max === 'number' && (min < travel.min || max > travel.max)) {
+      errors.push(`spawnBounds must lie within movement.travel (${travel.min} to ${travel.max}) on the ${axis} axis.`);
+    }
+  }
+
+  if (value.hitbox !== undefined) errors.push(...validateHitbox(value.hitbox));
+
+  checkEnum(errors, 'scoring', value.scoring, Object.values(ScoringMode));
+  checkEnum(errors, 'respawn', value.respawn, Object.values(RespawnRule));
+  checkNumber(errors, 'respawnDelay', value.respawnDelay, LIMITS.respawnDelay);
+
+  return errors;
+};
+
+// -----------------------------------------------------------------------------
+// Local storage
+// -----------------------------------------------------------------------------
+export const newScenarioId = () => `custom-${Math.random().toString(36).substr(2, 9)}`;
+
+export const loadCustomScenarios = (): ScenarioDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(def => validateScenario(def).length === 0) : [];
+  } catch (err) {
+    console.warn('Custom scenarios are unreadable, ignoring them.', err);
+    return [];
+  }
+};
+
+const writeCustomScenarios = (scenarios: ScenarioDefinition[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch (err) {
+    console.warn('Custom scenarios could not be saved.', err);
+  }
+};
+
+// Make stored scenarios available in the menu; call once at startup
+export const registerCustomScenarios = () => {
+  loadCustomScenarios().forEach(registerScenario);
+};
+
+export const saveCustomScenario = (definition: ScenarioDefinition) => {
+  const others = loadCustomScenarios().filter(def => def.id !== definition.id);
+  writeCustomScenarios([...others, definition]);
+  registerScenario(definition);
+};
+
+export const deleteCustomScenario = (id: string) => {
+  writeCustomScenarios(loadCustomScenarios().filter(def => def.id !== id));
+  unregisterScenario(id);
+};
+
+// -----------------------------------------------------------------------------
+// File import / export
+// -----------------------------------------------------------------------------
+export const exportScenarioFile = (definition: ScenarioDefinition) => {
+  const file: ScenarioFile = {
+    format: SCENARIO_FILE_FORMAT,
+    version: SCENARIO_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenario: definition,
+  };
+  downloadJson(definition.name, 'scenario.json', JSON.stringify(file, null, 2));
+};
+
+export type ScenarioImportResult =
+  | { ok: true; scenario: ScenarioDefinition }
+  | { ok: false; errors: string[] };
+
+// Parse and validate a shared scenario file
+export const parseScenarioFile = (text: string): ScenarioImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+
+  if (!isObject(data) || data.format !== SCENARIO_FILE_FORMAT) {
+    return { ok: false, errors: [`File is not a scenario export (expected format "${SCENARIO_FILE_FORMAT}").`] };
+  }
+  if (!isSupportedVersion(data.version, SCENARIO_FILE_VERSION)) {
+    return { ok: false, errors: [`Unsupported scenario file version ${data.version}. This app reads up to version ${SCENARIO_FILE_VERSION}.`] };
+  }
+
+  const errors = validateScenario(data.scenario);
+  if (errors.length > 0) return { ok: false, errors };
+
+  // Never let an import shadow a built-in scenario
+  const scenario = data.scenario as ScenarioDefinition;
+  const clashes = BUILT_IN_SCENARIOS.some(def => def.id === scenario.id);
+  return { ok: true, scenario: clashes ? { ...scenario, id: newScenarioId() } : scenario };
+};
@@ -0,0 +1,19 @@
+// Browser downloads for exported files
+
+// "<slug of name>.<suffix>"; an empty slug falls back to the suffix's first part
+export const exportFilename = (name: string, suffix: string) =>
+  `${name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || suffix.split('.')[0]}.${suffix}`;
+
+export const downloadText = (filename: string, type: string, text: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Saves `text` as e.g. "my-drill.scenario.json" for downloadJson('My drill', 'scenario.json', text)
+export const downloadJson = (name: string, suffix: string, text: string) =>
+  downloadText(exportFilename(name, suffix), 'application/json', text);
@@ -0,0 +1,175 @@
+import { AimSample, ShotData, TargetRecord, Vec3 } from '../types';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Flicks shorter than this are micro-adjustments, not flicks
+const MIN_FLICK_AMPLITUDE = 1.5; // degrees
+// Below this share of its peak speed, the ballistic phase ends at the next velocity minimum
+const BALLISTIC_END_SPEED = 0.2;
+// Landing must clear the target edge by this much to count as an over- or undershoot
+const EDGE_MARGIN = 0.1; // degrees
+
+export interface FlickPoint {
+  time: number;  // ms since the flick started
+  along: number; // Degrees travelled toward the target (target sits at `amplitude`)
+  across: number; // Degrees off the straight line, positive = clockwise of it
+}
+
+export interface Flick {
+  targetId: string;
+  hit: boolean;             // Whether the shot that ended the flick hit
+  amplitude: number;        // Degrees from start to target center
+  targetRadius: number;     // Angular radius of the target, degrees
+  peakSpeed: number;        // deg/s
+  ballisticTime: number;    // ms of the initial ballistic phase
+  correctionTime: number;   // ms from ballistic end to the shot
+  primaryError: number;     // Degrees past (+) or short of (-) the target at ballistic end
+  primaryErrorAcross: number;
+  landingX: number;         // Degrees right (+) or left (-) of the target center at ballistic end
+  directionX: number;       // Rightward part of the unit direction toward the target
+  path: FlickPoint[];
+  ballisticEndIndex: number; // Index into path where the correction phase starts
+}
+
+export interface FlickSummary {
+  flicks: Flick[];
+  overshoots: number;  // Ballistic phase ended beyond the target edge
+  undershoots: number; // Ballistic phase ended short of the target edge
+  meanPrimaryError: number | null; // Signed, as % of amplitude
+  meanCorrectionTime: number | null;
+}
+
+// Angular position of a world point seen from the camera at the origin
+const directionOf = (position: Vec3) => {
+  const [x, y, z] = position;
+  return { yaw: Math.atan2(-x, -z), pitch: Math.atan2(y, Math.hypot(x, z)) };
+};
+
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+// Aim point relative to a target, in degrees (right / up positive)
+const offsetFrom = (sample: AimSample, target: { yaw: number; pitch: number }) => ({
+  x: -wrapAngle(sample.yaw - target.yaw) * Math.cos(target.pitch) * RAD_TO_DEG,
+  y: (sample.pitch - target.pitch) * RAD_TO_DEG,
+});
+
+// Landing inside the target, or too close to its edge to tell, is neither.
+// `biasX` (degrees, right positive) is a steady sideways offset to take out first.
+export const flickOutcome = (flick: Flick, biasX = 0): 'overshoot' | 'undershoot' | null => {
+  const error = flick.primaryError - biasX * flick.directionX;
+  return error > flick.targetRadius + EDGE_MARGIN ? 'overshoot'
+    : error < -(flick.targetRadius + EDGE_MARGIN) ? 'undershoot'
+    : null;
+};
+
+// -----------------------------------------------------------------------------
+// Split the aim path into one flick per shot at a static target
+// -----------------------------------------------------------------------------
+const isStatic = (record: TargetRecord) => record.velocity.every(v => v === 0);
+
+export const analyzeFlicks = (
+  aimPath: AimSample[],
+  shots: ShotData[],
+  targets: TargetRecord[]
+): FlickSummary => {
+  const targetById = new Map(targets.map(t => [t.targetId, t]));
+  const flicks: Flick[] = [];
+
+  let pathIndex = 0;
+  let previousShotTime = aimPath.length > 0 ? aimPath[0].time : 0;
+
+  shots.forEach(shot => {
+    const windowStart = previousShotTime;
+    previousShotTime = shot.timestamp;
+
+    const record = shot.targetId ? targetById.get(shot.targetId) : undefined;
+    if (!record || !isStatic(record)) return;
+
+    // Start at whichever came last: the previous shot or the target's spawn
+    const start = Math.max(windowStart, record.spawnTime);
+    while (pathIndex < aimPath.length && aimPath[pathIndex].time < start) pathIndex++;
+    const samples: AimSample[] = [];
+    for (let i = pathIndex; i < aimPath.length && aimPath[i].time <= shot.timestamp; i++) samples.push(aimPath[i]);
+    if (samples.length < 3) return;
+
+    const target = directionOf(record.position);
+    const offsets = samples.map(s => offsetFrom(s, target));
+    const start2d = offsets[0];
+    const amplitude = Math.hypot(start2d.x, start2d.y);
+    if (amplitude < MIN_FLICK_AMPLITUDE) return;
+
+    // Rotate into flick coordinates: +along points from the start to the target
+    const ux = -start2d.x / amplitude;
+    const uy = -start2d.y / amplitude;
+    const path: FlickPoint[] = offsets.map((o, i) => {
+      const dx = o.x - start2d.x;
+      const dy = o.y - start2d.y;
+      return {
+        time: samples[i].time - samples[0].time,
+        along: dx * ux + dy * uy,
+        across: dx * uy - dy * ux,
+      };
+    });
+
+    // Angular speed between samples, lightly smoothed
+    const rawSpeed = path.map((p, i) => {
+      if (i === 0) return 0;
+      const dt = (p.time - path[i - 1].time) / 1000;
+      return dt > 0 ? Math.hypot(p.along - path[i - 1].along, p.across - path[i - 1].across) / dt : 0;
+    });
+    const speed = rawSpeed.map((_, i) => {
+      const window = rawSpeed.slice(Math.max(0, i - 1), i + 2);
+      return window.reduce((a, b) => a + b, 0) / window.length;
+    });
+
+    let peakIndex = 0;
+    speed.forEach((s, i) => { if (s > speed[peakIndex]) peakIndex = i; });
+    const peakSpeed = speed[peakIndex];
+    if (peakSpeed <= 0) return;
+
+    // Ballistic phase: once the speed has collapsed, until it stops falling or the motion reverses
+    let ballisticEndIndex = path.length - 1;
+    for (let i = peakIndex + 1; i < path.length; i++) {
+      if (path[i].along < path[i - 1].along) {
+        ballisticEndIndex = i - 1;
+        break;
+      }
+      if (speed[i] < peakSpeed * BALLISTIC_END_SPEED && (i + 1 === path.length || speed[i + 1] >= speed[i])) {
+        ballisticEndIndex = i;
+        break;
+      }
+    }
+
+    const ballisticEnd = path[ballisticEndIndex];
+    const shotTime = path[path.length - 1].time;
+    const distance = Math.hypot(record.position[0], record.position[1], record.position[2]);
+
+    flicks.push({
+      targetId: record.targetId,
+      hit: shot.hit,
+      amplitude,
+      targetRadius: Math.atan2(record.radius, distance) * RAD_TO_DEG,
+      peakSpeed,
+      ballisticTime: ballisticEnd.time,
+      correctionTime: shotTime - ballisticEnd.time,
+      primaryError: ballisticEnd.along - amplitude,
+      primaryErrorAcross: ballisticEnd.across,
+      landingX: offsets[ballisticEndIndex].x,
+      directionX: ux,
+      path,
+      ballisticEndIndex,
+    });
+  });
+
+  const overshoots = flicks.filter(f => flickOutcome(f) === 'overshoot').length;
+  const undershoots = flicks.filter(f => flickOutcome(f) === 'undershoot').length;
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+  return {
+    flicks,
+    overshoots,
+    undershoots,
+    meanPrimaryError: mean(flicks.map(f => (f.primaryError / f.amplitude) * 100)),
+    meanCorrectionTime: mean(flicks.map(f => f.correctionTime)),
+  };
+};
@@ -0,0 +1,43 @@
+import { FovScaling, TargetGame } from '../types';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// What the trainer always used before FOV was configurable
+export const DEFAULT_VERTICAL_FOV = 75;
+
+export const FOV_SCALING_LABELS: Record<FovScaling, string> = {
+  [FovScaling.VERTICAL]: 'Vertical',
+  [FovScaling.HORIZONTAL]: 'Horizontal (this screen)',
+  [FovScaling.HORIZONTAL_4_3]: 'Horizontal 4:3',
+  [FovScaling.HORIZONTAL_16_9]: 'Horizontal 16:9',
+};
+
+export interface GameFovProfile {
+  scaling: FovScaling;
+  fov: number; // The game's default
+}
+
+export const GAME_FOV_PROFILES: Record<TargetGame, GameFovProfile> = {
+  [TargetGame.CS2]: { scaling: FovScaling.HORIZONTAL_4_3, fov: 90 },
+  [TargetGame.VALORANT]: { scaling: FovScaling.HORIZONTAL_16_9, fov: 103 },
+  [TargetGame.OVERWATCH]: { scaling: FovScaling.HORIZONTAL_16_9, fov: 103 },
+};
+
+const referenceAspect = (scaling: FovScaling, aspect: number) => {
+  switch (scaling) {
+    case FovScaling.VERTICAL: return null;
+    case FovScaling.HORIZONTAL: return aspect;
+    case FovScaling.HORIZONTAL_4_3: return 4 / 3;
+    case FovScaling.HORIZONTAL_16_9: return 16 / 9;
+  }
+};
+
+// Vertical FOV the camera needs to show `fov` measured the way `scaling` says, on a screen of `aspect`
+export const toVerticalFov = (fov: number, scaling: FovScaling, aspect: number) => {
+  const reference = referenceAspect(scaling, aspect);
+  if (reference === null) return fov;
+  return (2 * Math.atan(Math.tan((fov / 2) * DEG_TO_RAD) / reference)) / DEG_TO_RAD;
+};
+
+export const toHorizontalFov = (verticalFov: number, aspect: number) =>
+  (2 * Math.atan(Math.tan((verticalFov / 2) * DEG_TO_RAD) * aspect)) / DEG_TO_RAD;
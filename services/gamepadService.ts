@@ -0,0 +1,101 @@
+import { DeadzoneShape, GamepadSettings, StickCurve } from '../types';
+
+// Standard mapping (https://w3c.github.io/gamepad/#remapping)
+const RIGHT_STICK_X = 2;
+const RIGHT_STICK_Y = 3;
+const RIGHT_TRIGGER = 7;
+const START_BUTTON = 9;
+
+// Post-deadzone deflection that counts as holding the stick at the edge, for the acceleration ramp
+const RAMP_DEFLECTION = 0.95;
+
+export interface GamepadState {
+  stick: [number, number]; // Right stick, raw; -1..1, down is +y
+  trigger: number;         // Right trigger travel, 0-1
+  start: boolean;
+}
+
+// The first connected pad, or null
+export const readGamepad = (): GamepadState | null => {
+  const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+  const pad = Array.from(pads).find(p => p && p.connected);
+  if (!pad) return null;
+  return {
+    stick: [pad.axes[RIGHT_STICK_X] ?? 0, pad.axes[RIGHT_STICK_Y] ?? 0],
+    trigger: pad.buttons[RIGHT_TRIGGER]?.value ?? 0,
+    start: pad.buttons[START_BUTTON]?.pressed ?? false,
+  };
+};
+
+export const connectedGamepadName = () => {
+  const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+  return Array.from(pads).find(p => p && p.connected)?.id ?? null;
+};
+
+// -----------------------------------------------------------------------------
+// Stick processing: deadzone, then response curve, then speed
+// -----------------------------------------------------------------------------
+// Maps |value| from [inner, outer] onto [0, 1]
+const rescale = (value: number, inner: number, outer: number) =>
+  Math.min(Math.max((value - inner) / Math.max(outer - inner, 1e-6), 0), 1);
+
+export const applyDeadzone = ([x, y]: [number, number], settings: GamepadSettings): [number, number] => {
+  const { innerDeadzone, outerDeadzone } = settings;
+  if (settings.deadzoneShape === DeadzoneShape.AXIAL) {
+    return [Math.sign(x) * rescale(Math.abs(x), innerDeadzone, outerDeadzone), Math.sign(y) * rescale(Math.abs(y), innerDeadzone, outerDeadzone)];
+  }
+  const magnitude = Math.hypot(x, y);
+  if (magnitude === 0) return [0, 0];
+  const scaled = rescale(magnitude, innerDeadzone, outerDeadzone) / magnitude;
+  return [x * scaled, y * scaled];
+};
+
+// Applied to the deflection's magnitude, 0-1
+export const applyCurve = (value: number, settings: GamepadSettings) => {
+  const v = Math.min(Math.max(value, 0), 1);
+  const e = settings.curveExponent;
+  switch (settings.curve) {
+    case StickCurve.EXPONENTIAL:
+      return Math.pow(v, e);
+    case StickCurve.S_CURVE: {
+      const a = Math.pow(v, e);
+      return a / (a + Math.pow(1 - v, e));
+    }
+    default:
+      return v;
+  }
+};
+
+// Curved stick position; radial curves keep the stick's direction
+export const shapeStick = (stick: [number, number], settings: GamepadSettings): [number, number] => {
+  const [x, y] = applyDeadzone(stick, settings);
+  if (settings.deadzoneShape === DeadzoneShape.AXIAL) {
+    return [Math.sign(x) * applyCurve(Math.abs(x), settings), Math.sign(y) * applyCurve(Math.abs(y), settings)];
+  }
+  const magnitude = Math.hypot(x, y);
+  if (magnitude === 0) return [0, 0];
+  const scale = applyCurve(magnitude, settings) / magnitude;
+  return [x * scale, y * scale];
+};
+
+// Seconds the stick has been held at the edge, after this frame
+export const stepRamp = (heldTime: number, shaped: [number, number], delta: number) =>
+  Math.hypot(...shaped) >= RAMP_DEFLECTION ? heldTime + delta : 0;
+
+// Speed multiplier for a stick held at the edge for `heldTime` seconds
+export const rampMultiplier = (heldTime: number, settings: GamepadSettings) => {
+  const { accelerationBoost, accelerationDelay, accelerationTime } = settings;
+  if (accelerationBoost <= 0 || heldTime <= accelerationDelay) return 1;
+  const progress = accelerationTime > 0 ? Math.min((heldTime - accelerationDelay) / accelerationTime, 1) : 1;
+  return 1 + accelerationBoost * progress;
+};
+
+// Turn rate in radians/s (yaw left positive, pitch up positive, like the camera's Euler angles)
+export const aimVelocity = (shaped: [number, number], heldTime: number, settings: GamepadSettings) => {
+  const boost = rampMultiplier(heldTime, settings);
+  const toRadians = Math.PI / 180;
+  return {
+    yaw: -shaped[0] * settings.yawSpeed * toRadians * boost,
+    pitch: -shaped[1] * settings.pitchSpeed * toRadians * boost * (settings.invertY ? -1 : 1),
+  };
+};
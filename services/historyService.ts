@@ -0,0 +1,158 @@
+import { AimSample, InputDevice, SessionStats, TargetRecord, TrackingSample } from '../types';
+import { DEFAULT_PROFILE_ID } from './profileService';
+
+// Finished sessions of every profile, oldest first, kept in localStorage
+const STORAGE_KEY = 'precision-aim-lab:history:v1';
+const MAX_SESSIONS = 500; // Per profile
+
+// The aim path, target paths and tracking samples are most of a session's size.
+// History keeps the stats; these go under their own key, for the newest
+// sessions only, with the aim path thinned out.
+const DETAIL_KEY = 'precision-aim-lab:session-detail:v1';
+const MAX_DETAILED = 10;               // Newest sessions, across all profiles
+const AIM_SAMPLE_INTERVAL = 1000 / 60; // ms between kept aim samples
+
+interface SessionDetail {
+  id: string;
+  aimPath?: AimSample[];
+  trackingSamples?: TrackingSample[];
+  targetPaths?: Record<string, NonNullable<TargetRecord['path']>>; // By target id, moving targets only
+}
+
+// Sessions saved before profiles existed belong to the default profile
+export const sessionProfileId = (stats: SessionStats) => stats.profileId ?? DEFAULT_PROFILE_ID;
+
+// ...and were played with the mouse
+export const sessionInput = (stats: SessionStats) => stats.input ?? InputDevice.MOUSE;
+
+export const loadAllHistory = (): SessionStats[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('Session history is unreadable, starting fresh.', err);
+    return [];
+  }
+};
+
+export const loadHistory = (profileId: string): SessionStats[] =>
+  loadAllHistory().filter(s => sessionProfileId(s) === profileId);
+
+// -----------------------------------------------------------------------------
+// Per-sample detail, stored apart from the history
+// -----------------------------------------------------------------------------
+const thinAimPath = (path: AimSample[]) =>
+  path.filter((sample, i) => {
+    if (i === 0 || i === path.length - 1) return true;
+    // The first sample of every interval
+    return Math.floor(sample.time / AIM_SAMPLE_INTERVAL) !== Math.floor(path[i - 1].time / AIM_SAMPLE_INTERVAL);
+  });
+
+// The stats to keep in the history, and the detail to store apart; null when there is none
+const splitSession = (stats: SessionStats): [SessionStats, SessionDetail | null] => {
+  const { aimPath, trackingSamples, targetRecords, ...rest } = stats;
+  const targetPaths: NonNullable<SessionDetail['targetPaths']> = {};
+  const records = targetRecords?.map(({ path, ...record }) => {
+    if (path) targetPaths[record.targetId] = path;
+    return record;
+  });
+  const summary = { ...rest, ...(records ? { targetRecords: records } : {}) };
+  if (!aimPath && !trackingSamples && Object.keys(targetPaths).length === 0) return [summary, null];
+  return [summary, {
+    id: stats.id,
+    aimPath: aimPath && thinAimPath(aimPath),
+    trackingSamples,
+    targetPaths: Object.keys(targetPaths).length > 0 ? targetPaths : undefined,
+  }];
+};
+
+const loadDetails = (): SessionDetail[] => {
+  try {
+    const raw = localStorage.getItem(DETAIL_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('Session replays are unreadable, ignoring them.', err);
+    return [];
+  }
+};
+
+// Keeps the newest details of sessions still in the history, as many as fit
+const writeDetails = (details: SessionDetail[], history: SessionStats[]) => {
+  const ids = new Set(history.map(s => s.id));
+  let kept = details.filter(d => ids.has(d.id)).slice(-MAX_DETAILED);
+  for (;;) {
+    try {
+      localStorage.setItem(DETAIL_KEY, JSON.stringify(kept));
+      return;
+    } catch (err) {
+      if (kept.length === 0) {
+        console.warn('Session replays could not be saved.', err);
+        return;
+      }
+      kept = kept.slice(1);
+    }
+  }
+};
+
+// Puts the stored aim path, target paths and tracking samples back on the sessions
+// that still have them; the others keep their stats only
+export const withSessionDetail = (sessions: SessionStats[]): SessionStats[] => {
+  const details = new Map(loadDetails().map(d => [d.id, d]));
+  return sessions.map(stats => {
+    const detail = details.get(stats.id);
+    if (!detail || stats.aimPath) return stats;
+    return {
+      ...stats,
+      aimPath: detail.aimPath,
+      trackingSamples: detail.trackingSamples,
+      targetRecords: stats.targetRecords?.map(r => detail.targetPaths?.[r.targetId] ? { ...r, path: detail.targetPaths[r.targetId] } : r),
+    };
+  });
+};
+
+// -----------------------------------------------------------------------------
+// Writing
+// -----------------------------------------------------------------------------
+// Writes the history after trimming `profileId`'s sessions: down to its newest
+// MAX_SESSIONS, then oldest first until the data fits the storage quota. Other
+// profiles' sessions and `profileId`'s newest are never dropped. Returns what was
+// stored, or null when even that doesn't fit and the history is left as it was.
+const writeHistory = (sessions: SessionStats[], profileId: string): SessionStats[] | null => {
+  const own = sessions.filter(s => sessionProfileId(s) === profileId);
+  let drop = Math.max(own.length - MAX_SESSIONS, 0);
+  for (;;) {
+    const dropped = new Set(own.slice(0, drop));
+    const kept = sessions.filter(s => !dropped.has(s));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch (err) {
+      if (drop >= own.length - 1) {
+        console.warn('Session history is full, could not save.', err);
+        return null;
+      }
+      drop = Math.min(drop + Math.ceil((own.length - drop) / 10), own.length - 1);
+    }
+  }
+};
+
+// False when the session could not be stored. Sessions saved before the detail
+// had its own key move theirs over on the way.
+export const saveSession = (stats: SessionStats) => {
+  const details = loadDetails();
+  const split = [...loadAllHistory(), stats].map(splitSession);
+  const history = writeHistory(split.map(([summary]) => summary), sessionProfileId(stats));
+  if (!history) return false;
+  writeDetails([...details, ...split.flatMap(([, detail]) => detail ? [detail] : [])], history);
+  return true;
+};
+
+export const clearHistory = (profileId: string) => {
+  const history = writeHistory(loadAllHistory().filter(s => sessionProfileId(s) !== profileId), profileId);
+  if (history) writeDetails(loadDetails(), history);
+  return history !== null;
+};
@@ -0,0 +1,91 @@
+import { ShotData } from '../types';
+
+// 95% of a 2D normal distribution falls inside this many standard deviations
+const ELLIPSE_95_SCALE = Math.sqrt(5.991);
+
+export interface ImpactPoint {
+  x: number; // Target radii, right positive
+  y: number; // Target radii, up positive
+}
+
+export interface ImpactSummary {
+  count: number;
+  meanX: number; // Mean point of impact, target radii
+  meanY: number;
+  sdX: number;
+  sdY: number;
+  meanError: number;      // Mean distance from the target center, target radii
+  meanErrorDegrees: number;
+  // 95% error ellipse around the mean point of impact
+  ellipse: { radiusMajor: number; radiusMinor: number; angle: number };
+}
+
+export const toArcminutes = (degrees: number) => degrees * 60;
+
+// Shot offset in target radii; null for shots recorded before angular data existed
+export const impactPoint = (shot: ShotData): ImpactPoint | null => {
+  if (shot.angularX === undefined || shot.angularY === undefined || !shot.targetAngularRadius) return null;
+  return { x: shot.angularX / shot.targetAngularRadius, y: shot.angularY / shot.targetAngularRadius };
+};
+
+export const summarizeImpacts = (shots: ShotData[]): ImpactSummary | null => {
+  const measured = shots.filter(s => impactPoint(s) !== null);
+  if (measured.length < 2) return null;
+  const points = measured.map(s => impactPoint(s)!);
+  const n = points.length;
+
+  const meanX = points.reduce((acc, p) => acc + p.x, 0) / n;
+  const meanY = points.reduce((acc, p) => acc + p.y, 0) / n;
+
+  // Sample covariance
+  let sxx = 0, syy = 0, sxy = 0;
+  points.forEach(p => {
+    sxx += (p.x - meanX) ** 2;
+    syy += (p.y - meanY) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+  });
+  sxx /= n - 1;
+  syy /= n - 1;
+  sxy /= n - 1;
+
+  // Eigenvalues of the covariance matrix give the ellipse axes
+  const trace = sxx + syy;
+  const root = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy ** 2);
+  const major = trace / 2 + root;
+  const minor = Math.max(trace / 2 - root, 0);
+
+  return {
+    count: n,
+    meanX,
+    meanY,
+    sdX: Math.sqrt(sxx),
+    sdY: Math.sqrt(syy),
+    meanError: points.reduce((acc, p) => acc + Math.hypot(p.x, p.y), 0) / n,
+    meanErrorDegrees: measured.reduce((acc, s) => acc + (s.angularError ?? 0), 0) / n,
+    ellipse: {
+      radiusMajor: Math.sqrt(major) * ELLIPSE_95_SCALE,
+      radiusMinor: Math.sqrt(minor) * ELLIPSE_95_SCALE,
+      angle: 0.5 * Math.atan2(2 * sxy, sxx - syy),
+    },
+  };
+};
+
+// Closed outline of the error ellipse, for plotting
+export const ellipseOutline = (summary: ImpactSummary, segments = 48): ImpactPoint[] => {
+  const { radiusMajor, radiusMinor, angle } = summary.ellipse;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const t = (i / segments) * Math.PI * 2;
+    const a = radiusMajor * Math.cos(t);
+    const b = radiusMinor * Math.sin(t);
+    return { x: summary.meanX + a * cos - b * sin, y: summary.meanY + a * sin + b * cos };
+  });
+};
+
+// The target's edge (one target radius), for plotting
+export const targetOutline = (segments = 48): ImpactPoint[] =>
+  Array.from({ length: segments + 1 }, (_, i) => {
+    const t = (i / segments) * Math.PI * 2;
+    return { x: Math.cos(t), y: Math.sin(t) };
+  });
@@ -0,0 +1,136 @@
+import { Profile, SessionMode, SessionStats } from '../types';
+import { sessionProfileId } from './historyService';
+import { getScenario } from './scenarioRegistry';
+import { summarizeTargets } from './targetMetrics';
+
+export type LeaderboardMetric = 'score' | 'accuracy' | 'timeToKill';
+
+export const LEADERBOARD_METRICS: { key: LeaderboardMetric; label: string }[] = [
+  { key: 'score', label: 'Score' },
+  { key: 'accuracy', label: 'Accuracy' },
+  { key: 'timeToKill', label: 'Time to Kill' },
+];
+
+// Only full timed runs at the scenario's own duration, fixed difficulty and normal
+// target size are comparable; kill-count, practice, adaptive, abandoned, shortened
+// or lengthened and resized runs are not ranked
+export const isRankedSession = (stats: SessionStats) => {
+  if (stats.endedEarly || stats.adaptive || (stats.sessionMode ?? SessionMode.TIMED) !== SessionMode.TIMED) return false;
+  // Older sessions did not record these: a full run lasted its limit, and the visuals held the scale
+  const timeLimit = stats.timeLimit ?? (stats.duration !== undefined ? Math.round(stats.duration) : undefined);
+  const targetScale = stats.targetScale ?? stats.visuals?.targetScale ?? 1;
+  const scenario = getScenario(stats.scenario);
+  return targetScale === 1 && scenario !== undefined && (timeLimit === undefined || timeLimit === scenario.duration);
+};
+
+export const medianTimeToKill = (stats: SessionStats) => summarizeTargets(stats.targetRecords || []).medianTimeToKill;
+
+// Metric value, or null when the session has none (no kills for time to kill)
+const metricValue = (stats: SessionStats, metric: LeaderboardMetric): number | null => {
+  if (metric === 'score') return stats.score;
+  if (metric === 'accuracy') return stats.accuracy;
+  return medianTimeToKill(stats);
+};
+
+// Positive when a ranks above b
+const compare = (a: number, b: number, metric: LeaderboardMetric) => (metric === 'timeToKill' ? b - a : a - b);
+
+const best = (sessions: SessionStats[], metric: LeaderboardMetric): SessionStats | null => {
+  let top: SessionStats | null = null;
+  let topValue = 0;
+  sessions.forEach(s => {
+    const value = metricValue(s, metric);
+    if (value === null) return;
+    if (top === null || compare(value, topValue, metric) > 0) {
+      top = s;
+      topValue = value;
+    }
+  });
+  return top;
+};
+
+// -----------------------------------------------------------------------------
+// Personal bests
+// -----------------------------------------------------------------------------
+// Best ranked score per scenario id, from one profile's history
+export const personalBests = (history: SessionStats[]): Map<string, SessionStats> => {
+  const byScenario = new Map<string, SessionStats[]>();
+  history.filter(isRankedSession).forEach(s => byScenario.set(s.scenario, [...(byScenario.get(s.scenario) ?? []), s]));
+  const bests = new Map<string, SessionStats>();
+  byScenario.forEach((sessions, scenario) => bests.set(scenario, best(sessions, 'score')!));
+  return bests;
+};
+
+// Whether a session beat every earlier ranked score of its scenario in that history
+export const isPersonalBest = (stats: SessionStats, history: SessionStats[]) => {
+  if (!isRankedSession(stats)) return false;
+  const earlier = history.filter(s => s.id !== stats.id && s.scenario === stats.scenario && s.timestamp < stats.timestamp && isRankedSession(s));
+  return earlier.length > 0 && earlier.every(s => stats.score > s.score);
+};
+
+// -----------------------------------------------------------------------------
+// Leaderboards: one per scenario and seed, each profile's best run
+// -----------------------------------------------------------------------------
+export interface LeaderboardEntry {
+  rank: number;
+  profile: Profile;
+  session: SessionStats; // The profile's best run for the metric
+  runs: number;          // Ranked runs on this seed
+  score: number;
+  accuracy: number;
+  timeToKill: number | null; // Median, ms
+}
+
+export interface LeaderboardSeed {
+  seed: number;
+  dailyChallenge?: string;
+  players: number;
+  runs: number;
+}
+
+// Seeds of a scenario that have ranked runs, the most contested first
+export const leaderboardSeeds = (sessions: SessionStats[], scenario: string): LeaderboardSeed[] => {
+  const seeds = new Map<number, LeaderboardSeed & { profiles: Set<string> }>();
+  sessions.filter(s => s.scenario === scenario && isRankedSession(s)).forEach(s => {
+    const entry = seeds.get(s.seed) ?? { seed: s.seed, players: 0, runs: 0, profiles: new Set<string>() };
+    entry.runs += 1;
+    entry.profiles.add(sessionProfileId(s));
+    entry.dailyChallenge ??= s.dailyChallenge;
+    seeds.set(s.seed, entry);
+  });
+  return Array.from(seeds.values())
+    .map(({ profiles, ...entry }) => ({ ...entry, players: profiles.size }))
+    .sort((a, b) => b.players - a.players || b.runs - a.runs || a.seed - b.seed);
+};
+
+export const buildLeaderboard = (
+  sessions: SessionStats[],
+  profiles: Profile[],
+  scenario: string,
+  seed: number,
+  metric: LeaderboardMetric
+): LeaderboardEntry[] => {
+  const runs = sessions.filter(s => s.scenario === scenario && s.seed === seed && isRankedSession(s));
+  const entries = profiles.flatMap(profile => {
+    const own = runs.filter(s => sessionProfileId(s) === profile.id);
+    const top = best(own, metric);
+    if (!top) return [];
+    return [{
+      rank: 0,
+      profile,
+      session: top,
+      runs: own.length,
+      score: top.score,
+      accuracy: top.accuracy,
+      timeToKill: medianTimeToKill(top),
+    }];
+  });
+
+  entries.sort((a, b) => compare(metricValue(b.session, metric)!, metricValue(a.session, metric)!, metric));
+  // Ties share a rank
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    entry.rank = previous && metricValue(previous.session, metric) === metricValue(entry.session, metric) ? previous.rank : i + 1;
+  });
+  return entries;
+};
@@ -0,0 +1,38 @@
+import { ShotData } from '../types';
+import { impactPoint } from './impactStats';
+
+// Below this (units/s across the screen) a target is moving toward or away
+// from the camera, and ahead / behind means nothing
+const MIN_APPARENT_SPEED = 0.05;
+
+// Target motion on the relativeX / relativeY plane; older sessions only stored world x
+export const apparentVelocity = (shot: ShotData) =>
+  shot.targetApparentVelocity ?? (shot.targetVelocityX !== undefined ? { x: shot.targetVelocityX, y: 0 } : null);
+
+// Whether a shot was taken at a moving target, in any direction
+export const isMovingShot = (shot: ShotData) =>
+  shot.targetVelocity ? shot.targetVelocity.some(v => v !== 0) : !!shot.targetVelocityX;
+
+// Misses against a moving target: landing ahead of it is an overshoot,
+// landing behind it an undershoot. `biasX` (target radii, right positive) is a steady
+// sideways offset to take out first; misses it alone explains count as neither.
+export const classifyMovingMisses = (shots: ShotData[], biasX = 0) => {
+  let overshoots = 0;
+  let undershoots = 0;
+  shots.forEach(m => {
+    const velocity = apparentVelocity(m);
+    if (m.hit || !velocity || Math.hypot(velocity.x, velocity.y) < MIN_APPARENT_SPEED) return;
+    let x = m.relativeX || 0;
+    let y = m.relativeY || 0;
+    const point = biasX !== 0 ? impactPoint(m) : null;
+    if (point) {
+      x = point.x - biasX;
+      y = point.y;
+      if (Math.hypot(x, y) <= 1) return;
+    }
+    const along = x * velocity.x + y * velocity.y;
+    if (along > 0) overshoots += 1;
+    else if (along < 0) undershoots += 1;
+  });
+  return { overshoots, undershoots };
+};
@@ -0,0 +1,225 @@
+import { MotionState, MovementDefinition, MovementPattern, NumberRange, TargetEntity, Vec3 } from '../types';
+import { hashString, nextRandom } from './random';
+
+const AXIS_INDEX = { x: 0, y: 1, z: 2 } as const;
+
+// In-plane axes for CIRCULAR / NOISE, by the plane's normal; z faces the player
+const PLANE_AXES: Record<MovementDefinition['axis'], [number, number]> = { x: [2, 1], y: [0, 2], z: [0, 1] };
+
+// Every tunable with the pattern's default filled in
+export interface MovementParams {
+  acceleration: number;
+  changeInterval: NumberRange;
+  pathRadius: number;
+  smoothing: number;
+}
+
+const PATTERN_DEFAULTS: Partial<Record<MovementPattern, MovementParams>> = {
+  [MovementPattern.STRAFE]: { acceleration: 30, changeInterval: { min: 0.4, max: 1.5 }, pathRadius: 0, smoothing: 0 },
+  [MovementPattern.ADAD]: { acceleration: 80, changeInterval: { min: 0.12, max: 0.35 }, pathRadius: 0, smoothing: 0 },
+  [MovementPattern.CIRCULAR]: { acceleration: 0, changeInterval: { min: 0, max: 0 }, pathRadius: 2, smoothing: 0 },
+  [MovementPattern.NOISE]: { acceleration: 0, changeInterval: { min: 0.3, max: 0.9 }, pathRadius: 3, smoothing: 0.5 },
+};
+
+// Patterns that move along `axis` and stay within `travel`; the rest use it as a plane normal
+export const AXIS_PATTERNS = [MovementPattern.LINEAR_BOUNCE, MovementPattern.STRAFE, MovementPattern.ADAD];
+
+const NO_PARAMS: MovementParams = { acceleration: 0, changeInterval: { min: 0, max: 0 }, pathRadius: 0, smoothing: 0 };
+
+export const movementParams = (movement: MovementDefinition): MovementParams => {
+  const defaults = PATTERN_DEFAULTS[movement.pattern] ?? NO_PARAMS;
+  return {
+    acceleration: movement.acceleration ?? defaults.acceleration,
+    changeInterval: movement.changeInterval ?? defaults.changeInterval,
+    pathRadius: movement.pathRadius ?? defaults.pathRadius,
+    smoothing: movement.smoothing ?? defaults.smoothing,
+  };
+};
+
+// Draws from the motion's own PRNG state, so stepping stays a pure function
+const draw = (motion: MotionState): [number, MotionState] => {
+  const [value, random] = nextRandom(motion.random);
+  return [value, { ...motion, random }];
+};
+
+const drawInterval = (motion: MotionState, range: NumberRange): [number, MotionState] => {
+  const [value, next] = draw(motion);
+  return [range.min + value * (range.max - range.min), next];
+};
+
+// -----------------------------------------------------------------------------
+// Models
+// -----------------------------------------------------------------------------
+interface MovementModel {
+  // Starting velocity and state for a target spawned at `position`
+  init: (position: Vec3, speed: number, direction: number, movement: MovementDefinition, motion: MotionState) =>
+    { position: Vec3; velocity: Vec3; motion?: MotionState };
+  step: (target: TargetEntity, movement: MovementDefinition, delta: number) => TargetEntity;
+}
+
+const staticModel: MovementModel = {
+  init: position => ({ position, velocity: [0, 0, 0] }),
+  step: target => target,
+};
+
+// Constant speed along one axis, reversing at the travel limits
+const bounceModel: MovementModel = {
+  init: (position, speed, direction, movement) => {
+    const velocity: Vec3 = [0, 0, 0];
+    velocity[AXIS_INDEX[movement.axis]] = direction * speed;
+    return { position, velocity };
+  },
+  step: (target, movement, delta) => {
+    const axis = AXIS_INDEX[movement.axis];
+    const position: Vec3 = [...target.position];
+    const velocity: Vec3 = [...target.velocity];
+    position[axis] += velocity[axis] * delta;
+
+    if (position[axis] > movement.travel.max || position[axis] < movement.travel.min) {
+      velocity[axis] *= -1;
+      position[axis] = target.position[axis] + velocity[axis] * delta;
+    }
+
+    return { ...target, position, velocity };
+  },
+};
+
+// Along one axis, accelerating toward a wanted direction that changes at random
+// intervals. ADAD always reverses; STRAFE keeps going half the time.
+const strafeModel = (alwaysReverse: boolean): MovementModel => ({
+  init: (position, speed, direction, movement, motion) => {
+    const velocity: Vec3 = [0, 0, 0];
+    velocity[AXIS_INDEX[movement.axis]] = direction * speed;
+    const [timer, next] = drawInterval(motion, movementParams(movement).changeInterval);
+    return { position, velocity, motion: { ...next, heading: direction, timer } };
+  },
+  step: (target, movement, delta) => {
+    if (!target.motion) return target;
+    const { acceleration, changeInterval } = movementParams(movement);
+    const axis = AXIS_INDEX[movement.axis];
+    let motion = { ...target.motion, timer: target.motion.timer - delta };
+
+    if (motion.timer <= 0) {
+      let reverse = alwaysReverse;
+      if (!alwaysReverse) {
+        const [value, next] = draw(motion);
+        reverse = value < 0.5;
+        motion = next;
+      }
+      const [timer, next] = drawInterval(motion, changeInterval);
+      motion = { ...next, heading: reverse ? -motion.heading : motion.heading, timer };
+    }
+
+    // Turn back before the travel limits rather than sliding into them
+    const position: Vec3 = [...target.position];
+    const velocity: Vec3 = [...target.velocity];
+    if (position[axis] >= movement.travel.max) motion.heading = -1;
+    if (position[axis] <= movement.travel.min) motion.heading = 1;
+
+    const wanted = motion.heading * motion.speed;
+    const change = acceleration * delta;
+    velocity[axis] += Math.min(Math.max(wanted - velocity[axis], -change), change);
+    position[axis] = Math.min(Math.max(position[axis] + velocity[axis] * delta, movement.travel.min), movement.travel.max);
+
+    return { ...target, position, velocity, motion };
+  },
+});
+
+const circlePoint = (motion: MotionState, movement: MovementDefinition, radius: number) => {
+  const [a, b] = PLANE_AXES[movement.axis];
+  const angularSpeed = motion.speed / Math.max(radius, 1e-6);
+  const position: Vec3 = [...motion.anchor];
+  const velocity: Vec3 = [0, 0, 0];
+  position[a] += radius * Math.cos(motion.heading);
+  position[b] += radius * Math.sin(motion.heading);
+  velocity[a] = -radius * angularSpeed * motion.direction * Math.sin(motion.heading);
+  velocity[b] = radius * angularSpeed * motion.direction * Math.cos(motion.heading);
+  return { position, velocity };
+};
+
+// Constant speed around a circle that passes through the spawn point
+const circularModel: MovementModel = {
+  init: (position, speed, direction, movement, motion) => {
+    const radius = movementParams(movement).pathRadius;
+    const [a, b] = PLANE_AXES[movement.axis];
+    const [value, next] = draw(motion);
+    const heading = value * Math.PI * 2;
+    const anchor: Vec3 = [...position];
+    anchor[a] -= radius * Math.cos(heading);
+    anchor[b] -= radius * Math.sin(heading);
+    const state: MotionState = { ...next, anchor, speed, heading, direction };
+    return { ...circlePoint(state, movement, radius), motion: state };
+  },
+  step: (target, movement, delta) => {
+    if (!target.motion) return target;
+    const radius = movementParams(movement).pathRadius;
+    const angularSpeed = target.motion.speed / Math.max(radius, 1e-6);
+    const motion = { ...target.motion, heading: target.motion.heading + target.motion.direction * angularSpeed * delta };
+    return { ...target, ...circlePoint(motion, movement, radius), motion };
+  },
+};
+
+// Smoothed random wander: new headings at random intervals, turning back once
+// the target strays past pathRadius from where it spawned
+const noiseModel: MovementModel = {
+  init: (position, speed, _direction, movement, motion) => {
+    const [a, b] = PLANE_AXES[movement.axis];
+    const [value, afterHeading] = draw(motion);
+    const heading = value * Math.PI * 2;
+    const [timer, next] = drawInterval(afterHeading, movementParams(movement).changeInterval);
+    const velocity: Vec3 = [0, 0, 0];
+    velocity[a] = speed * Math.cos(heading);
+    velocity[b] = speed * Math.sin(heading);
+    return { position, velocity, motion: { ...next, anchor: [...position], speed, heading, timer } };
+  },
+  step: (target, movement, delta) => {
+    if (!target.motion) return target;
+    const { changeInterval, pathRadius, smoothing } = movementParams(movement);
+    const [a, b] = PLANE_AXES[movement.axis];
+    let motion = { ...target.motion, timer: target.motion.timer - delta };
+
+    if (motion.timer <= 0) {
+      const [value, afterHeading] = draw(motion);
+      const awayA = target.position[a] - motion.anchor[a];
+      const awayB = target.position[b] - motion.anchor[b];
+      // Inside the wander radius any heading goes; outside, within 90° of home
+      const heading = Math.hypot(awayA, awayB) > pathRadius
+        ? Math.atan2(-awayB, -awayA) + (value - 0.5) * Math.PI
+        : value * Math.PI * 2;
+      const [timer, next] = drawInterval(afterHeading, changeInterval);
+      motion = { ...next, heading, timer };
+    }
+
+    const follow = smoothing > 0 ? 1 - Math.exp(-delta / smoothing) : 1;
+    const position: Vec3 = [...target.position];
+    const velocity: Vec3 = [...target.velocity];
+    velocity[a] += (motion.speed * Math.cos(motion.heading) - velocity[a]) * follow;
+    velocity[b] += (motion.speed * Math.sin(motion.heading) - velocity[b]) * follow;
+    position[a] += velocity[a] * delta;
+    position[b] += velocity[b] * delta;
+
+    return { ...target, position, velocity, motion };
+  },
+};
+
+const MODELS: Record<MovementPattern, MovementModel> = {
+  [MovementPattern.STATIC]: staticModel,
+  [MovementPattern.LINEAR_BOUNCE]: bounceModel,
+  [MovementPattern.STRAFE]: strafeModel(false),
+  [MovementPattern.ADAD]: strafeModel(true),
+  [MovementPattern.CIRCULAR]: circularModel,
+  [MovementPattern.NOISE]: noiseModel,
+};
+
+// -----------------------------------------------------------------------------
+// Entry points for targetFactory
+// -----------------------------------------------------------------------------
+// Motion state is seeded from the target id, so spawning draws nothing extra
+// from the scenario's rng and older seeds keep their spawn sequence
+export const initMotion = (id: string, position: Vec3, speed: number, direction: number, movement: MovementDefinition) => {
+  const motion: MotionState = { anchor: [...position], random: hashString(`motion-${id}`), speed, heading: direction, direction, timer: 0 };
+  return MODELS[movement.pattern].init(position, speed, direction, movement, motion);
+};
+
+export const stepMotion = (target: TargetEntity, movement: MovementDefinition, delta: number) =>
+  MODELS[movement.pattern].step(target, movement, delta);
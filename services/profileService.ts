@@ -0,0 +1,97 @@
+import { Profile, TargetGame } from '../types';
+import { isObject } from './validation';
+
+const STORAGE_KEY = 'precision-aim-lab:profiles:v1';
+
+// Owns everything stored before profiles existed, under the unscoped keys
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface ProfileStore {
+  profiles: Profile[];
+  activeId: string;
+}
+
+const defaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Player 1',
+  createdAt: Date.now(),
+  sensitivity: 1,
+  dpi: 800,
+  targetGame: TargetGame.CS2,
+});
+
+// localStorage key for per-profile data; the default profile keeps the original keys
+export const profileStorageKey = (name: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? `precision-aim-lab:${name}:v1` : `precision-aim-lab:${name}:${profileId}:v1`;
+
+// Per-profile keys other than history, removed with the profile
+const SCOPED_KEYS = ['settings', 'audio', 'input', 'program'];
+
+const isProfile = (value: unknown): value is Profile =>
+  isObject(value) &&
+  typeof value.id === 'string' && typeof value.name === 'string' &&
+  typeof value.sensitivity === 'number' && typeof value.dpi === 'number' &&
+  Object.values(TargetGame).includes(value.targetGame as TargetGame);
+
+export const loadProfiles = (): ProfileStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    const profiles: Profile[] = Array.isArray(parsed?.profiles) ? parsed.profiles.filter(isProfile) : [];
+    if (profiles.length === 0) return { profiles: [defaultProfile()], activeId: DEFAULT_PROFILE_ID };
+    const activeId = profiles.some(p => p.id === parsed.activeId) ? parsed.activeId : profiles[0].id;
+    return { profiles, activeId };
+  } catch (err) {
+    console.warn('Profiles are unreadable, starting with the default profile.', err);
+    return { profiles: [defaultProfile()], activeId: DEFAULT_PROFILE_ID };
+  }
+};
+
+const writeProfiles = (store: ProfileStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.warn('Profiles could not be saved.', err);
+  }
+};
+
+export const newProfile = (name: string, from: Profile): Profile => ({
+  id: `profile-${Math.random().toString(36).substr(2, 9)}`,
+  name,
+  createdAt: Date.now(),
+  sensitivity: from.sensitivity,
+  dpi: from.dpi,
+  targetGame: from.targetGame,
+});
+
+// Insert or replace by id
+export const saveProfile = (profile: Profile): ProfileStore => {
+  const store = loadProfiles();
+  const exists = store.profiles.some(p => p.id === profile.id);
+  const next = {
+    ...store,
+    profiles: exists ? store.profiles.map(p => (p.id === profile.id ? profile : p)) : [...store.profiles, profile],
+  };
+  writeProfiles(next);
+  return next;
+};
+
+export const setActiveProfile = (id: string): ProfileStore => {
+  const store = loadProfiles();
+  if (!store.profiles.some(p => p.id === id)) return store;
+  const next = { ...store, activeId: id };
+  writeProfiles(next);
+  return next;
+};
+
+// Removes the profile and its settings; its history is cleared by the caller.
+// The last profile cannot be deleted.
+export const deleteProfile = (id: string): ProfileStore => {
+  const store = loadProfiles();
+  if (store.profiles.length <= 1) return store;
+  const profiles = store.profiles.filter(p => p.id !== id);
+  const next = { profiles, activeId: store.activeId === id ? profiles[0].id : store.activeId };
+  SCOPED_KEYS.forEach(name => localStorage.removeItem(profileStorageKey(name, id)));
+  writeProfiles(next);
+  return next;
+};
@@ -0,0 +1,65 @@
+import { ScenarioDefinition } from '../types';
+import { RaceClientMessage, RacePlayer, RaceServerMessage, RaceStanding, parseMessage } from './raceProtocol';
+
+// What the page knows about its room, built up from the relay's messages
+export interface RaceRoom {
+  code: string;
+  you: string;  // Own player id
+  host: string; // Picks the scenario and starts races
+  players: RacePlayer[];
+  scenario: ScenarioDefinition | null;
+  seed: number;
+  startsAt: number | null;         // Date.now() when the next race's countdown ends
+  standings: RaceStanding[];       // Live, during a race
+  results: RaceStanding[] | null;  // Final standings of the last race
+}
+
+export interface RaceClient {
+  send: (message: RaceClientMessage) => void;
+  close: () => void;
+}
+
+interface RaceClientHandlers {
+  onMessage: (message: RaceServerMessage) => void;
+  onClose: (reason: string) => void; // Connection refused or dropped; not called after close()
+}
+
+// Connects to a race relay and joins `room` once the socket opens
+export const connectRace = (url: string, room: string, name: string, handlers: RaceClientHandlers): RaceClient => {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch (err) {
+    console.warn('Invalid race relay address', err);
+    setTimeout(() => handlers.onClose(`Invalid relay address: ${url}`), 0);
+    return { send: () => {}, close: () => {} };
+  }
+
+  let opened = false;
+  let closedByUser = false;
+
+  const send = (message: RaceClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  socket.addEventListener('open', () => {
+    opened = true;
+    send({ type: 'join', room, name });
+  });
+  socket.addEventListener('message', e => {
+    const message = parseMessage<RaceServerMessage>(String(e.data));
+    if (message) handlers.onMessage(message);
+  });
+  socket.addEventListener('close', () => {
+    if (closedByUser) return;
+    handlers.onClose(opened ? 'Lost the connection to the relay.' : `Could not reach a relay at ${url}.`);
+  });
+
+  return {
+    send,
+    close: () => {
+      closedByUser = true;
+      socket.close();
+    },
+  };
+};
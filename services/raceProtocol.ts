@@ -0,0 +1,62 @@
+import { ScenarioDefinition } from '../types';
+
+// Messages between the race page and the relay in server/raceRelay.ts, as JSON text frames
+
+export const DEFAULT_RACE_PORT = 8787;
+export const DEFAULT_RACE_URL = `ws://localhost:${DEFAULT_RACE_PORT}`;
+
+export const MIN_RACERS = 2;
+export const MAX_RACERS = 8;
+
+// Seconds between the host pressing start and the first target
+export const RACE_COUNTDOWN = 3;
+
+export interface RacePlayer {
+  id: string;
+  name: string;
+}
+
+// One player's server-judged totals
+export interface RaceStanding extends RacePlayer {
+  score: number;
+  hits: number;
+  shots: number;
+  rejected: number;  // Shots dropped by the referee (bad timing, or a claimed hit that missed)
+  finished: boolean;
+  left: boolean;     // Disconnected during the race
+}
+
+// A click (or a tracking tick while firing), in the shooter's session time
+export interface RaceShot {
+  time: number;          // ms since the player's first target spawned
+  yaw: number;           // Aim, radians (Euler YXZ)
+  pitch: number;
+  target: string | null; // Id of the target the client saw hit
+}
+
+export type RaceClientMessage =
+  | { type: 'join'; room: string; name: string }
+  | { type: 'configure'; scenario: ScenarioDefinition; seed: number } // Host only, in the lobby
+  | { type: 'start' }                                                // Host only
+  | { type: 'shot'; shot: RaceShot }
+  | { type: 'finish' };
+
+export type RaceServerMessage =
+  | { type: 'lobby'; room: string; you: string; host: string; players: RacePlayer[]; scenario: ScenarioDefinition | null; seed: number }
+  | { type: 'start'; scenario: ScenarioDefinition; seed: number; startsIn: number } // ms
+  | { type: 'standings'; players: RaceStanding[] }
+  | { type: 'results'; players: RaceStanding[] }
+  | { type: 'error'; message: string };
+
+// Highest score first; ties go to accuracy
+export const rankStandings = (players: RaceStanding[]) =>
+  [...players].sort((a, b) => b.score - a.score || b.hits / Math.max(b.shots, 1) - a.hits / Math.max(a.shots, 1));
+
+export const parseMessage = <T extends { type: string }>(text: string): T | null => {
+  try {
+    const data = JSON.parse(text);
+    return typeof data === 'object' && data !== null && typeof data.type === 'string' ? (data as T) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ScenarioType, SessionStats } from '../types';
+import { BUILT_IN_SCENARIOS } from './scenarioRegistry';
+import { RaceShot } from './raceProtocol';
+import { createReferee, ShotVerdict } from './raceReferee';
+import { overshootPlayer, perfectPlayer, runHeadlessSession } from './simulationHarness';
+
+const SEED = 42;
+const scenarioOf = (id: string) => BUILT_IN_SCENARIOS.find(s => s.id === id)!;
+
+// The shots a racing client would send for a headless session
+const raceShots = (session: SessionStats): RaceShot[] => session.missData.map(shot => {
+  const aim = session.aimPath.find(sample => sample.time === shot.timestamp)!;
+  return { time: shot.timestamp, yaw: aim.yaw, pitch: aim.pitch, target: shot.hit ? shot.targetId! : null };
+});
+
+const judgeAll = (scenarioId: string, shots: RaceShot[]): ShotVerdict[] => {
+  const scenario = scenarioOf(scenarioId);
+  const referee = createReferee(scenario, SEED);
+  return shots.map(shot => referee.judge(shot, scenario.duration * 1000));
+};
+
+const points = (verdicts: ShotVerdict[]) => verdicts.reduce((sum, v) => sum + ('points' in v ? v.points : 0), 0);
+const rejected = (verdicts: ShotVerdict[]) => verdicts.filter(v => 'rejected' in v).length;
+
+describe('createReferee', () => {
+  it.each(BUILT_IN_SCENARIOS.map(s => [s.name, s.id] as const))('accepts every shot of an honest %s run', (_, id) => {
+    for (const player of [perfectPlayer, overshootPlayer()]) {
+      const session = runHeadlessSession(scenarioOf(id), player, { seed: SEED });
+      const verdicts = judgeAll(id, raceShots(session));
+      expect(rejected(verdicts)).toBe(0);
+      expect(points(verdicts)).toBe(session.score);
+    }
+  });
+
+  it('rejects repeated and out-of-order shot times', () => {
+    const [first, second] = raceShots(runHeadlessSession(scenarioOf(ScenarioType.GRIDSHOT), perfectPlayer, { seed: SEED }));
+    const verdicts = judgeAll(ScenarioType.GRIDSHOT, [second, second, first]);
+    expect(verdicts.map(v => 'rejected' in v)).toEqual([false, true, true]);
+  });
+
+  it('scores tracking ticks no faster than the game samples them', () => {
+    const [tick] = raceShots(runHeadlessSession(scenarioOf(ScenarioType.TRACKING), perfectPlayer, { seed: SEED }));
+    const burst = Array.from({ length: 5000 }, (_, i) => ({ ...tick, time: 1000 + i * 1e-3 }));
+    expect(points(judgeAll(ScenarioType.TRACKING, burst))).toBeLessThanOrEqual(1);
+
+    // Spaced just inside the step slack, a little faster than the clock allows
+    const steady = Array.from({ length: 300 }, (_, i) => ({ ...tick, time: 96 * (i + 1) }));
+    expect(rejected(judgeAll(ScenarioType.TRACKING, steady))).toBeGreaterThan(0);
+  });
+
+  it('rejects clicks faster than a hand can make them', () => {
+    const shots = raceShots(runHeadlessSession(scenarioOf(ScenarioType.GRIDSHOT), perfectPlayer, { seed: SEED }));
+    const spammed = shots.map((shot, i) => ({ ...shot, time: 10 + i * 1e-3 }));
+    expect(judgeAll(ScenarioType.GRIDSHOT, spammed).filter(v => 'hit' in v && v.hit).length).toBeLessThanOrEqual(1);
+
+    // A half turn between two clicks 60 ms apart
+    const [first] = shots;
+    const turned = { ...first, time: first.time + 60, yaw: first.yaw + Math.PI, target: null };
+    expect(judgeAll(ScenarioType.GRIDSHOT, [first, turned])[1]).toEqual({ rejected: 'aim turned impossibly fast' });
+  });
+});
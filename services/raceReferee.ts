@@ -0,0 +1,102 @@
+import { RespawnRule, ScenarioDefinition, ScoringMode, Vec3 } from '../types';
+import { Aim, aimForward, hitZoneAt, zoneScore } from './aimGeometry';
+import { RaceShot } from './raceProtocol';
+import { SIM_STEP, TRACKING_SAMPLE_INTERVAL, createSimulation, replaceTarget, spawnDue, stepSimulation, targetsAt } from './targetSimulation';
+
+const ORIGIN: Vec3 = [0, 0, 0];
+
+// Claimed hits get a little slack: the client's frame timing can put its
+// targets a few ms ahead of or behind the referee's
+const RADIUS_TOLERANCE = 0.1;    // Fraction of the radius
+const DISTANCE_TOLERANCE = 0.05; // World units
+// How far a shot may be stamped past the race clock, for network delay and a late start (ms)
+const CLOCK_TOLERANCE = 2000;
+const DURATION_TOLERANCE = 500;
+
+// Ticks land on the step grid, so rounding can bring two a step closer than the interval
+const MIN_TICK_SPACING = (TRACKING_SAMPLE_INTERVAL - SIM_STEP) * 1000 - 0.5; // ms
+// Faster than anyone clicks, even spamming one target (ms)
+const MIN_CLICK_INTERVAL = 50;
+// Average turn rate between two clicks that no hand reaches: a half turn in an eighth of a second (deg/s)
+const MAX_TURN_SPEED = 1500;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// A rejected shot still counts as fired
+export type ShotVerdict =
+  | { hit: boolean; points: number }
+  | { rejected: string };
+
+export interface Referee {
+  // `elapsed` is ms since the race started by the server's clock
+  judge: (shot: RaceShot, elapsed: number) => ShotVerdict;
+}
+
+// -----------------------------------------------------------------------------
+// Replays one player's target sequence from the shared seed, stepped by the
+// game's own simulation. Every player is refereed separately: kills change when
+// the next target spawns, and createTarget draws the same values whichever
+// target dies, so ids and spawns line up with the client's.
+// -----------------------------------------------------------------------------
+export const createReferee = (scenario: ScenarioDefinition, seed: number): Referee => {
+  const isHoldScoring = scenario.scoring === ScoringMode.HOLD;
+  const replaces = !isHoldScoring && scenario.respawn === RespawnRule.REPLACE_ON_KILL;
+
+  let simulation = createSimulation(scenario, seed, 0);
+  let lastShot: { time: number; aim: Aim } | null = null;
+  let ticks = 0;
+
+  const advanceTo = (time: number) => {
+    while (simulation.time + SIM_STEP * 1000 <= time) simulation = stepSimulation(simulation).simulation;
+    simulation = spawnDue(simulation, time).simulation;
+  };
+
+  // Degrees between two aims
+  const turnAngle = (from: Aim, to: Aim) => {
+    const [ax, ay, az] = aimForward(from);
+    const [bx, by, bz] = aimForward(to);
+    return Math.acos(Math.min(Math.max(ax * bx + ay * by + az * bz, -1), 1)) * RAD_TO_DEG;
+  };
+
+  // Whether the shot could have been taken this soon after the last one
+  const pacingError = (time: number, aim: Aim): string | null => {
+    if (isHoldScoring) {
+      if (lastShot && time - lastShot.time < MIN_TICK_SPACING) return 'tracking ticks too close together';
+      // At most one tick per interval since the start, however they are spaced
+      if (ticks > time / (TRACKING_SAMPLE_INTERVAL * 1000)) return 'more tracking ticks than the race clock allows';
+      return null;
+    }
+    if (!lastShot) return null;
+    const interval = time - lastShot.time;
+    if (interval < MIN_CLICK_INTERVAL) return 'clicks too close together';
+    if (turnAngle(lastShot.aim, aim) / (interval / 1000) > MAX_TURN_SPEED) return 'aim turned impossibly fast';
+    return null;
+  };
+
+  const judge = (shot: RaceShot, elapsed: number): ShotVerdict => {
+    if (![shot.time, shot.yaw, shot.pitch].every(Number.isFinite)) return { rejected: 'malformed shot' };
+    if (lastShot && shot.time <= lastShot.time) return { rejected: 'shot out of order' };
+    if (shot.time > scenario.duration * 1000 + DURATION_TOLERANCE || shot.time > elapsed + CLOCK_TOLERANCE) {
+      return { rejected: 'shot after the race clock' };
+    }
+    const aim = { yaw: shot.yaw, pitch: shot.pitch };
+    const pacing = pacingError(shot.time, aim);
+    if (pacing) return { rejected: pacing };
+    lastShot = { time: shot.time, aim };
+    if (isHoldScoring) ticks += 1;
+    advanceTo(shot.time);
+
+    // Claimed misses cost nothing to believe
+    if (shot.target === null) return { hit: false, points: 0 };
+
+    const target = targetsAt(simulation, shot.time).find(t => t.id === shot.target);
+    if (!target) return { rejected: 'no such target' };
+    const lenient = { ...target, radius: target.radius * (1 + RADIUS_TOLERANCE) + DISTANCE_TOLERANCE };
+    const zone = hitZoneAt(aim, ORIGIN, target, scenario.hitbox) ?? hitZoneAt(aim, ORIGIN, lenient, scenario.hitbox);
+    if (!zone) return { rejected: 'claimed hit missed' };
+
+    if (replaces) simulation = replaceTarget(simulation, target.id, shot.time).simulation;
+    return { hit: true, points: zoneScore(zone, scenario.hitbox) };
+  };
+
+  return { judge };
+};
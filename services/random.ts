@@ -0,0 +1,39 @@
+// Seedable randomness so runs with the same seed face the same targets
+
+export type Rng = () => number; // Uniform in [0, 1), like Math.random
+
+// One mulberry32 draw from an explicit state: [value in [0, 1), next state]
+export const nextRandom = (state: number): [number, number] => {
+  const next = (state + 0x6D2B79F5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+// mulberry32: small, fast, and good enough for gameplay
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+};
+
+// FNV-1a, to turn text (dates, names) into a seed
+export const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// UTC calendar date, so the challenge is the same everywhere at once
+export const dailyChallengeDate = (date = new Date()) => date.toISOString().slice(0, 10);
+
+export const dailySeed = (date = new Date()) => hashString(`daily-${dailyChallengeDate(date)}`);
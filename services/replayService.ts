@@ -0,0 +1,261 @@
+import { HitboxDefinition, HitboxShape, SessionStats, Vec3 } from '../types';
+import { DEFAULT_VERTICAL_FOV } from './fovService';
+import { isObject, isSupportedVersion } from './validation';
+import { validateHitbox } from './customScenarioService';
+import { downloadJson } from './fileDownload';
+
+// In-memory replay; all times are ms since the session started
+export interface ReplayTarget {
+  id: string;
+  radius: number;
+  spawnTime: number;
+  despawnTime: number | null;
+  path: { time: number; position: Vec3 }[]; // At least the spawn position
+}
+
+export interface ReplayShot {
+  time: number;
+  hit: boolean;
+  targetId?: string;
+}
+
+export interface SessionReplay {
+  scenarioName: string;
+  seed: number;
+  sensitivity: number;
+  fov: number; // Vertical, degrees
+  hitbox?: HitboxDefinition; // Humanoid targets
+  recordedAt: number; // Date.now() when the session finished
+  duration: number;
+  camera: { time: number; yaw: number; pitch: number }[];
+  targets: ReplayTarget[];
+  shots: ReplayShot[];
+}
+
+export const REPLAY_FILE_FORMAT = 'precision-aim-lab/replay';
+export const REPLAY_FILE_VERSION = 1;
+
+// -----------------------------------------------------------------------------
+// Building from a finished session
+// -----------------------------------------------------------------------------
+export const canReplay = (stats: SessionStats) =>
+  (stats.aimPath?.length ?? 0) > 1 && (stats.targetRecords?.length ?? 0) > 0;
+
+// Earliest recorded event; replay time zero
+export const sessionStartTime = (stats: SessionStats) =>
+  Math.min(stats.aimPath?.[0]?.time ?? Infinity, ...(stats.targetRecords || []).map(r => r.spawnTime));
+
+export const buildReplay = (stats: SessionStats): SessionReplay => {
+  const aimPath = stats.aimPath || [];
+  const records = stats.targetRecords || [];
+  const start = sessionStartTime(stats);
+  const end = aimPath[aimPath.length - 1]?.time ?? start;
+
+  return {
+    scenarioName: stats.scenarioName,
+    seed: stats.seed,
+    sensitivity: stats.sensitivity,
+    fov: stats.fov ?? DEFAULT_VERTICAL_FOV,
+    hitbox: stats.hitbox,
+    recordedAt: stats.timestamp,
+    duration: end - start,
+    camera: aimPath.map(s => ({ time: s.time - start, yaw: s.yaw, pitch: s.pitch })),
+    targets: records.map(r => ({
+      id: r.targetId,
+      radius: r.radius,
+      spawnTime: r.spawnTime - start,
+      despawnTime: r.killTime !== undefined ? r.killTime - start : null,
+      path: [
+        { time: r.spawnTime - start, position: r.position },
+        ...(r.path || []).map(p => ({ time: p.time - start, position: p.position })),
+      ],
+    })),
+    shots: stats.missData.map(s => ({ time: s.timestamp - start, hit: s.hit, targetId: s.targetId })),
+  };
+};
+
+// -----------------------------------------------------------------------------
+// Playback queries
+// -----------------------------------------------------------------------------
+// Last index whose time is <= t (items sorted by time)
+const indexAt = <T extends { time: number }>(items: T[], t: number) => {
+  let lo = 0;
+  let hi = items.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (items[mid].time <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+export const cameraAt = (replay: SessionReplay, t: number) => {
+  const { camera } = replay;
+  if (camera.length === 0) return { yaw: 0, pitch: 0 };
+  const i = indexAt(camera, t);
+  const a = camera[i];
+  const b = camera[Math.min(i + 1, camera.length - 1)];
+  const span = b.time - a.time;
+  const f = span > 0 ? Math.min(Math.max((t - a.time) / span, 0), 1) : 0;
+  // Yaw wraps at ±π; turn the short way round
+  const turn = Math.atan2(Math.sin(b.yaw - a.yaw), Math.cos(b.yaw - a.yaw));
+  return { yaw: a.yaw + turn * f, pitch: a.pitch + (b.pitch - a.pitch) * f };
+};
+
+export const targetsAt = (replay: SessionReplay, t: number) =>
+  replay.targets
+    .filter(target => target.spawnTime <= t && (target.despawnTime === null || t < target.despawnTime))
+    .map(target => {
+      const i = indexAt(target.path, t);
+      const a = target.path[i];
+      const b = target.path[Math.min(i + 1, target.path.length - 1)];
+      const span = b.time - a.time;
+      const f = span > 0 ? Math.min(Math.max((t - a.time) / span, 0), 1) : 0;
+      const position = a.position.map((v, k) => v + (b.position[k] - v) * f) as Vec3;
+      return { id: target.id, radius: target.radius, position };
+    });
+
+// -----------------------------------------------------------------------------
+// Compact file format: flat integer arrays, times delta-encoded
+//   camera:  [dt, yaw, pitch, ...]  angles in 1e-4 rad
+//   target p: [dt, x, y, z, ...]    positions in mm
+//   shots:   [dt, hit, targetIndex, ...] targetIndex -1 when none
+// -----------------------------------------------------------------------------
+const ANGLE_SCALE = 1e4;
+const POSITION_SCALE = 1e3;
+
+const deltaEncode = <T extends { time: number }>(items: T[], values: (item: T) => number[]) => {
+  const out: number[] = [];
+  let last = 0;
+  items.forEach(item => {
+    const time = Math.round(item.time);
+    out.push(time - last, ...values(item));
+    last = time;
+  });
+  return out;
+};
+
+const deltaDecode = <T>(flat: number[], stride: number, build: (time: number, values: number[]) => T) => {
+  const out: T[] = [];
+  let time = 0;
+  for (let i = 0; i + stride <= flat.length; i += stride) {
+    time += flat[i];
+    out.push(build(time, flat.slice(i + 1, i + stride)));
+  }
+  return out;
+};
+
+export const encodeReplay = (replay: SessionReplay): string => {
+  const targetIndex = new Map(replay.targets.map((t, i) => [t.id, i]));
+  return JSON.stringify({
+    format: REPLAY_FILE_FORMAT,
+    version: REPLAY_FILE_VERSION,
+    meta: {
+      scenarioName: replay.scenarioName,
+      seed: replay.seed,
+      sensitivity: replay.sensitivity,
+      fov: Math.round(replay.fov * 100) / 100,
+      hitbox: replay.hitbox,
+      recordedAt: replay.recordedAt,
+      duration: Math.round(replay.duration),
+    },
+    camera: deltaEncode(replay.camera, c => [Math.round(c.yaw * ANGLE_SCALE), Math.round(c.pitch * ANGLE_SCALE)]),
+    targets: replay.targets.map(t => ({
+      r: Math.round(t.radius * POSITION_SCALE),
+      s: Math.round(t.spawnTime),
+      d: t.despawnTime === null ? null : Math.round(t.despawnTime),
+      p: deltaEncode(t.path, p => p.position.map(v => Math.round(v * POSITION_SCALE))),
+    })),
+    shots: deltaEncode(replay.shots, s => [s.hit ? 1 : 0, s.targetId !== undefined ? targetIndex.get(s.targetId) ?? -1 : -1]),
+  });
+};
+
+export type ReplayLoadResult =
+  | { ok: true; replay: SessionReplay }
+  | { ok: false; errors: string[] };
+
+const isNumberArray = (v: unknown): v is number[] => Array.isArray(v) && v.every(n => typeof n === 'number');
+
+// One target as encodeReplay writes it
+interface EncodedTarget {
+  r: number;
+  s: number;
+  d?: unknown;
+  p: number[];
+}
+
+// Whole records only; a path holds at least the spawn point
+const isRecordList = (v: unknown, stride: number, min = 0): v is number[] =>
+  isNumberArray(v) && v.length >= min && v.length % stride === 0;
+
+const isEncodedTarget = (t: unknown): t is EncodedTarget =>
+  isObject(t) && typeof t.r === 'number' && typeof t.s === 'number' && isRecordList(t.p, 4, 4);
+
+// Missing meta fields fall back to defaults; present ones must be usable
+const metaErrors = (meta: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  ['seed', 'sensitivity', 'fov', 'recordedAt', 'duration'].forEach(key => {
+    const n = meta[key];
+    if (n !== undefined && (typeof n !== 'number' || !Number.isFinite(n))) errors.push(`meta.${key} must be a number.`);
+  });
+  // Dates past year 275760 are invalid and cannot name the export
+  if (typeof meta.recordedAt === 'number' && Number.isNaN(new Date(meta.recordedAt).getTime())) {
+    errors.push('meta.recordedAt must be a valid time.');
+  }
+  if (meta.hitbox !== undefined) errors.push(...validateHitbox(meta.hitbox, 'meta.hitbox'));
+  return errors;
+};
+
+export const decodeReplay = (text: string): ReplayLoadResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+  if (!isObject(data) || data.format !== REPLAY_FILE_FORMAT) {
+    return { ok: false, errors: [`File is not a replay (expected format "${REPLAY_FILE_FORMAT}").`] };
+  }
+  if (!isSupportedVersion(data.version, REPLAY_FILE_VERSION)) {
+    return { ok: false, errors: [`Unsupported replay version ${data.version}. This app reads up to version ${REPLAY_FILE_VERSION}.`] };
+  }
+
+  const errors: string[] = [];
+  if (!isObject(data.meta)) errors.push('meta is missing.');
+  else errors.push(...metaErrors(data.meta));
+  if (!isRecordList(data.camera, 3)) errors.push('camera must be an array of numbers in groups of 3.');
+  if (!isRecordList(data.shots, 3)) errors.push('shots must be an array of numbers in groups of 3.');
+  if (!Array.isArray(data.targets) || !data.targets.every(isEncodedTarget)) {
+    errors.push('targets must be a list of { r, s, d, p } entries, p in groups of 4.');
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const targets: ReplayTarget[] = (data.targets as EncodedTarget[]).map((t, i) => ({
+    id: `t${i}`,
+    radius: t.r / POSITION_SCALE,
+    spawnTime: t.s,
+    despawnTime: typeof t.d === 'number' ? t.d : null,
+    path: deltaDecode(t.p, 4, (time, v) => ({ time, position: v.map(n => n / POSITION_SCALE) as Vec3 })),
+  }));
+
+  const meta = data.meta as Record<string, unknown>;
+  const hitbox = meta.hitbox as HitboxDefinition | undefined;
+  return {
+    ok: true,
+    replay: {
+      scenarioName: String(meta.scenarioName ?? 'Unknown'),
+      seed: Number(meta.seed ?? 0),
+      sensitivity: Number(meta.sensitivity ?? 1),
+      fov: Number(meta.fov ?? DEFAULT_VERTICAL_FOV),
+      hitbox: hitbox?.shape === HitboxShape.HUMANOID ? hitbox : undefined,
+      recordedAt: Number(meta.recordedAt ?? 0),
+      duration: Number(meta.duration ?? 0),
+      camera: deltaDecode(data.camera as number[], 3, (time, v) => ({ time, yaw: v[0] / ANGLE_SCALE, pitch: v[1] / ANGLE_SCALE })),
+      targets,
+      shots: deltaDecode(data.shots as number[], 3, (time, v) => ({ time, hit: v[0] === 1, targetId: v[1] >= 0 ? targets[v[1]]?.id : undefined })),
+    },
+  };
+};
+
+export const exportReplayFile = (replay: SessionReplay) =>
+  downloadJson(`${replay.scenarioName}-${new Date(replay.recordedAt).toISOString().slice(0, 10)}`, 'replay.json', encodeReplay(replay));
@@ -0,0 +1,115 @@
+import { HitboxDefinition, HitboxShape, MovementDefinition, MovementPattern, RespawnRule, ScenarioDefinition, ScenarioType, ScoringMode } from '../types';
+
+// Default spawn volume in front of the player
+const FRONT_VOLUME: ScenarioDefinition['spawnBounds'] = { min: [-5, 1, -13], max: [5, 4, -8] };
+
+const NO_MOVEMENT: MovementDefinition = {
+  pattern: MovementPattern.STATIC,
+  axis: 'x',
+  speed: { min: 0, max: 0 },
+  travel: { min: 0, max: 0 },
+};
+
+// Roughly human proportions: a 0.25 radius body makes a figure about 1.7 units tall
+export const DEFAULT_HUMANOID: HitboxDefinition = {
+  shape: HitboxShape.HUMANOID,
+  bodyHeight: 5.6,
+  headRadius: 0.5,
+  neckGap: 0.1,
+  headScore: 4,
+  headLine: true,
+};
+
+export const BUILT_IN_SCENARIOS: ScenarioDefinition[] = [
+  {
+    id: ScenarioType.GRIDSHOT,
+    name: 'Gridshot',
+    description: 'Speed & precision. Static targets.',
+    icon: '🎯',
+    accent: 'emerald',
+    duration: 30,
+    targetCount: 3,
+    spawnBounds: FRONT_VOLUME,
+    radius: { min: 0.5, max: 0.5 },
+    movement: NO_MOVEMENT,
+    scoring: ScoringMode.CLICK,
+    respawn: RespawnRule.REPLACE_ON_KILL,
+    respawnDelay: 0,
+  },
+  {
+    id: ScenarioType.TRACKING,
+    name: 'Tracking',
+    description: 'Smoothness. Moving targets.',
+    icon: '〰️',
+    accent: 'blue',
+    duration: 30,
+    targetCount: 1,
+    spawnBounds: FRONT_VOLUME,
+    initialPositions: [[0, 1.5, -10]],
+    radius: { min: 0.5, max: 0.5 },
+    movement: {
+      pattern: MovementPattern.LINEAR_BOUNCE,
+      axis: 'x',
+      speed: { min: 2, max: 4 },
+      travel: { min: -8, max: 8 },
+    },
+    scoring: ScoringMode.HOLD,
+    respawn: RespawnRule.PERSIST,
+    respawnDelay: 0,
+  },
+  {
+    id: ScenarioType.FLICKING,
+    name: 'Micro-Flick',
+    description: 'Small adjustments. Tiny targets.',
+    icon: '⚡',
+    accent: 'purple',
+    duration: 30,
+    targetCount: 1,
+    spawnBounds: FRONT_VOLUME,
+    radius: { min: 0.3, max: 0.3 },
+    movement: NO_MOVEMENT,
+    scoring: ScoringMode.CLICK,
+    respawn: RespawnRule.REPLACE_ON_KILL,
+    respawnDelay: 0,
+  },
+  {
+    id: ScenarioType.HEADSHOT,
+    name: 'Crosshair Placement',
+    description: 'Head height. Strafing humanoids.',
+    icon: '🧍',
+    accent: 'amber',
+    duration: 30,
+    targetCount: 1,
+    // Feet on the floor (y = -2), heads just below eye level
+    spawnBounds: { min: [-6, -1.3, -16], max: [6, -1.3, -10] },
+    radius: { min: 0.25, max: 0.25 },
+    movement: {
+      pattern: MovementPattern.STRAFE,
+      axis: 'x',
+      speed: { min: 2, max: 3.5 },
+      travel: { min: -8, max: 8 },
+    },
+    scoring: ScoringMode.CLICK,
+    respawn: RespawnRule.REPLACE_ON_KILL,
+    respawnDelay: 0.3,
+    hitbox: DEFAULT_HUMANOID,
+  },
+];
+
+const registry = new Map<string, ScenarioDefinition>(
+  BUILT_IN_SCENARIOS.map(def => [def.id, def])
+);
+
+// All registered scenarios in menu order
+export const getScenarios = (): ScenarioDefinition[] => Array.from(registry.values());
+
+export const getScenario = (id: string): ScenarioDefinition | undefined => registry.get(id);
+
+export const registerScenario = (definition: ScenarioDefinition) => {
+  registry.set(definition.id, definition);
+};
+
+export const unregisterScenario = (id: string) => {
+  if (BUILT_IN_SCENARIOS.some(def => def.id === id)) return;
+  registry.delete(id);
+};
@@ -0,0 +1,46 @@
+import { TargetGame } from '../types';
+
+// Radians of camera rotation per mouse count at a trainer sensitivity of 1.0.
+// Same base rate as three's PointerLockControls, so 1.0 feels like it always did.
+export const TRAINER_RADIANS_PER_COUNT = 0.002;
+export const TRAINER_YAW_DEGREES = TRAINER_RADIANS_PER_COUNT * (180 / Math.PI);
+
+const CM_PER_INCH = 2.54;
+
+// Trainer sensitivity limits for converted and recommended values
+export const MIN_SENSITIVITY = 0.1;
+export const MAX_SENSITIVITY = 5.0;
+
+export const clampSensitivity = (s: number) => Math.min(MAX_SENSITIVITY, Math.max(MIN_SENSITIVITY, s));
+
+export interface GameSensitivityProfile {
+  id: TargetGame;
+  label: string;
+  yaw: number; // Degrees of rotation per mouse count at in-game sensitivity 1.0
+}
+
+export const GAME_PROFILES: Record<TargetGame, GameSensitivityProfile> = {
+  [TargetGame.CS2]: { id: TargetGame.CS2, label: 'CS2 / Apex', yaw: 0.022 },
+  [TargetGame.VALORANT]: { id: TargetGame.VALORANT, label: 'Valorant', yaw: 0.07 },
+  [TargetGame.OVERWATCH]: { id: TargetGame.OVERWATCH, label: 'Overwatch 2', yaw: 0.0066 },
+};
+
+// Radians per raw mouse count for a given trainer multiplier
+export const radiansPerCount = (sensitivity: number) => TRAINER_RADIANS_PER_COUNT * sensitivity;
+
+// Physical mouse travel needed for one full turn
+export const cmPer360 = (yawDegrees: number, sensitivity: number, dpi: number) => {
+  const degreesPerInch = yawDegrees * sensitivity * dpi;
+  if (degreesPerInch <= 0) return Infinity;
+  return (360 / degreesPerInch) * CM_PER_INCH;
+};
+
+export const trainerCmPer360 = (sensitivity: number, dpi: number) =>
+  cmPer360(TRAINER_YAW_DEGREES, sensitivity, dpi);
+
+// Both directions keep degrees-per-count identical, so DPI cancels out
+export const trainerToGameSensitivity = (sensitivity: number, game: TargetGame) =>
+  (sensitivity * TRAINER_YAW_DEGREES) / GAME_PROFILES[game].yaw;
+
+export const gameToTrainerSensitivity = (gameSensitivity: number, game: TargetGame) =>
+  (gameSensitivity * GAME_PROFILES[game].yaw) / TRAINER_YAW_DEGREES;
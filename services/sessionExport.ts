@@ -0,0 +1,298 @@
+import { SessionStats, ShotData } from '../types';
+import { sessionStartTime } from './replayService';
+import { sessionInput } from './historyService';
+import { isObject, isSupportedVersion } from './validation';
+import { validateHitbox } from './customScenarioService';
+import { downloadJson, downloadText, exportFilename } from './fileDownload';
+
+// Injected by vite.config.ts from package.json
+declare const __APP_VERSION__: string;
+
+export const SESSION_FILE_FORMAT = 'precision-aim-lab/session';
+export const SESSION_FILE_VERSION = 1;
+
+// Written alongside the raw session so notebooks need not dig through it
+export interface SessionFileMetadata {
+  scenario: string;
+  scenarioName: string;
+  sensitivity: number;
+  dpi: number;
+  fov: number | null; // Vertical, degrees; null for sessions recorded before it was stored
+  targetGame: string;
+  seed: number;
+  recordedAt: string; // ISO time the session finished
+}
+
+interface SessionFile {
+  format: typeof SESSION_FILE_FORMAT;
+  version: number;
+  appVersion: string;
+  exportedAt: string;
+  metadata: SessionFileMetadata;
+  session: SessionStats;
+}
+
+// Scenario name and start time, e.g. "gridshot-2024-05-01t183000"
+const sessionName = (stats: SessionStats) =>
+  `${stats.scenarioName}-${new Date(stats.timestamp).toISOString().slice(0, 19).replace(/:/g, '')}`;
+
+// -----------------------------------------------------------------------------
+// JSON: the full session, lossless
+// -----------------------------------------------------------------------------
+export const encodeSessionFile = (stats: SessionStats) => {
+  const file: SessionFile = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    appVersion: __APP_VERSION__,
+    exportedAt: new Date().toISOString(),
+    metadata: {
+      scenario: stats.scenario,
+      scenarioName: stats.scenarioName,
+      sensitivity: stats.sensitivity,
+      dpi: stats.dpi,
+      fov: stats.fov ?? null,
+      targetGame: stats.targetGame,
+      seed: stats.seed,
+      recordedAt: new Date(stats.timestamp).toISOString(),
+    },
+    session: stats,
+  };
+  return JSON.stringify(file);
+};
+
+export const exportSessionFile = (stats: SessionStats) =>
+  downloadJson(sessionName(stats), 'session.json', encodeSessionFile(stats));
+
+// -----------------------------------------------------------------------------
+// CSV: one row per shot, session metadata repeated on every row
+// -----------------------------------------------------------------------------
+const CSV_COLUMNS: { header: string; value: (stats: SessionStats, shot: ShotData, index: number, start: number) => unknown }[] = [
+  { header: 'session_id', value: stats => stats.id },
+  { header: 'recorded_at', value: stats => new Date(stats.timestamp).toISOString() },
+  { header: 'scenario', value: stats => stats.scenario },
+  { header: 'scenario_name', value: stats => stats.scenarioName },
+  { header: 'sensitivity', value: stats => stats.sensitivity },
+  { header: 'dpi', value: stats => stats.dpi },
+  { header: 'fov', value: stats => stats.fov },
+  { header: 'target_game', value: stats => stats.targetGame },
+  { header: 'input', value: stats => sessionInput(stats) },
+  { header: 'seed', value: stats => stats.seed },
+  { header: 'shot', value: (_, __, index) => index + 1 },
+  { header: 'time_ms', value: (_, shot, __, start) => Math.round((shot.timestamp - start) * 10) / 10 },
+  { header: 'hit', value: (_, shot) => (shot.hit ? 1 : 0) },
+  { header: 'target_id', value: (_, shot) => shot.targetId },
+  { header: 'relative_x', value: (_, shot) => shot.relativeX },
+  { header: 'relative_y', value: (_, shot) => shot.relativeY },
+  { header: 'distance_from_center', value: (_, shot) => shot.distanceFromCenter },
+  { header: 'angular_x_deg', value: (_, shot) => shot.angularX },
+  { header: 'angular_y_deg', value: (_, shot) => shot.angularY },
+  { header: 'angular_error_deg', value: (_, shot) => shot.angularError },
+  { header: 'target_angular_radius_deg', value: (_, shot) => shot.targetAngularRadius },
+  { header: 'target_velocity_x', value: (_, shot) => shot.targetVelocity?.[0] ?? shot.targetVelocityX },
+  { header: 'target_velocity_y', value: (_, shot) => shot.targetVelocity?.[1] },
+  { header: 'target_velocity_z', value: (_, shot) => shot.targetVelocity?.[2] },
+  { header: 'target_apparent_velocity_x', value: (_, shot) => shot.targetApparentVelocity?.x },
+  { header: 'target_apparent_velocity_y', value: (_, shot) => shot.targetApparentVelocity?.y },
+  { header: 'zone', value: (_, shot) => shot.zone },
+  { header: 'head_offset_y_deg', value: (_, shot) => shot.headOffsetY },
+];
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionsToCsv = (sessions: SessionStats[]) => {
+  const rows = [CSV_COLUMNS.map(c => c.header).join(',')];
+  sessions.forEach(stats => {
+    // Times relative to the session start (or the first shot, for sessions without a path)
+    const recordedStart = sessionStartTime(stats);
+    const start = Number.isFinite(recordedStart) ? recordedStart : stats.missData[0]?.timestamp ?? 0;
+    stats.missData.forEach((shot, index) => {
+      rows.push(CSV_COLUMNS.map(c => csvCell(c.value(stats, shot, index, start))).join(','));
+    });
+  });
+  return rows.join('\n') + '\n';
+};
+
+export const exportSessionsCsv = (sessions: SessionStats[]) => {
+  if (sessions.length === 0) return;
+  const name = sessions.length === 1 ? sessionName(sessions[0]) : `${sessions[0].scenarioName}-${sessions.length}-sessions`;
+  downloadText(exportFilename(name, 'shots.csv'), 'text/csv', sessionsToCsv(sessions));
+};
+
+// -----------------------------------------------------------------------------
+// Import
+// -----------------------------------------------------------------------------
+export type SessionImportResult =
+  | { ok: true; session: SessionStats }
+  | { ok: false; errors: string[] };
+
+type FieldType = 'number' | 'boolean' | 'string' | 'vec3' | 'point';
+
+interface ElementShape {
+  description: string;               // What one element is, for messages ("a shot")
+  required: Record<string, FieldType>;
+  optional?: Record<string, FieldType>;
+  lists?: Record<string, ElementShape>; // Optional nested lists
+  objects?: Record<string, ElementShape>; // Required nested objects
+}
+
+// Element fields of every list in a session; optional ones only need the right type
+const LIST_SHAPES: Record<string, ElementShape> = {
+  missData: {
+    description: 'a shot',
+    required: { timestamp: 'number', hit: 'boolean' },
+    optional: {
+      targetId: 'string', relativeX: 'number', relativeY: 'number', distanceFromCenter: 'number',
+      angularX: 'number', angularY: 'number', angularError: 'number', targetAngularRadius: 'number',
+      targetVelocity: 'vec3', targetApparentVelocity: 'point', targetVelocityX: 'number', zone: 'string', headOffsetY: 'number',
+    },
+  },
+  trackingSamples: {
+    description: 'a tracking sample',
+    required: { time: 'number', firing: 'boolean', onTarget: 'boolean', relativeX: 'number', relativeY: 'number', distanceFromCenter: 'number' },
+  },
+  targetRecords: {
+    description: 'a target record',
+    required: { targetId: 'string', spawnTime: 'number', shots: 'number', position: 'vec3', velocity: 'vec3', radius: 'number' },
+    optional: { firstMoveTime: 'number', killTime: 'number' },
+    lists: { path: { description: 'a path point', required: { time: 'number', position: 'vec3' } } },
+  },
+  aimPath: {
+    description: 'an aim sample',
+    required: { time: 'number', yaw: 'number', pitch: 'number' },
+  },
+  difficultyCurve: {
+    description: 'a difficulty sample',
+    required: { time: 'number', level: 'number', radiusScale: 'number', speedScale: 'number', spreadScale: 'number' },
+    optional: { successRate: 'number' },
+  },
+};
+
+// Optional objects on a session; missing on sessions saved before they existed
+const OBJECT_SHAPES: Record<string, ElementShape> = {
+  visuals: {
+    description: 'visual settings',
+    required: { fov: 'number', fovScaling: 'string', targetColor: 'string', targetScale: 'number', hitEffect: 'string', missEffect: 'string' },
+    objects: {
+      crosshair: {
+        description: 'crosshair settings',
+        required: { style: 'string', size: 'number', gap: 'number', thickness: 'number', color: 'string', outline: 'boolean', centerDot: 'boolean' },
+      },
+    },
+  },
+  adaptive: { description: 'an adaptive config', required: { successRate: 'number', killTime: 'number' } },
+  playlist: { description: 'a playlist tag', required: { runId: 'string', playlistId: 'string', block: 'number' } },
+  race: { description: 'a race tag', required: { room: 'string', racers: 'number' } },
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const hasType = (value: unknown, type: FieldType) => {
+  switch (type) {
+    case 'number': return isFiniteNumber(value);
+    case 'vec3': return Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+    case 'point': return isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+    default: return typeof value === type;
+  }
+};
+
+const TYPE_NAMES: Record<FieldType, string> = {
+  number: 'a number',
+  boolean: 'true or false',
+  string: 'a string',
+  vec3: 'an [x, y, z] array',
+  point: 'an { x, y } object',
+};
+
+// The first problem with an element, or null
+const elementError = (path: string, element: unknown, shape: ElementShape): string | null => {
+  if (!isObject(element)) return `${path} must be ${shape.description}.`;
+  for (const [key, type] of Object.entries(shape.required)) {
+    if (!hasType(element[key], type)) return `${path}.${key} must be ${TYPE_NAMES[type]}.`;
+  }
+  for (const [key, type] of Object.entries(shape.optional ?? {})) {
+    // JSON turns NaN into null; read as missing
+    if (element[key] != null && !hasType(element[key], type)) return `${path}.${key} must be ${TYPE_NAMES[type]} when present.`;
+  }
+  for (const [key, inner] of Object.entries(shape.objects ?? {})) {
+    const error = elementError(`${path}.${key}`, element[key], inner);
+    if (error) return error;
+  }
+  for (const [key, inner] of Object.entries(shape.lists ?? {})) {
+    const list = element[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) return `${path}.${key} must be a list when present.`;
+    for (let i = 0; i < list.length; i++) {
+      const error = elementError(`${path}.${key}[${i}]`, list[i], inner);
+      if (error) return error;
+    }
+  }
+  return null;
+};
+
+// Checks every element of a list, reporting the first few problems
+const MAX_LIST_ERRORS = 3;
+const listErrors = (key: string, list: unknown[], shape: ElementShape): string[] => {
+  const errors: string[] = [];
+  for (let i = 0; i < list.length && errors.length < MAX_LIST_ERRORS; i++) {
+    const error = elementError(`session.${key}[${i}]`, list[i], shape);
+    if (error) errors.push(error);
+  }
+  return errors;
+};
+
+// Structural checks on what the Results screen reads; optional fields only need the right shape
+const validateSession = (value: unknown): string[] => {
+  if (!isObject(value)) return ['session must be an object.'];
+  const errors: string[] = [];
+  ['id', 'scenario', 'scenarioName', 'targetGame'].forEach(key => {
+    if (typeof value[key] !== 'string') errors.push(`session.${key} must be a string.`);
+  });
+  ['timestamp', 'score', 'shotsFired', 'shotsHit', 'accuracy', 'sensitivity', 'dpi', 'seed'].forEach(key => {
+    if (!isFiniteNumber(value[key])) errors.push(`session.${key} must be a number.`);
+  });
+  ['avgTimeOnTarget', 'fov', 'duration', 'timeLimit', 'targetScale'].forEach(key => {
+    if (value[key] !== undefined && !isFiniteNumber(value[key])) errors.push(`session.${key} must be a number when present.`);
+  });
+  if (!Array.isArray(value.missData)) errors.push('session.missData must be a list of shots.');
+  Object.entries(LIST_SHAPES).forEach(([key, shape]) => {
+    const list = value[key];
+    if (list === undefined && key !== 'missData') return;
+    if (!Array.isArray(list)) {
+      if (key !== 'missData') errors.push(`session.${key} must be a list when present.`);
+      return;
+    }
+    errors.push(...listErrors(key, list, shape));
+  });
+  Object.entries(OBJECT_SHAPES).forEach(([key, shape]) => {
+    if (value[key] === undefined) return;
+    const error = elementError(`session.${key}`, value[key], shape);
+    if (error) errors.push(error);
+  });
+  if (value.hitbox !== undefined) errors.push(...validateHitbox(value.hitbox, 'session.hitbox'));
+  return errors;
+};
+
+// Parse and validate an exported session file
+export const parseSessionFile = (text: string): SessionImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+
+  if (!isObject(data) || data.format !== SESSION_FILE_FORMAT) {
+    return { ok: false, errors: [`File is not a session export (expected format "${SESSION_FILE_FORMAT}").`] };
+  }
+  if (!isSupportedVersion(data.version, SESSION_FILE_VERSION)) {
+    return { ok: false, errors: [`Unsupported session file version ${data.version}. This app reads up to version ${SESSION_FILE_VERSION}.`] };
+  }
+
+  const errors = validateSession(data.session);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, session: data.session as SessionStats };
+};
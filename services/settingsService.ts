@@ -0,0 +1,151 @@
+import { AudioSettings, CrosshairStyle, DeadzoneShape, FovScaling, HitEffect, InputDevice, InputSettings, MissEffect, StickCurve, VisualSettings } from '../types';
+import { DEFAULT_VERTICAL_FOV } from './fovService';
+import { DEFAULT_PROFILE_ID, profileStorageKey } from './profileService';
+import { isObject } from './validation';
+
+// Visual, audio and input settings, kept in localStorage per profile
+const STORAGE_NAME = 'settings';
+const AUDIO_STORAGE_NAME = 'audio';
+const INPUT_STORAGE_NAME = 'input';
+
+// Matches the trainer's look before it was configurable
+export const DEFAULT_VISUALS: VisualSettings = {
+  fov: DEFAULT_VERTICAL_FOV,
+  fovScaling: FovScaling.VERTICAL,
+  crosshair: {
+    style: CrosshairStyle.DOT,
+    size: 6,
+    gap: 3,
+    thickness: 4,
+    color: '#00ff00',
+    outline: false,
+    centerDot: false,
+  },
+  targetColor: '#00ffcc',
+  targetScale: 1,
+  hitEffect: HitEffect.NONE,
+  missEffect: MissEffect.NONE,
+};
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  volume: 0.6,
+  muted: false,
+  hitSound: true,
+  missSound: true,
+  killSound: true,
+  spawnSound: true,
+};
+
+export const DEFAULT_INPUT: InputSettings = {
+  device: InputDevice.MOUSE,
+  gamepad: {
+    curve: StickCurve.EXPONENTIAL,
+    curveExponent: 2,
+    deadzoneShape: DeadzoneShape.RADIAL,
+    innerDeadzone: 0.1,
+    outerDeadzone: 0.95,
+    yawSpeed: 300,
+    pitchSpeed: 220,
+    invertY: false,
+    accelerationBoost: 0.5,
+    accelerationDelay: 0.15,
+    accelerationTime: 0.3,
+    triggerThreshold: 0.5,
+  },
+};
+
+// Keep stored values whose type matches the default; anything else falls back
+const mergeKnown = <T extends object>(defaults: T, stored: unknown): T => {
+  if (!isObject(stored)) return defaults;
+  const merged: Record<string, unknown> = {};
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    merged[key] = typeof stored[key] === typeof fallback && !isObject(fallback) ? stored[key] : fallback;
+  });
+  return merged as T;
+};
+
+const oneOf = <T extends string>(options: Record<string, T>, value: T, fallback: T) =>
+  Object.values(options).includes(value) ? value : fallback;
+
+export const loadSettings = (profileId = DEFAULT_PROFILE_ID): VisualSettings => {
+  try {
+    const raw = localStorage.getItem(profileStorageKey(STORAGE_NAME, profileId));
+    if (!raw) return DEFAULT_VISUALS;
+    const parsed = JSON.parse(raw);
+    const settings = mergeKnown(DEFAULT_VISUALS, parsed);
+    const crosshair = mergeKnown(DEFAULT_VISUALS.crosshair, parsed?.crosshair);
+    return {
+      ...settings,
+      fovScaling: oneOf(FovScaling, settings.fovScaling, DEFAULT_VISUALS.fovScaling),
+      hitEffect: oneOf(HitEffect, settings.hitEffect, DEFAULT_VISUALS.hitEffect),
+      missEffect: oneOf(MissEffect, settings.missEffect, DEFAULT_VISUALS.missEffect),
+      crosshair: { ...crosshair, style: oneOf(CrosshairStyle, crosshair.style, DEFAULT_VISUALS.crosshair.style) },
+    };
+  } catch (err) {
+    console.warn('Settings are unreadable, using defaults.', err);
+    return DEFAULT_VISUALS;
+  }
+};
+
+export const saveSettings = (settings: VisualSettings, profileId = DEFAULT_PROFILE_ID) => {
+  try {
+    localStorage.setItem(profileStorageKey(STORAGE_NAME, profileId), JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Settings could not be saved.', err);
+  }
+};
+
+export const loadAudioSettings = (profileId = DEFAULT_PROFILE_ID): AudioSettings => {
+  try {
+    const raw = localStorage.getItem(profileStorageKey(AUDIO_STORAGE_NAME, profileId));
+    if (!raw) return DEFAULT_AUDIO;
+    const stored = JSON.parse(raw);
+    const audio = mergeKnown(DEFAULT_AUDIO, stored);
+    // Older settings had one switch, and it only covered spawn cues
+    if (isObject(stored) && stored.informationalSounds === false) audio.spawnSound = false;
+    return { ...audio, volume: Math.min(Math.max(audio.volume, 0), 1) };
+  } catch (err) {
+    console.warn('Audio settings are unreadable, using defaults.', err);
+    return DEFAULT_AUDIO;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings, profileId = DEFAULT_PROFILE_ID) => {
+  try {
+    localStorage.setItem(profileStorageKey(AUDIO_STORAGE_NAME, profileId), JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Audio settings could not be saved.', err);
+  }
+};
+
+export const loadInputSettings = (profileId = DEFAULT_PROFILE_ID): InputSettings => {
+  try {
+    const raw = localStorage.getItem(profileStorageKey(INPUT_STORAGE_NAME, profileId));
+    if (!raw) return DEFAULT_INPUT;
+    const parsed = JSON.parse(raw);
+    const gamepad = mergeKnown(DEFAULT_INPUT.gamepad, parsed?.gamepad);
+    const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+    return {
+      device: oneOf(InputDevice, parsed?.device, DEFAULT_INPUT.device),
+      gamepad: {
+        ...gamepad,
+        curve: oneOf(StickCurve, gamepad.curve, DEFAULT_INPUT.gamepad.curve),
+        deadzoneShape: oneOf(DeadzoneShape, gamepad.deadzoneShape, DEFAULT_INPUT.gamepad.deadzoneShape),
+        innerDeadzone: clamp01(gamepad.innerDeadzone),
+        outerDeadzone: clamp01(gamepad.outerDeadzone),
+        triggerThreshold: clamp01(gamepad.triggerThreshold),
+      },
+    };
+  } catch (err) {
+    console.warn('Input settings are unreadable, using defaults.', err);
+    return DEFAULT_INPUT;
+  }
+};
+
+export const saveInputSettings = (settings: InputSettings, profileId = DEFAULT_PROFILE_ID) => {
+  try {
+    localStorage.setItem(profileStorageKey(INPUT_STORAGE_NAME, profileId), JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Input settings could not be saved.', err);
+  }
+};
@@ -0,0 +1,371 @@
+import {
+  AdaptiveConfig,
+  AimSample,
+  DifficultySample,
+  MovementPattern,
+  RespawnRule,
+  ScenarioDefinition,
+  ScoringMode,
+  SessionMode,
+  SessionStats,
+  ShotData,
+  TargetEntity,
+  TargetGame,
+  TargetRecord,
+  TrackingSample,
+  Vec3,
+} from '../types';
+import {
+  Aim,
+  aimAt,
+  aimPoint,
+  evaluateShot,
+  hitZoneAt,
+  isHumanoid,
+  measureHead,
+  measureMotion,
+  measureOffset,
+  nearestToRay,
+  zoneScore,
+} from './aimGeometry';
+import { Rng, createRng, hashString } from './random';
+import { difficultySample, recordKill, recordOutcome } from './adaptiveDifficulty';
+import { SIM_STEP, createSimulation, replaceTarget, stepSimulation } from './targetSimulation';
+
+const ORIGIN: Vec3 = [0, 0, 0];
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Screen-space vector in degrees, right / up positive
+export interface ScreenVector {
+  x: number;
+  y: number;
+}
+
+export interface LandingContext {
+  amplitude: number;          // Degrees from the aim to the target center
+  direction: ScreenVector;    // Unit vector of the flick
+  motion: ScreenVector | null; // Unit vector of the target's apparent motion, null when static
+  targetRadius: number;       // Angular radius, degrees
+  rng: Rng;
+}
+
+// Scripted aim: where each flick (or tracking hold) ends, relative to the target center
+export interface SyntheticPlayer {
+  name: string;
+  landing: (context: LandingContext) => ScreenVector;
+}
+
+export interface HeadlessOptions {
+  seed: number;
+  duration?: number;       // Seconds; defaults to the scenario's
+  killTarget?: number;     // Ends the run early after this many kills
+  reactionTime?: number;   // ms from spawn to the first movement
+  flickTime?: number;      // ms of the initial flick
+  correctionTime?: number; // ms of a correction after a miss
+  settleTime?: number;     // ms between the end of a movement and the click
+  adaptive?: AdaptiveConfig; // Missing for fixed difficulty
+}
+
+// -----------------------------------------------------------------------------
+// Synthetic players
+// -----------------------------------------------------------------------------
+const scale = (v: ScreenVector, length: number): ScreenVector => ({ x: v.x * length, y: v.y * length });
+
+// Box-Muller
+const gaussian = (rng: Rng) => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+export const perfectPlayer: SyntheticPlayer = {
+  name: 'Perfect',
+  landing: () => ({ x: 0, y: 0 }),
+};
+
+// Lands `margin` degrees past the far edge: along the flick, or ahead of a moving target
+export const overshootPlayer = (margin = 0.2): SyntheticPlayer => ({
+  name: `Overshoot ${margin}°`,
+  landing: ({ direction, motion, targetRadius }) => scale(motion ?? direction, targetRadius + margin),
+});
+
+// Stops `margin` degrees short of the near edge, or trails a moving target
+export const undershootPlayer = (margin = 0.2): SyntheticPlayer => ({
+  name: `Undershoot ${margin}°`,
+  landing: ({ direction, motion, targetRadius }) => scale(motion ?? direction, -(targetRadius + margin)),
+});
+
+// Always lands `margin` degrees left of the target's edge
+export const leftBiasPlayer = (margin = 0.2): SyntheticPlayer => ({
+  name: `Left bias ${margin}°`,
+  landing: ({ targetRadius }) => ({ x: -(targetRadius + margin), y: 0 }),
+});
+
+// Unbiased, with a gaussian spread of `sd` target radii on each axis
+export const noisyPlayer = (sd = 1.5): SyntheticPlayer => ({
+  name: `Noisy SD ${sd}`,
+  landing: ({ targetRadius, rng }) => ({ x: gaussian(rng) * sd * targetRadius, y: gaussian(rng) * sd * targetRadius }),
+});
+
+// -----------------------------------------------------------------------------
+// Aim helpers
+// -----------------------------------------------------------------------------
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+// 5th-order minimum-jerk profile, the usual model of a ballistic hand movement
+const minimumJerk = (t: number) => t * t * t * (10 - 15 * t + 6 * t * t);
+
+// Aim that sees a point at a screen offset in degrees, measured the way shots are;
+// a few fixed-point steps absorb the yaw / pitch coupling away from the horizon
+const aimWithOffset = (target: TargetEntity, offset: ScreenVector): Aim => {
+  const center = aimAt(ORIGIN, target.position);
+  let aim: Aim = {
+    yaw: center.yaw - offset.x / RAD_TO_DEG / Math.cos(center.pitch),
+    pitch: center.pitch + offset.y / RAD_TO_DEG,
+  };
+  for (let i = 0; i < 3; i++) {
+    const measured = measureOffset(aim, ORIGIN, target);
+    if (!measured) break;
+    aim = {
+      yaw: aim.yaw - (offset.x - measured.angularX) / RAD_TO_DEG / Math.cos(aim.pitch),
+      pitch: aim.pitch + (offset.y - measured.angularY) / RAD_TO_DEG,
+    };
+  }
+  return aim;
+};
+
+const screenDelta = (from: Aim, to: Aim): ScreenVector => ({
+  x: -wrapAngle(to.yaw - from.yaw) * Math.cos(to.pitch) * RAD_TO_DEG,
+  y: (to.pitch - from.pitch) * RAD_TO_DEG,
+});
+
+const normalize = (v: ScreenVector): ScreenVector | null => {
+  const length = Math.hypot(v.x, v.y);
+  return length > 1e-9 ? { x: v.x / length, y: v.y / length } : null;
+};
+
+// Apparent direction of a target's motion on screen
+const screenMotion = (target: TargetEntity): ScreenVector | null =>
+  normalize(measureMotion(aimAt(ORIGIN, target.position), target.velocity).targetApparentVelocity!);
+
+const angularRadius = (target: TargetEntity) =>
+  Math.asin(Math.min(target.radius / Math.hypot(...target.position), 1)) * RAD_TO_DEG;
+
+// One planned movement toward a target, ending at an offset from its (moving) center
+interface Movement {
+  targetId: string;
+  from: Aim;
+  start: number; // ms
+  end: number;
+  offset: ScreenVector;
+  fireAt: number;
+}
+
+// -----------------------------------------------------------------------------
+// Run a scenario without rendering: same targets, scoring and records as the game
+// -----------------------------------------------------------------------------
+export const runHeadlessSession = (
+  scenario: ScenarioDefinition,
+  player: SyntheticPlayer,
+  options: HeadlessOptions
+): SessionStats => {
+  const {
+    seed,
+    duration = scenario.duration,
+    killTarget,
+    reactionTime = 200,
+    flickTime = 250,
+    correctionTime = 150,
+    settleTime = 60,
+    adaptive,
+  } = options;
+
+  const playerRng = createRng(hashString(`${seed}:${player.name}`));
+  const isMoving = scenario.movement.pattern !== MovementPattern.STATIC;
+  const isHoldScoring = scenario.scoring === ScoringMode.HOLD;
+  const killMode = killTarget !== undefined && !isHoldScoring;
+
+  const records = new Map<string, TargetRecord>();
+  const shots: ShotData[] = [];
+  const aimPath: AimSample[] = [];
+  const trackingSamples: TrackingSample[] = [];
+  let score = 0;
+  let hits = 0;
+  let shotsFired = 0;
+  let heldTime = 0;
+  let onTargetTime = 0;
+  let lastKillTime = 0;
+
+  const addRecord = (target: TargetEntity) => {
+    records.set(target.id, {
+      targetId: target.id,
+      spawnTime: target.spawnTime,
+      shots: 0,
+      position: [...target.position],
+      velocity: [...target.velocity],
+      radius: target.radius,
+    });
+  };
+
+  // The game's own target simulation, on a clock that starts at 0
+  let simulation = createSimulation(scenario, seed, 0, { adaptive });
+  simulation.targets.forEach(addRecord);
+  const difficultyCurve: DifficultySample[] = adaptive ? [difficultySample(simulation.difficulty, 0)] : [];
+  const recordResult = (success: boolean) => {
+    if (adaptive) simulation = { ...simulation, difficulty: recordOutcome(simulation.difficulty, simulation.elapsed, success) };
+  };
+
+  let aim: Aim = { yaw: 0, pitch: 0 };
+  let movement: Movement | null = null;
+
+  // Players go for the head of humanoid targets
+  const { hitbox } = scenario;
+  const focus = (target: TargetEntity): TargetEntity => ({ ...target, ...aimPoint(target, hitbox) });
+
+  const plan = (target: TargetEntity, time: number, offset: ScreenVector | null, length: number): Movement => {
+    const center = aimAt(ORIGIN, focus(target).position);
+    const delta = screenDelta(aim, center);
+    const landing = offset ?? player.landing({
+      amplitude: Math.hypot(delta.x, delta.y),
+      direction: normalize(delta) ?? { x: 1, y: 0 },
+      motion: isMoving ? screenMotion(target) : null,
+      targetRadius: angularRadius(focus(target)),
+      rng: playerRng,
+    });
+    return { targetId: target.id, from: aim, start: time, end: time + length, offset: landing, fireAt: time + length + settleTime };
+  };
+
+  const steps = Math.round(duration / SIM_STEP);
+  for (let step = 1; step <= steps; step++) {
+    const result = stepSimulation(simulation);
+    simulation = result.simulation;
+    result.spawned.forEach(addRecord);
+    if (result.adjusted) difficultyCurve.push(result.adjusted);
+    const { time, targets } = simulation;
+
+    // Pick the next target: the one closest to the crosshair
+    if (movement && !targets.some(t => t.id === movement!.targetId)) movement = null;
+    if (!movement) {
+      const next = nearestToRay(aim, ORIGIN, targets).target;
+      if (next) {
+        movement = plan(next, Math.max(time, next.spawnTime + reactionTime), null, flickTime);
+        const record = records.get(next.id);
+        if (record && record.firstMoveTime === undefined) record.firstMoveTime = movement.start;
+      }
+    }
+
+    if (movement) {
+      const target = targets.find(t => t.id === movement!.targetId)!;
+      const goal = aimWithOffset(focus(target), movement.offset);
+      const span = movement.end - movement.start;
+      const progress = span > 0 ? minimumJerk(Math.min(Math.max((time - movement.start) / span, 0), 1)) : 1;
+      aim = {
+        yaw: movement.from.yaw + wrapAngle(goal.yaw - movement.from.yaw) * progress,
+        pitch: movement.from.pitch + (goal.pitch - movement.from.pitch) * progress,
+      };
+    }
+    aimPath.push({ time, yaw: Math.round(aim.yaw * 1e5) / 1e5, pitch: Math.round(aim.pitch * 1e5) / 1e5 });
+
+    if (isHoldScoring) {
+      // Hold the button once the first flick lands; re-aim at every scoring tick
+      const firing = !!movement && time >= movement.end;
+      const { target: tracked } = nearestToRay(aim, ORIGIN, targets);
+      const zone = tracked ? hitZoneAt(aim, ORIGIN, tracked, hitbox) : null;
+      const onTarget = zone !== null;
+      if (firing) {
+        heldTime += SIM_STEP;
+        if (onTarget) onTargetTime += SIM_STEP;
+      }
+
+      if (tracked && result.trackingTick) {
+        const offset = measureOffset(aim, ORIGIN, focus(tracked));
+        if (offset) {
+          trackingSamples.push({
+            time: simulation.elapsed,
+            firing,
+            onTarget,
+            relativeX: offset.relativeX,
+            relativeY: offset.relativeY,
+            distanceFromCenter: offset.distanceFromCenter,
+          });
+          if (firing) {
+            shotsFired += 1;
+            recordResult(onTarget);
+            if (zone) {
+              score += zoneScore(zone, hitbox);
+              hits += 1;
+            }
+            shots.push({
+              timestamp: time,
+              hit: onTarget,
+              targetId: tracked.id,
+              ...offset,
+              ...measureMotion(aim, tracked.velocity),
+              ...measureHead(aim, ORIGIN, tracked, hitbox),
+              ...(zone && isHumanoid(hitbox) ? { zone } : {}),
+            });
+          }
+        }
+        if (firing) movement = plan(tracked, time, null, 0);
+      }
+      continue;
+    }
+
+    if (!movement || time < movement.fireAt) continue;
+
+    // Click
+    const { shot, hit, zone, aimed } = evaluateShot(aim, ORIGIN, targets, time, hitbox);
+    shots.push(shot);
+    shotsFired += 1;
+    const aimedRecord = aimed ? records.get(aimed.id) : undefined;
+    if (aimedRecord) aimedRecord.shots += 1;
+    recordResult(hit !== null);
+
+    if (hit && zone) {
+      score += zoneScore(zone, hitbox);
+      hits += 1;
+      movement = null;
+      if (scenario.respawn === RespawnRule.REPLACE_ON_KILL) {
+        if (aimedRecord) aimedRecord.killTime = time;
+        if (adaptive) {
+          const difficulty = recordKill(simulation.difficulty, simulation.elapsed, time - Math.max(hit.spawnTime, lastKillTime), adaptive);
+          simulation = { ...simulation, difficulty };
+        }
+        lastKillTime = time;
+        const replaced = replaceTarget(simulation, hit.id, time);
+        simulation = replaced.simulation;
+        replaced.spawned.forEach(addRecord);
+      }
+      if (killMode && hits >= killTarget!) break;
+    } else {
+      // Miss: correct onto the center and click again
+      const target = targets.find(t => t.id === movement!.targetId)!;
+      movement = plan(target, time, { x: 0, y: 0 }, correctionTime);
+    }
+  }
+
+  const lastTime = aimPath.length > 0 ? aimPath[aimPath.length - 1].time : 0;
+  return {
+    id: `headless-${hashString(`${scenario.id}:${player.name}:${seed}`).toString(36)}`,
+    timestamp: Date.now(),
+    score,
+    shotsFired,
+    shotsHit: hits,
+    accuracy: shotsFired > 0 ? (hits / shotsFired) * 100 : 0,
+    avgTimeOnTarget: isHoldScoring && heldTime > 0 ? (onTargetTime / heldTime) * 100 : undefined,
+    trackingSamples: isHoldScoring ? trackingSamples : undefined,
+    targetRecords: Array.from(records.values()),
+    aimPath,
+    missData: shots,
+    scenario: scenario.id,
+    scenarioName: scenario.name,
+    sensitivity: 1,
+    dpi: 800,
+    targetGame: TargetGame.CS2,
+    hitbox,
+    seed,
+    sessionMode: killMode ? SessionMode.KILLS : SessionMode.TIMED,
+    duration: lastTime / 1000,
+    timeLimit: killMode ? undefined : duration,
+    targetScale: 1,
+    endedEarly: undefined,
+    adaptive,
+    difficultyCurve: adaptive ? difficultyCurve : undefined,
+  };
+};
@@ -0,0 +1,54 @@
+import { Rng } from './random';
+
+// ln(n!) by summation, cached; sessions stay well within a few thousand shots
+const logFactorials: number[] = [0];
+const logFactorial = (n: number) => {
+  for (let i = logFactorials.length; i <= n; i++) logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  return logFactorials[n];
+};
+
+const binomialPmf = (k: number, n: number, p: number) =>
+  Math.exp(logFactorial(n) - logFactorial(k) - logFactorial(n - k) + k * Math.log(p) + (n - k) * Math.log(1 - p));
+
+// Exact two-sided binomial test: how likely is a split at least this uneven
+// if both outcomes were equally likely (p = 0.5)?
+export const binomialTest = (successes: number, trials: number): number => {
+  if (trials === 0) return 1;
+  const observed = binomialPmf(successes, trials, 0.5);
+  let pValue = 0;
+  for (let k = 0; k <= trials; k++) {
+    const pk = binomialPmf(k, trials, 0.5);
+    // Relative tolerance so the observed outcome is always counted
+    if (pk <= observed * (1 + 1e-7)) pValue += pk;
+  }
+  return Math.min(pValue, 1);
+};
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+// Percentile bootstrap interval of a statistic, at each requested level (e.g. 0.95)
+export const bootstrapIntervals = <T>(
+  values: T[],
+  statistic: (sample: T[]) => number,
+  levels: number[],
+  rng: Rng,
+  iterations = 1000
+): Interval[] => {
+  const estimates: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const sample = values.map(() => values[Math.floor(rng() * values.length)]);
+    estimates.push(statistic(sample));
+  }
+  estimates.sort((a, b) => a - b);
+  const at = (q: number) => estimates[Math.min(Math.max(Math.round(q * (iterations - 1)), 0), iterations - 1)];
+  return levels.map(level => ({ low: at((1 - level) / 2), high: at((1 + level) / 2) }));
+};
+
+export const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length - 1));
+};
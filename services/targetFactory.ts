@@ -0,0 +1,35 @@
+import { MovementDefinition, ScenarioDefinition, TargetEntity, Vec3 } from '../types';
+import { initMotion, stepMotion } from './movementModels';
+import { Rng } from './random';
+
+export const randomInRange = (rng: Rng, min: number, max: number) => min + rng() * (max - min);
+
+// New target inside the scenario's spawn volume (or at a fixed point).
+// Every call draws the same number of values from rng, so the spawn sequence
+// for a seed does not depend on which targets the player kills first.
+export const createTarget = (definition: ScenarioDefinition, rng: Rng, fixedPos?: Vec3, spawnTime = performance.now()): TargetEntity => {
+  const id = rng().toString(36).substr(2, 9);
+  const { min, max } = definition.spawnBounds;
+  const randomPos: Vec3 = [randomInRange(rng, min[0], max[0]), randomInRange(rng, min[1], max[1]), randomInRange(rng, min[2], max[2])];
+  const spawnPos: Vec3 = fixedPos ? [...fixedPos] : randomPos;
+
+  // Speed and starting direction; the pattern's model does the rest
+  const { movement } = definition;
+  const speed = randomInRange(rng, movement.speed.min, movement.speed.max);
+  const direction = rng() > 0.5 ? 1 : -1;
+  const { position, velocity, motion } = initMotion(id, spawnPos, speed, direction, movement);
+
+  return {
+    id,
+    position,
+    active: true,
+    velocity,
+    motion,
+    radius: randomInRange(rng, definition.radius.min, definition.radius.max),
+    spawnTime
+  };
+};
+
+// Step a target's movement by delta seconds
+export const advanceTarget = (target: TargetEntity, movement: MovementDefinition, delta: number): TargetEntity =>
+  stepMotion(target, movement, delta);
@@ -0,0 +1,55 @@
+import { TargetRecord } from '../types';
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export interface TargetSpeedSummary {
+  kills: number;
+  reactionTimes: number[]; // ms from spawn to first mouse movement
+  killTimes: number[];     // ms from spawn to kill
+  shotsPerKill: number[];  // Shots spent on each killed target
+  medianReaction: number | null;
+  medianTimeToKill: number | null;
+  medianShotsPerKill: number | null;
+}
+
+export const summarizeTargets = (records: TargetRecord[]): TargetSpeedSummary => {
+  const reactionTimes = records
+    .filter(r => r.firstMoveTime !== undefined)
+    .map(r => r.firstMoveTime! - r.spawnTime);
+  const killed = records.filter(r => r.killTime !== undefined);
+  const killTimes = killed.map(r => r.killTime! - r.spawnTime);
+  const shotsPerKill = killed.map(r => r.shots);
+
+  return {
+    kills: killed.length,
+    reactionTimes,
+    killTimes,
+    shotsPerKill,
+    medianReaction: median(reactionTimes),
+    medianTimeToKill: median(killTimes),
+    medianShotsPerKill: median(shotsPerKill),
+  };
+};
+
+// Equal-width bins for distribution charts
+export const histogram = (values: number[], binCount = 10) => {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = Math.max((max - min) / binCount, 1);
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach(v => {
+    const idx = Math.min(Math.floor((v - min) / width), binCount - 1);
+    bins[idx].count += 1;
+  });
+  return bins.map(b => ({ label: `${Math.round(b.from)}`, count: b.count }));
+};
@@ -0,0 +1,161 @@
+import { AdaptiveConfig, DifficultySample, MovementPattern, ScenarioDefinition, TargetEntity, Vec3 } from '../types';
+import { advanceTarget, createTarget } from './targetFactory';
+import { Rng, createRng } from './random';
+import {
+  ADJUST_INTERVAL,
+  DifficultyState,
+  adjustDifficulty,
+  difficultyScales,
+  initialDifficulty,
+  rescaleTarget,
+  rescalesInPlace,
+  scaleScenario,
+} from './adaptiveDifficulty';
+
+// Targets are simulated in fixed steps (seconds), independent of the display rate
+export const SIM_STEP = 1 / 240;
+// Tracking is judged continuously; one sample (and one scoring tick) per interval
+export const TRACKING_SAMPLE_INTERVAL = 0.1;
+// Moving target positions are stored at this rate for replays
+export const PATH_SAMPLE_INTERVAL = 1 / 30;
+
+export interface SimulationOptions {
+  adaptive?: AdaptiveConfig; // Missing for fixed difficulty
+  targetScale?: number;      // Multiplies every new target's radius; defaults to 1
+}
+
+// The target side of a session. The game, the headless harness and the race
+// referee all step it here, so they agree on where every target is.
+export interface Simulation {
+  scenario: ScenarioDefinition;
+  options: SimulationOptions;
+  rng: Rng;
+  time: number;            // ms at the end of the last step, on the caller's clock
+  elapsed: number;         // Seconds simulated
+  targets: TargetEntity[];
+  pendingSpawns: number[]; // Due times of delayed respawns, ms
+  difficulty: DifficultyState;
+  adjustClock: number;     // Seconds since the last difficulty adjustment
+  sampleClock: number;     // Seconds since the last tracking tick
+  pathClock: number;       // Seconds since the last replay path point
+}
+
+export interface StepResult {
+  simulation: Simulation;
+  spawned: TargetEntity[];     // Delayed respawns that joined at the start of the step
+  adjusted?: DifficultySample; // Set when the difficulty was adjusted (adaptive only)
+  rescaled: boolean;           // Live targets changed size with the level
+  pathSample: boolean;         // Moving targets are due a replay path point
+  trackingTick: boolean;       // A tracking sample (and scoring tick) ends the step
+}
+
+const spawn = (simulation: Simulation, time: number, fixedPos?: Vec3): TargetEntity => {
+  const { scenario, options } = simulation;
+  const definition = options.adaptive ? scaleScenario(scenario, difficultyScales(simulation.difficulty.level)) : scenario;
+  const created = createTarget(definition, simulation.rng, fixedPos, time);
+  return { ...created, radius: created.radius * (options.targetScale ?? 1) };
+};
+
+// The scenario's opening targets, spawned at `time`
+export const createSimulation = (scenario: ScenarioDefinition, seed: number, time: number, options: SimulationOptions = {}): Simulation => {
+  const simulation: Simulation = {
+    scenario,
+    options,
+    rng: createRng(seed),
+    time,
+    elapsed: 0,
+    targets: [],
+    pendingSpawns: [],
+    difficulty: initialDifficulty(),
+    adjustClock: 0,
+    sampleClock: 0,
+    pathClock: 0,
+  };
+  for (let i = 0; i < scenario.targetCount; i++) {
+    simulation.targets.push(spawn(simulation, time, scenario.initialPositions?.[i]));
+  }
+  return simulation;
+};
+
+// Delayed respawns due by `until` join, each at its own due time
+export const spawnDue = (simulation: Simulation, until: number): { simulation: Simulation; spawned: TargetEntity[] } => {
+  const { pendingSpawns } = simulation;
+  const due = pendingSpawns.findIndex(time => time > until);
+  const count = due < 0 ? pendingSpawns.length : due;
+  if (count === 0) return { simulation, spawned: [] };
+  const spawned = pendingSpawns.slice(0, count).map(time => spawn(simulation, time));
+  return {
+    simulation: { ...simulation, targets: [...simulation.targets, ...spawned], pendingSpawns: pendingSpawns.slice(count) },
+    spawned,
+  };
+};
+
+// Takes a killed target out; its replacement spawns now or after the scenario's delay
+export const replaceTarget = (simulation: Simulation, targetId: string, time: number): { simulation: Simulation; spawned: TargetEntity[] } => {
+  const remaining = { ...simulation, targets: simulation.targets.filter(t => t.id !== targetId) };
+  const { respawnDelay } = simulation.scenario;
+  if (respawnDelay > 0) {
+    return { simulation: { ...remaining, pendingSpawns: [...simulation.pendingSpawns, time + respawnDelay * 1000] }, spawned: [] };
+  }
+  const target = spawn(remaining, time);
+  return { simulation: { ...remaining, targets: [...remaining.targets, target] }, spawned: [target] };
+};
+
+// -----------------------------------------------------------------------------
+// One SIM_STEP: due respawns join, then difficulty, movement and the sample clocks advance
+// -----------------------------------------------------------------------------
+export const stepSimulation = (current: Simulation): StepResult => {
+  const { simulation: joined, spawned } = spawnDue(current, current.time + SIM_STEP * 1000);
+  const { scenario, options } = joined;
+  let { targets, difficulty, adjustClock, sampleClock, pathClock } = joined;
+  const elapsed = joined.elapsed + SIM_STEP;
+
+  // Every ADJUST_INTERVAL of play: move the level, and resize live targets that never respawn
+  let adjusted: DifficultySample | undefined;
+  let rescaled = false;
+  if (options.adaptive) {
+    adjustClock += SIM_STEP;
+    if (adjustClock >= ADJUST_INTERVAL) {
+      adjustClock -= ADJUST_INTERVAL;
+      const previous = difficulty.level;
+      const { state, sample } = adjustDifficulty(difficulty, elapsed, options.adaptive);
+      difficulty = state;
+      adjusted = sample;
+      if (state.level !== previous && rescalesInPlace(scenario)) {
+        const from = difficultyScales(previous);
+        const to = difficultyScales(state.level);
+        targets = targets.map(t => rescaleTarget(t, from, to));
+        rescaled = true;
+      }
+    }
+  }
+
+  let pathSample = false;
+  if (scenario.movement.pattern !== MovementPattern.STATIC) {
+    targets = targets.map(t => advanceTarget(t, scenario.movement, SIM_STEP));
+    pathClock += SIM_STEP;
+    pathSample = pathClock >= PATH_SAMPLE_INTERVAL;
+    if (pathSample) pathClock -= PATH_SAMPLE_INTERVAL;
+  }
+
+  sampleClock += SIM_STEP;
+  const trackingTick = targets.length > 0 && sampleClock >= TRACKING_SAMPLE_INTERVAL;
+  if (trackingTick) sampleClock -= TRACKING_SAMPLE_INTERVAL;
+
+  return {
+    simulation: { ...joined, time: joined.time + SIM_STEP * 1000, elapsed, targets, difficulty, adjustClock, sampleClock, pathClock },
+    spawned,
+    adjusted,
+    rescaled,
+    pathSample,
+    trackingTick,
+  };
+};
+
+// Target positions at `time`, between two simulated steps
+export const targetsAt = (simulation: Simulation, time: number) => {
+  const { scenario, targets } = simulation;
+  const ahead = (time - simulation.time) / 1000;
+  if (scenario.movement.pattern === MovementPattern.STATIC || ahead <= 0) return targets;
+  return targets.map(t => advanceTarget(t, scenario.movement, ahead));
+};
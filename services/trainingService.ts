@@ -0,0 +1,445 @@
+import { Playlist, PlaylistBlock, ProgramProgress, ScenarioType, SessionStats, TrainingProgram } from '../types';
+import { getScenario } from './scenarioRegistry';
+import { profileStorageKey } from './profileService';
+import { medianTimeToKill } from './leaderboardService';
+import { isObject, isSupportedVersion } from './validation';
+import { downloadJson } from './fileDownload';
+
+// Imported playlists and programs are shared by every profile; progress is per profile
+const STORAGE_KEY = 'precision-aim-lab:training:v1';
+const PROGRESS_NAME = 'program';
+
+// Files coaches hand out: any number of playlists and the programs built from them
+export const TRAINING_FILE_FORMAT = 'precision-aim-lab/training';
+export const TRAINING_FILE_VERSION = 1;
+
+export interface TrainingFile {
+  format: typeof TRAINING_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  playlists: Playlist[];
+  programs: TrainingProgram[];
+}
+
+// -----------------------------------------------------------------------------
+// Built-ins
+// -----------------------------------------------------------------------------
+const block = (scenario: ScenarioType, duration: number, rest: number): PlaylistBlock => ({ scenario, duration, rest });
+
+export const BUILT_IN_PLAYLISTS: Playlist[] = [
+  {
+    id: 'warmup',
+    name: 'Daily Warm-up',
+    description: 'One short block of each core skill.',
+    blocks: [
+      block(ScenarioType.GRIDSHOT, 45, 10),
+      block(ScenarioType.FLICKING, 45, 10),
+      block(ScenarioType.TRACKING, 45, 0),
+    ],
+  },
+  {
+    id: 'flick-fundamentals',
+    name: 'Flick Fundamentals',
+    description: 'Long flicking blocks split by a fast reset.',
+    blocks: [
+      block(ScenarioType.FLICKING, 60, 15),
+      block(ScenarioType.GRIDSHOT, 30, 15),
+      block(ScenarioType.FLICKING, 60, 0),
+    ],
+  },
+  {
+    id: 'flick-precision',
+    name: 'Flick Precision',
+    description: 'Repeated flicking, then crosshair placement on strafing heads.',
+    blocks: [
+      block(ScenarioType.FLICKING, 60, 20),
+      block(ScenarioType.FLICKING, 60, 20),
+      block(ScenarioType.FLICKING, 60, 20),
+      block(ScenarioType.HEADSHOT, 60, 0),
+    ],
+  },
+  {
+    id: 'flick-endurance',
+    name: 'Flick Endurance',
+    description: 'Longer blocks with shorter rests.',
+    blocks: [
+      block(ScenarioType.FLICKING, 90, 15),
+      block(ScenarioType.GRIDSHOT, 60, 15),
+      block(ScenarioType.FLICKING, 90, 15),
+      block(ScenarioType.HEADSHOT, 60, 0),
+    ],
+  },
+];
+
+// Four weeks of five training days, moving from volume to precision to endurance
+const FLICKING_WEEKS: (string | null)[][] = [
+  ['flick-fundamentals', 'warmup', 'flick-fundamentals', null, 'flick-fundamentals', 'warmup', null],
+  ['flick-fundamentals', 'flick-precision', 'warmup', null, 'flick-precision', 'flick-fundamentals', null],
+  ['flick-precision', 'warmup', 'flick-precision', null, 'flick-endurance', 'flick-precision', null],
+  ['flick-endurance', 'warmup', 'flick-endurance', null, 'flick-precision', 'flick-endurance', null],
+];
+
+export const BUILT_IN_PROGRAMS: TrainingProgram[] = [
+  {
+    id: 'flicking-4-week',
+    name: '4-Week Flicking Plan',
+    description: 'Five sessions a week with two rest days.',
+    days: FLICKING_WEEKS.flat(),
+  },
+];
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+const LIMITS = {
+  duration: [5, 600],
+  rest: [0, 600],
+  blocks: [1, 30],
+  days: [1, 365],
+} as const;
+
+const checkText = (errors: string[], path: string, value: unknown) => {
+  if (typeof value !== 'string' || value.trim() === '') errors.push(`${path} must be a non-empty string.`);
+};
+
+const checkCount = (errors: string[], path: string, list: unknown[], [min, max]: readonly [number, number]) => {
+  if (list.length < min || list.length > max) errors.push(`${path} must have between ${min} and ${max} entries (got ${list.length}).`);
+};
+
+// Imported blocks must name installed scenarios, so import custom scenarios first.
+// Stored playlists skip that check and report missing scenarios when started.
+export const validatePlaylist = (value: unknown, path = 'playlist', requireInstalled = true): string[] => {
+  if (!isObject(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  checkText(errors, `${path}.id`, value.id);
+  checkText(errors, `${path}.name`, value.name);
+  if (typeof value.description !== 'string') errors.push(`${path}.description must be a string.`);
+  if (!Array.isArray(value.blocks)) return [...errors, `${path}.blocks must be a list.`];
+
+  checkCount(errors, `${path}.blocks`, value.blocks, LIMITS.blocks);
+  value.blocks.forEach((b: unknown, i: number) => {
+    const at = `${path}.blocks[${i}]`;
+    if (!isObject(b)) {
+      errors.push(`${at} must be an object.`);
+      return;
+    }
+    if (typeof b.scenario !== 'string') errors.push(`${at}.scenario must be a scenario id.`);
+    else if (requireInstalled && !getScenario(b.scenario)) errors.push(`${at}.scenario "${b.scenario}" is not an installed scenario.`);
+    (['duration', 'rest'] as const).forEach(key => {
+      const n = b[key];
+      const [min, max] = LIMITS[key];
+      if (typeof n !== 'number' || !Number.isFinite(n)) errors.push(`${at}.${key} must be a number.`);
+      else if (n < min || n > max) errors.push(`${at}.${key} must be between ${min} and ${max} (got ${n}).`);
+    });
+  });
+  return errors;
+};
+
+// Every training day must name a playlist in `playlistIds`
+export const validateProgram = (value: unknown, playlistIds: Set<string>, path = 'program'): string[] => {
+  if (!isObject(value)) return [`${path} must be an object.`];
+  const errors: string[] = [];
+  checkText(errors, `${path}.id`, value.id);
+  checkText(errors, `${path}.name`, value.name);
+  if (typeof value.description !== 'string') errors.push(`${path}.description must be a string.`);
+  if (!Array.isArray(value.days)) return [...errors, `${path}.days must be a list.`];
+
+  checkCount(errors, `${path}.days`, value.days, LIMITS.days);
+  value.days.forEach((day: unknown, i: number) => {
+    if (day !== null && (typeof day !== 'string' || !playlistIds.has(day))) {
+      errors.push(`${path}.days[${i}] must be null (rest) or a known playlist id (got ${JSON.stringify(day)}).`);
+    }
+  });
+  if (!value.days.some((day: unknown) => day !== null)) errors.push(`${path}.days needs at least one training day.`);
+  return errors;
+};
+
+// -----------------------------------------------------------------------------
+// Local storage
+// -----------------------------------------------------------------------------
+interface StoredTraining {
+  playlists: Playlist[];
+  programs: TrainingProgram[];
+}
+
+const loadImported = (): StoredTraining => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!isObject(parsed)) return { playlists: [], programs: [] };
+    const playlists: Playlist[] = Array.isArray(parsed.playlists)
+      ? parsed.playlists.filter((p: unknown) => validatePlaylist(p, 'playlist', false).length === 0)
+      : [];
+    const ids = new Set([...BUILT_IN_PLAYLISTS, ...playlists].map(p => p.id));
+    const programs: TrainingProgram[] = Array.isArray(parsed.programs)
+      ? parsed.programs.filter((p: unknown) => validateProgram(p, ids).length === 0)
+      : [];
+    return { playlists, programs };
+  } catch (err) {
+    console.warn('Imported training plans are unreadable, ignoring them.', err);
+    return { playlists: [], programs: [] };
+  }
+};
+
+const writeImported = (training: StoredTraining) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(training));
+  } catch (err) {
+    console.warn('Imported training plans could not be saved.', err);
+  }
+};
+
+const isBuiltIn = (id: string) => BUILT_IN_PLAYLISTS.some(p => p.id === id) || BUILT_IN_PROGRAMS.some(p => p.id === id);
+
+export const getPlaylists = (): Playlist[] => [...BUILT_IN_PLAYLISTS, ...loadImported().playlists];
+export const getPrograms = (): TrainingProgram[] => [...BUILT_IN_PROGRAMS, ...loadImported().programs];
+export const getPlaylist = (id: string) => getPlaylists().find(p => p.id === id);
+export const getProgram = (id: string) => getPrograms().find(p => p.id === id);
+export const isImported = (id: string) => !isBuiltIn(id);
+
+// Adds or replaces by id; built-ins are never replaced
+export const saveImportedTraining = (file: Pick<TrainingFile, 'playlists' | 'programs'>) => {
+  const current = loadImported();
+  const merge = <T extends { id: string }>(existing: T[], incoming: T[]) => [
+    ...existing.filter(item => !incoming.some(next => next.id === item.id)),
+    ...incoming.filter(item => !isBuiltIn(item.id)),
+  ];
+  writeImported({
+    playlists: merge(current.playlists, file.playlists),
+    programs: merge(current.programs, file.programs),
+  });
+};
+
+// Programs that use the playlist go with it
+export const deleteImportedPlaylist = (id: string) => {
+  const current = loadImported();
+  writeImported({
+    playlists: current.playlists.filter(p => p.id !== id),
+    programs: current.programs.filter(p => !p.days.includes(id)),
+  });
+};
+
+export const deleteImportedProgram = (id: string) => {
+  const current = loadImported();
+  writeImported({ ...current, programs: current.programs.filter(p => p.id !== id) });
+};
+
+// -----------------------------------------------------------------------------
+// Program progress
+// -----------------------------------------------------------------------------
+// Programs follow the player's calendar, not UTC like the daily challenge
+export const localDate = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysBetween = (from: string, to: string) => {
+  const utc = (text: string) => {
+    const [y, m, d] = text.split('-').map(Number);
+    return Date.UTC(y, m - 1, d);
+  };
+  return Math.round((utc(to) - utc(from)) / 86400000);
+};
+
+const isProgress = (value: unknown): value is ProgramProgress =>
+  isObject(value) &&
+  typeof value.programId === 'string' &&
+  typeof value.startDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.startDate) &&
+  Array.isArray(value.completedDays) && value.completedDays.every((d: unknown) => Number.isInteger(d));
+
+export const loadProgramProgress = (profileId: string): ProgramProgress | null => {
+  try {
+    const raw = localStorage.getItem(profileStorageKey(PROGRESS_NAME, profileId));
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    return isProgress(parsed) && getProgram(parsed.programId) ? parsed : null;
+  } catch (err) {
+    console.warn('Program progress is unreadable, ignoring it.', err);
+    return null;
+  }
+};
+
+const writeProgress = (profileId: string, progress: ProgramProgress | null) => {
+  const key = profileStorageKey(PROGRESS_NAME, profileId);
+  try {
+    if (progress) localStorage.setItem(key, JSON.stringify(progress));
+    else localStorage.removeItem(key);
+  } catch (err) {
+    console.warn('Program progress could not be saved.', err);
+  }
+};
+
+// Starts today as day 1, replacing any current enrollment
+export const enrollInProgram = (profileId: string, programId: string): ProgramProgress => {
+  const progress = { programId, startDate: localDate(), completedDays: [] };
+  writeProgress(profileId, progress);
+  return progress;
+};
+
+export const leaveProgram = (profileId: string) => writeProgress(profileId, null);
+
+export const completeProgramDay = (profileId: string, day: number) => {
+  const progress = loadProgramProgress(profileId);
+  if (!progress || progress.completedDays.includes(day)) return;
+  writeProgress(profileId, { ...progress, completedDays: [...progress.completedDays, day].sort((a, b) => a - b) });
+};
+
+export interface RoutineToday {
+  program: TrainingProgram;
+  day: number;                 // Index into program.days
+  playlist: Playlist | null;   // Null on a rest day
+  done: boolean;
+  finished: boolean;           // Past the program's last day
+}
+
+export const routineToday = (progress: ProgramProgress, today = localDate()): RoutineToday | null => {
+  const program = getProgram(progress.programId);
+  if (!program) return null;
+  const day = daysBetween(progress.startDate, today);
+  const finished = day >= program.days.length;
+  const id = finished ? null : program.days[day];
+  return {
+    program,
+    day,
+    playlist: id ? getPlaylist(id) ?? null : null,
+    done: progress.completedDays.includes(day),
+    finished,
+  };
+};
+
+export interface ProgramCompletion {
+  trainingDays: number;
+  completed: number;
+  missed: number; // Training days already past without completion
+}
+
+export const programCompletion = (program: TrainingProgram, progress: ProgramProgress, today = localDate()): ProgramCompletion => {
+  const current = daysBetween(progress.startDate, today);
+  let trainingDays = 0;
+  let missed = 0;
+  program.days.forEach((id, day) => {
+    if (id === null) return;
+    trainingDays += 1;
+    if (day < current && !progress.completedDays.includes(day)) missed += 1;
+  });
+  return { trainingDays, completed: progress.completedDays.length, missed };
+};
+
+// -----------------------------------------------------------------------------
+// Playlist runs and their combined report
+// -----------------------------------------------------------------------------
+export const playlistDuration = (playlist: Playlist) =>
+  playlist.blocks.reduce((sum, b, i) => sum + b.duration + (i < playlist.blocks.length - 1 ? b.rest : 0), 0);
+
+export const missingScenarios = (playlist: Playlist) =>
+  playlist.blocks.filter(b => !getScenario(b.scenario)).map(b => b.scenario);
+
+export interface PlaylistRun {
+  runId: string;
+  playlist: Playlist;
+  programDay?: number; // Set when started as today's routine
+  sessions: SessionStats[]; // One per finished block, in order
+}
+
+export interface PlaylistBlockResult {
+  block: number;
+  scenarioName: string;
+  session: SessionStats | null; // Null for blocks not reached
+  score: number;
+  accuracy: number;
+  timeToKill: number | null; // Median, ms
+}
+
+export interface PlaylistReport {
+  blocks: PlaylistBlockResult[];
+  completed: boolean; // Every block played to the end
+  score: number;
+  shotsFired: number;
+  shotsHit: number;
+  accuracy: number;
+  timePlayed: number; // Seconds, rests excluded
+}
+
+export const summarizePlaylistRun = (run: PlaylistRun): PlaylistReport => {
+  const blocks = run.playlist.blocks.map((b, i) => {
+    const session = run.sessions[i] ?? null;
+    return {
+      block: i,
+      scenarioName: session?.scenarioName ?? getScenario(b.scenario)?.name ?? b.scenario,
+      session,
+      score: session?.score ?? 0,
+      accuracy: session?.accuracy ?? 0,
+      timeToKill: session ? medianTimeToKill(session) : null,
+    };
+  });
+  const shotsFired = run.sessions.reduce((sum, s) => sum + s.shotsFired, 0);
+  const shotsHit = run.sessions.reduce((sum, s) => sum + s.shotsHit, 0);
+  return {
+    blocks,
+    completed: run.sessions.length === run.playlist.blocks.length && !run.sessions.some(s => s.endedEarly),
+    score: run.sessions.reduce((sum, s) => sum + s.score, 0),
+    shotsFired,
+    shotsHit,
+    accuracy: shotsFired > 0 ? (shotsHit / shotsFired) * 100 : 0,
+    timePlayed: run.sessions.reduce((sum, s) => sum + (s.duration ?? 0), 0),
+  };
+};
+
+// -----------------------------------------------------------------------------
+// File import / export
+// -----------------------------------------------------------------------------
+export const exportTrainingFile = (programs: TrainingProgram[], playlists: Playlist[], name: string) => {
+  const file: TrainingFile = {
+    format: TRAINING_FILE_FORMAT,
+    version: TRAINING_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    playlists,
+    programs,
+  };
+  downloadJson(name, 'training.json', JSON.stringify(file, null, 2));
+};
+
+// A program's file carries the playlists its days use
+export const exportProgram = (program: TrainingProgram) => {
+  const ids = new Set(program.days.filter((id): id is string => id !== null));
+  exportTrainingFile([program], getPlaylists().filter(p => ids.has(p.id)), program.name);
+};
+
+export type TrainingImportResult =
+  | { ok: true; playlists: Playlist[]; programs: TrainingProgram[] }
+  | { ok: false; errors: string[] };
+
+// Parse and validate a shared training file
+export const parseTrainingFile = (text: string): TrainingImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+
+  if (!isObject(data) || data.format !== TRAINING_FILE_FORMAT) {
+    return { ok: false, errors: [`File is not a training plan (expected format "${TRAINING_FILE_FORMAT}").`] };
+  }
+  if (!isSupportedVersion(data.version, TRAINING_FILE_VERSION)) {
+    return { ok: false, errors: [`Unsupported training file version ${data.version}. This app reads up to version ${TRAINING_FILE_VERSION}.`] };
+  }
+  if (!Array.isArray(data.playlists) || !Array.isArray(data.programs)) {
+    return { ok: false, errors: ['File needs "playlists" and "programs" lists.'] };
+  }
+
+  const errors: string[] = [];
+  data.playlists.forEach((p: unknown, i: number) => errors.push(...validatePlaylist(p, `playlists[${i}]`)));
+  const ids = new Set(getPlaylists().map(p => p.id));
+  data.playlists.forEach((p: unknown) => {
+    if (isObject(p) && typeof p.id === 'string') ids.add(p.id);
+  });
+  data.programs.forEach((p: unknown, i: number) => errors.push(...validateProgram(p, ids, `programs[${i}]`)));
+  if (errors.length > 0) return { ok: false, errors };
+
+  // Built-ins in the file are already installed
+  const notBuiltIn = (item: { id: string }) => !isBuiltIn(item.id);
+  return {
+    ok: true,
+    playlists: (data.playlists as Playlist[]).filter(notBuiltIn),
+    programs: (data.programs as TrainingProgram[]).filter(notBuiltIn),
+  };
+};
@@ -0,0 +1,9 @@
+// Guards for untrusted JSON: imported files and stored settings
+
+// A JSON object with named fields; arrays are lists, not objects
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// File versions count up from 1; files newer than the app are refused
+export const isSupportedVersion = (version: unknown, current: number): version is number =>
+  typeof version === 'number' && Number.isInteger(version) && version >= 1 && version <= current;
@@ -0,0 +1,41 @@
+import { HitZone, ShotData } from '../types';
+import { median } from './targetMetrics';
+
+// Within this many degrees of head height counts as on the line
+const ON_LINE_DEGREES = 0.5;
+
+export interface ZoneSummary {
+  hits: number;
+  headHits: number;
+  headshotRate: number; // % of hits
+  // Crosshair height against head height over every shot at a humanoid, degrees
+  meanPlacementError: number;   // Mean absolute error
+  medianPlacementError: number;
+  meanPlacementBias: number;    // Signed mean, above positive
+  above: number;                // Shots above / on / below the head line
+  onLine: number;
+  below: number;
+}
+
+// Null when the session had no humanoid targets
+export const summarizeZones = (shots: ShotData[]): ZoneSummary | null => {
+  const placed = shots.filter(s => s.headOffsetY !== undefined);
+  if (placed.length === 0) return null;
+
+  const hits = shots.filter(s => s.hit && s.zone !== undefined);
+  const headHits = hits.filter(s => s.zone === HitZone.HEAD).length;
+  const offsets = placed.map(s => s.headOffsetY!);
+  const errors = offsets.map(Math.abs);
+
+  return {
+    hits: hits.length,
+    headHits,
+    headshotRate: hits.length > 0 ? (headHits / hits.length) * 100 : 0,
+    meanPlacementError: errors.reduce((a, b) => a + b, 0) / errors.length,
+    medianPlacementError: median(errors)!,
+    meanPlacementBias: offsets.reduce((a, b) => a + b, 0) / offsets.length,
+    above: offsets.filter(o => o > ON_LINE_DEGREES).length,
+    onLine: offsets.filter(o => Math.abs(o) <= ON_LINE_DEGREES).length,
+    below: offsets.filter(o => o < -ON_LINE_DEGREES).length,
+  };
+};
@@ -1,41 +1,420 @@
 export enum GameState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
-  RESULTS = 'RESULTS'
+  RESULTS = 'RESULTS',
+  HISTORY = 'HISTORY',
+  EDITOR = 'EDITOR',
+  CALIBRATION = 'CALIBRATION',
+  REPLAY = 'REPLAY',
+  SETTINGS = 'SETTINGS',
+  LEADERBOARD = 'LEADERBOARD',
+  TRAINING = 'TRAINING',
+  PLAYLIST_REST = 'PLAYLIST_REST',     // Between two blocks of a playlist
+  PLAYLIST_REPORT = 'PLAYLIST_REPORT',
+  RACE_LOBBY = 'RACE_LOBBY',
+  RACE_RESULTS = 'RACE_RESULTS'
 }
 
+// Ids of the built-in scenario definitions
 export enum ScenarioType {
   GRIDSHOT = 'GRIDSHOT', // Static targets appearing rapidly
   TRACKING = 'TRACKING', // Moving targets
-  FLICKING = 'FLICKING'  // Small targets requiring precision
+  FLICKING = 'FLICKING',  // Small targets requiring precision
+  HEADSHOT = 'HEADSHOT'   // Strafing humanoids at head height
+}
+
+export type Vec3 = [number, number, number];
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Axis patterns move along `axis`: x strafes, y is vertical, z is depth
+export enum MovementPattern {
+  STATIC = 'STATIC',
+  LINEAR_BOUNCE = 'LINEAR_BOUNCE', // Constant speed along one axis, reversing at the travel limits
+  STRAFE = 'STRAFE',               // Along one axis, accelerating into random direction changes
+  ADAD = 'ADAD',                   // Along one axis, reversing every fraction of a second
+  CIRCULAR = 'CIRCULAR',           // Around a circle through the spawn point; `axis` is the circle's normal
+  NOISE = 'NOISE'                  // Smoothed random wander around the spawn point; `axis` is the plane's normal
+}
+
+export interface MovementDefinition {
+  pattern: MovementPattern;
+  axis: 'x' | 'y' | 'z';
+  speed: NumberRange; // Units per second (top speed for STRAFE / ADAD), direction chosen at random
+  travel: NumberRange; // Coordinate limits along the axis, for the axis patterns
+  // Pattern tuning; missing values use the pattern's defaults
+  acceleration?: number;        // STRAFE / ADAD, units/s²
+  changeInterval?: NumberRange; // STRAFE / ADAD / NOISE, seconds between direction changes
+  pathRadius?: number;          // CIRCULAR path radius / NOISE wander radius, units
+  smoothing?: number;           // NOISE, seconds for the velocity to follow a new heading
+}
+
+// Per-target movement state; replaces what a model cannot read off position and velocity
+export interface MotionState {
+  anchor: Vec3;   // Circle center, or the point a wandering target stays near
+  random: number; // PRNG state, so paths repeat per seed and extrapolating has no side effects
+  speed: number;  // Chosen at spawn
+  heading: number; // STRAFE / ADAD: wanted direction (+1 / -1); CIRCULAR / NOISE: angle in radians
+  direction: number; // CIRCULAR: +1 / -1 around the circle
+  timer: number;  // Seconds until the next direction change
+}
+
+export enum HitboxShape {
+  SPHERE = 'SPHERE',
+  HUMANOID = 'HUMANOID' // Upright capsule body with a head on top; `radius` is the body's
+}
+
+export enum HitZone {
+  HEAD = 'HEAD',
+  BODY = 'BODY'
+}
+
+// Humanoid proportions are in body radii, so radius ranges and target scale apply to the whole figure.
+// The target's position is the center of the body.
+export interface HitboxDefinition {
+  shape: HitboxShape;
+  bodyHeight: number; // Capsule length, end to end
+  headRadius: number;
+  neckGap: number;    // From the top of the body to the bottom of the head
+  headScore: number;  // Points for a head hit; body hits score 1
+  headLine: boolean;  // Draw a line at head height, for crosshair placement drills
+}
+
+export enum ScoringMode {
+  CLICK = 'CLICK', // One shot per mouse click
+  HOLD = 'HOLD'    // Scored continuously while the button is held
+}
+
+export enum RespawnRule {
+  REPLACE_ON_KILL = 'REPLACE_ON_KILL', // A hit removes the target and spawns a new one
+  PERSIST = 'PERSIST'                  // Targets are never destroyed
+}
+
+export interface ScenarioDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  accent: string; // Tailwind color name used for menu highlights
+  duration: number; // Seconds
+  targetCount: number; // Targets alive at the same time
+  spawnBounds: { min: Vec3; max: Vec3 };
+  initialPositions?: Vec3[]; // Fixed spawn points for the first targets
+  radius: NumberRange;
+  movement: MovementDefinition;
+  scoring: ScoringMode;
+  respawn: RespawnRule;
+  respawnDelay: number; // Seconds before a replacement target appears
+  hitbox?: HitboxDefinition; // Missing means a sphere
+}
+
+// Games whose yaw constants the sensitivity converter knows about
+export enum TargetGame {
+  CS2 = 'CS2',
+  VALORANT = 'VALORANT',
+  OVERWATCH = 'OVERWATCH'
+}
+
+// Where the spawn seed for the next run comes from
+export enum SeedMode {
+  RANDOM = 'RANDOM',
+  DAILY = 'DAILY',   // Same seed for everyone on a given UTC date
+  CUSTOM = 'CUSTOM'
+}
+
+// How a session ends
+export enum SessionMode {
+  TIMED = 'TIMED',       // After a fixed duration
+  KILLS = 'KILLS',       // After a fixed number of kills
+  PRACTICE = 'PRACTICE'  // Only when the player ends it
+}
+
+export interface SessionConfig {
+  mode: SessionMode;
+  duration: number;   // Seconds, for TIMED
+  killTarget: number; // Kills, for KILLS
+  adaptive?: AdaptiveConfig; // Missing for the scenario's fixed difficulty
+}
+
+// Adaptive difficulty: target size, speed and spawn spread follow the player's
+// rolling success rate
+export interface AdaptiveConfig {
+  successRate: number; // Percent of shots (or tracking ticks) the controller aims for
+  killTime: number;    // ms; kills slower than this count as a failure
+}
+
+// One point of the difficulty curve, taken at every adjustment
+export interface DifficultySample {
+  time: number;         // Seconds played
+  level: number;        // -1 (easiest) to 1 (hardest); 0 is the scenario as authored
+  successRate?: number; // Rolling percent the level was adjusted from; missing with too few outcomes
+  radiusScale: number;  // Multipliers applied to the scenario
+  speedScale: number;
+  spreadScale: number;
+}
+
+// How a FOV value is measured; games differ, so the same number can mean different views
+export enum FovScaling {
+  VERTICAL = 'VERTICAL',
+  HORIZONTAL = 'HORIZONTAL',           // At the screen's own aspect ratio
+  HORIZONTAL_4_3 = 'HORIZONTAL_4_3',   // At 4:3, wider screens see more (CS2, Apex)
+  HORIZONTAL_16_9 = 'HORIZONTAL_16_9'  // At 16:9 (Valorant, Overwatch)
+}
+
+export enum CrosshairStyle {
+  CROSS = 'CROSS',
+  T_SHAPE = 'T_SHAPE', // Cross without the top arm
+  CIRCLE = 'CIRCLE',
+  DOT = 'DOT'
+}
+
+export enum HitEffect {
+  NONE = 'NONE',
+  BURST = 'BURST',         // Expanding flash where the target died
+  HITMARKER = 'HITMARKER'  // X around the crosshair
+}
+
+export enum MissEffect {
+  NONE = 'NONE',
+  MARKER = 'MARKER', // Fading dot where the shot landed
+  FLASH = 'FLASH'    // Crosshair flashes red
+}
+
+export interface CrosshairSettings {
+  style: CrosshairStyle;
+  size: number;      // Arm length (or circle radius), px
+  gap: number;       // px from the center to each arm
+  thickness: number; // px
+  color: string;
+  outline: boolean;  // 1px black outline
+  centerDot: boolean;
+}
+
+// How the trainer looks; saved with every session
+export interface VisualSettings {
+  fov: number;
+  fovScaling: FovScaling;
+  crosshair: CrosshairSettings;
+  targetColor: string;
+  targetScale: number; // Multiplies every target's radius (hitbox included)
+  hitEffect: HitEffect;
+  missEffect: MissEffect;
+}
+
+export interface AudioSettings {
+  volume: number; // 0-1
+  muted: boolean;
+  // Every cue tells the player something, so each one can be turned off on its own
+  hitSound: boolean;   // A shot connected
+  missSound: boolean;  // A shot missed
+  killSound: boolean;  // A target went down
+  spawnSound: boolean; // Positional; reveals where off-screen targets appear
+}
+
+export enum InputDevice {
+  MOUSE = 'MOUSE',
+  GAMEPAD = 'GAMEPAD' // Right stick aims, right trigger fires
+}
+
+// How stick deflection (after the deadzone) maps to turn speed
+export enum StickCurve {
+  LINEAR = 'LINEAR',
+  EXPONENTIAL = 'EXPONENTIAL', // Deflection to the curve exponent: fine control near center
+  S_CURVE = 'S_CURVE'          // Slow near center and near the edge, fast in between
+}
+
+export enum DeadzoneShape {
+  RADIAL = 'RADIAL', // On the stick's distance from center; keeps diagonals smooth
+  AXIAL = 'AXIAL'    // On each axis separately; makes pure horizontal/vertical aim easy
+}
+
+// Right stick aim; no aim assist of any kind
+export interface GamepadSettings {
+  curve: StickCurve;
+  curveExponent: number;    // For EXPONENTIAL and S_CURVE; 1 is linear
+  deadzoneShape: DeadzoneShape;
+  innerDeadzone: number;    // Deflection ignored around center, 0-1
+  outerDeadzone: number;    // Deflection past this counts as full, 0-1
+  yawSpeed: number;         // Degrees/s at full deflection
+  pitchSpeed: number;
+  invertY: boolean;
+  // Holding the stick at the edge ramps the turn speed up
+  accelerationBoost: number; // Extra speed at the end of the ramp; 0.5 = +50%, 0 = off
+  accelerationDelay: number; // Seconds at the edge before the ramp starts
+  accelerationTime: number;  // Seconds from no boost to the full boost
+  triggerThreshold: number;  // Trigger travel that fires, 0-1
+}
+
+export interface InputSettings {
+  device: InputDevice;
+  gamepad: GamepadSettings;
 }
 
 export interface ShotData {
-  timestamp: number;
+  timestamp: number; // performance.now() of the input event (or simulation step)
   hit: boolean;
   targetId?: string;
-  // Position relative to target center (if applicable)
+  // Position relative to target center (the head, for humanoids)
   relativeX?: number; 
   relativeY?: number; 
   distanceFromCenter?: number;
-  targetVelocityX?: number; // To detect over/undershoot on moving targets
+  // Same offset as seen from the camera, in degrees (right / up positive);
+  // comparable across target distances
+  angularX?: number;
+  angularY?: number;
+  angularError?: number;
+  targetAngularRadius?: number; // Degrees; divide by this for "target radii"
+  targetVelocity?: Vec3;          // World units/s at the time of the shot
+  targetApparentVelocity?: { x: number; y: number }; // Same, on the plane of relativeX / relativeY
+  targetVelocityX?: number;       // World x only; all that sessions saved before targetVelocity carry
+  // Humanoid targets only
+  zone?: HitZone;       // Which hitbox a hit landed in
+  headOffsetY?: number; // Degrees from the crosshair to head height, above positive
+}
+
+// Crosshair offset from the tracked target, sampled at a fixed interval
+export interface TrackingSample {
+  time: number; // Seconds since session start
+  firing: boolean; // Mouse button held
+  onTarget: boolean;
+  relativeX: number;
+  relativeY: number;
+  distanceFromCenter: number;
+}
+
+// Camera orientation sampled every frame (radians, Euler YXZ)
+export interface AimSample {
+  time: number; // performance.now() ms
+  yaw: number;  // Positive turns left
+  pitch: number; // Positive looks up
+}
+
+// Lifecycle of one target, for reaction / time-to-kill metrics and replays (performance.now() ms)
+export interface TargetRecord {
+  targetId: string;
+  spawnTime: number;
+  firstMoveTime?: number; // First mouse movement after the spawn; missing if the aim was moving when it spawned
+  killTime?: number;
+  shots: number; // Shots aimed at this target (hits plus misses it was closest to)
+  position: Vec3; // At spawn
+  velocity: Vec3; // At spawn
+  radius: number;
+  path?: { time: number; position: Vec3 }[]; // Sampled positions, moving targets only
+}
+
+// What a finished run reports back to App
+export interface SessionResult {
+  score: number;
+  shotsFired: number;
+  shotsHit: number;
+  missData: ShotData[];
+  avgTimeOnTarget?: number;
+  trackingSamples?: TrackingSample[];
+  targetRecords: TargetRecord[];
+  aimPath: AimSample[];
+  duration: number;     // Seconds actually played, excluding pauses
+  endedEarly: boolean;  // Ended from the pause menu
+  fov: number;          // Vertical field of view actually rendered, degrees
+  difficultyCurve?: DifficultySample[]; // Adaptive sessions only
+}
+
+// One player on a shared machine; visual and audio settings are stored per profile alongside
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number; // Date.now()
+  sensitivity: number;
+  dpi: number;
+  targetGame: TargetGame;
 }
 
 export interface SessionStats {
+  id: string;
+  profileId?: string; // Missing on sessions saved before profiles existed (the default profile's)
+  timestamp: number; // Date.now() when the session finished
   score: number;
   shotsFired: number;
   shotsHit: number;
   accuracy: number;
-  avgTimeOnTarget?: number; // For tracking
+  avgTimeOnTarget?: number; // For tracking: % of held time spent on target
+  trackingSamples?: TrackingSample[];
+  targetRecords?: TargetRecord[];
+  aimPath?: AimSample[];
   missData: ShotData[];
-  scenario: ScenarioType;
+  scenario: string; // ScenarioDefinition id
+  scenarioName: string;
   sensitivity: number;
+  dpi: number;
+  targetGame: TargetGame;
+  fov?: number; // Vertical field of view actually rendered, degrees
+  visuals?: VisualSettings; // Missing on sessions saved before settings existed
+  hitbox?: HitboxDefinition; // The scenario's, for humanoid targets
+  seed: number;
+  dailyChallenge?: string; // UTC date (YYYY-MM-DD) when played as the daily challenge
+  sessionMode?: SessionMode; // Missing on sessions saved before modes existed (timed)
+  duration?: number;         // Seconds played, excluding pauses
+  timeLimit?: number;        // Seconds the timed run was set to; missing on kill-count runs and older sessions
+  targetScale?: number;      // Target size multiplier the run was played at; missing on older sessions
+  endedEarly?: boolean;
+  adaptive?: AdaptiveConfig; // Adaptive sessions only; their targets varied with the player
+  difficultyCurve?: DifficultySample[];
+  playlist?: PlaylistTag; // Sessions played as a block of a playlist
+  race?: RaceTag;         // Sessions played in a multiplayer race
+  input?: InputDevice;    // Missing on sessions saved before gamepads were supported (mouse)
+}
+
+// -----------------------------------------------------------------------------
+// Playlists and training programs
+// -----------------------------------------------------------------------------
+export interface PlaylistBlock {
+  scenario: string; // ScenarioDefinition id
+  duration: number; // Seconds, timed
+  rest: number;     // Seconds of rest after the block
+}
+
+// Scenarios played back-to-back, with one combined report
+export interface Playlist {
+  id: string;
+  name: string;
+  description: string;
+  blocks: PlaylistBlock[];
+}
+
+// A multi-day plan: one playlist id per day, null for a rest day
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description: string;
+  days: (string | null)[];
+}
+
+// A profile's enrollment in a program
+export interface ProgramProgress {
+  programId: string;
+  startDate: string;       // Local date (YYYY-MM-DD) of day 1
+  completedDays: number[]; // Day indexes whose playlist was finished on that day
+}
+
+export interface PlaylistTag {
+  runId: string; // Shared by every block of one playthrough
+  playlistId: string;
+  block: number;
+}
+
+export interface RaceTag {
+  room: string;
+  racers: number;
 }
 
 export interface TargetEntity {
   id: string;
-  position: [number, number, number];
+  position: Vec3;
   active: boolean;
-  velocity: [number, number, number];
+  velocity: Vec3;
   radius: number;
+  spawnTime: number; // performance.now() at spawn
+  motion?: MotionState; // STRAFE, ADAD, CIRCULAR and NOISE
 }
\ No newline at end of file